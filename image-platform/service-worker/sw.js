@@ -0,0 +1,151 @@
+/**
+ * Service worker for the image viewer.
+ *
+ * - Precaches the build output (the app shell) so reloads do not refetch it
+ * - Serves image contents (`<api>/images/{id}`) cache-first, since the
+ *   contents behind an id never change, keeping them within a size limit
+ * - Never touches the event stream or any other API endpoint
+ *
+ * The placeholders below are filled in at build time by the plugin in
+ * `vite.config.ts`. A new build installs alongside the running one and
+ * waits; the page prompts the user and sends SKIP_WAITING to switch over.
+ */
+const BUILD_VERSION = __BUILD_VERSION__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+const API_BASE = __API_BASE__;
+const IMAGE_CACHE = __IMAGE_CACHE__;
+
+const SHELL_CACHE = `app-shell-${BUILD_VERSION}`;
+const SHELL_CACHE_PREFIX = 'app-shell-';
+// Same bound as the page's IndexedDB cache of image contents
+const MAX_IMAGE_CACHE_BYTES = 200 * 1024 * 1024;
+// Stored with each cached image, so the cache can be measured without reading contents
+const SIZE_HEADER = 'X-Cached-Size';
+
+const apiBaseUrl = new URL(API_BASE.replace(/\/+$/, ''), self.location.origin).href;
+// Image contents only: not `/images/stream`, `/images/ws`, `/images/events` or `/images/{id}/metadata`
+const NON_IMAGE_PATHS = new Set(['stream', 'ws', 'events']);
+
+/**
+ * Returns the image id if the URL is that of an image's contents
+ */
+const getImageId = (url) => {
+  const prefix = `${apiBaseUrl}/images/`;
+  if (!url.startsWith(prefix)) return null;
+  const rest = url.slice(prefix.length).split(/[?#]/)[0];
+  if (!rest || rest.includes('/') || NON_IMAGE_PATHS.has(rest)) return null;
+  return decodeURIComponent(rest);
+};
+
+const imageCacheKey = (id) => `${apiBaseUrl}/images/${encodeURIComponent(id)}`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(SHELL_CACHE_PREFIX) && name !== SHELL_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  const message = event.data;
+  if (!message) return;
+  if (message.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  } else if (message.type === 'PURGE_IMAGE') {
+    event.waitUntil(caches.open(IMAGE_CACHE).then(cache => cache.delete(imageCacheKey(message.id))));
+  }
+});
+
+/**
+ * Evicts the earliest cached images until the cache fits its size limit.
+ * Sizes are read from the header stored with each image, not its contents.
+ */
+const trimImageCache = async (cache) => {
+  // Oldest first
+  const keys = await cache.keys();
+  const sizes = await Promise.all(keys.map(async (key) => {
+    const cached = await cache.match(key);
+    return Number(cached && cached.headers.get(SIZE_HEADER)) || 0;
+  }));
+  let total = sizes.reduce((sum, size) => sum + size, 0);
+  for (let i = 0; i < keys.length && total > MAX_IMAGE_CACHE_BYTES; i++) {
+    await cache.delete(keys[i]);
+    total -= sizes[i];
+  }
+};
+
+/**
+ * Stores an image response along with its size
+ */
+const storeImage = async (cache, id, response) => {
+  const blob = await response.blob();
+  const headers = new Headers(response.headers);
+  headers.set(SIZE_HEADER, String(blob.size));
+  await cache.put(imageCacheKey(id), new Response(blob, { status: response.status, statusText: response.statusText, headers }));
+};
+
+/**
+ * Cache-first for image contents. Only complete image responses are
+ * stored, and the cache is trimmed to its size limit after each one.
+ * Requests for part of an image, e.g. its embedded metadata, go to the
+ * network uncached when it is not stored, as storing would download all of it.
+ */
+const serveImage = async (event, id) => {
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(imageCacheKey(id));
+  if (cached) return cached;
+  if (event.request.headers.has('range')) return fetch(event.request);
+
+  const response = await fetch(event.request);
+  const contentType = response.headers.get('content-type') || '';
+  if (response.status === 200 && contentType.startsWith('image/')) {
+    await storeImage(cache, id, response.clone());
+    event.waitUntil(trimImageCache(cache));
+  }
+  return response;
+};
+
+/**
+ * Network-first for page loads, so a reachable server always serves the
+ * current index.html, with the precached shell as the offline fallback
+ */
+const serveNavigation = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cached = await caches.match('/index.html', { cacheName: SHELL_CACHE });
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const imageId = getImageId(request.url);
+  if (imageId !== null) {
+    event.respondWith(serveImage(event, imageId));
+    return;
+  }
+  // Everything else under the API, including the event stream, goes straight to the network
+  if (request.url.startsWith(`${apiBaseUrl}/`)) return;
+
+  if (new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(serveNavigation(request));
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { cacheName: SHELL_CACHE }).then(cached => cached || fetch(request))
+  );
+});
@@ -1,28 +1,45 @@
 import { ImageViewer } from './components/ImageViewer'
+import { UploadPanel } from './components/UploadPanel'
+import { UpdatePrompt } from './components/UpdatePrompt'
+import { useKioskMode, getKioskReloadAfter } from './hooks/useKioskMode'
 
 function App() {
+  const { isKiosk, isCursorHidden, enter } = useKioskMode()
+
   return (
-    <div className="min-h-screen bg-[#0B132B] text-white">
-      {/* Navigation Bar */}
-      <nav className="bg-[#0B132B] border-b border-gray-800 px-4 py-4">
-        <div className="container mx-auto flex items-center">
-          <img 
-            src="/quera-logo.png" 
-            alt="QuEra Logo" 
-            className="h-8 w-auto"
-          />
-          <h1 className="ml-4 text-xl font-semibold">
-            Image Service Viewer
-          </h1>
-        </div>
-      </nav>
+    <div className={`min-h-screen bg-[#0B132B] text-white ${isCursorHidden ? 'cursor-none' : ''}`}>
+      {/* Navigation Bar, hidden on kiosk displays */}
+      {!isKiosk && (
+        <nav className="bg-[#0B132B] border-b border-gray-800 px-4 py-4">
+          <div className="container mx-auto flex items-center">
+            <img 
+              src="/quera-logo.png" 
+              alt="QuEra Logo" 
+              className="h-8 w-auto"
+            />
+            <h1 className="ml-4 text-xl font-semibold">
+              Image Service Viewer
+            </h1>
+            <button
+              onClick={enter}
+              title="Hide all controls and go fullscreen; press Escape to leave"
+              className="ml-auto px-4 py-1.5 rounded-lg font-medium bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors"
+            >
+              Kiosk Mode
+            </button>
+          </div>
+        </nav>
+      )}
 
       {/* Main Content */}
-      <main className="container mx-auto">
-        <ImageViewer />
+      <main className={isKiosk ? '' : 'container mx-auto'}>
+        {!isKiosk && <UploadPanel />}
+        <ImageViewer kiosk={isKiosk} reloadAfter={getKioskReloadAfter()} />
       </main>
+
+      {!isKiosk && <UpdatePrompt />}
     </div>
   )
 }
 
-export default App
\ No newline at end of file
+export default App
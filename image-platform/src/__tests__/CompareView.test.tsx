@@ -0,0 +1,114 @@
+/**
+ * Tests for the CompareView component
+ *
+ * Verifies the comparison of two images:
+ * - Picking and swapping the compared images
+ * - Side-by-side panes zoomed together
+ * - The swipe divider and onion skin opacity
+ * - The amplified per-pixel difference and its failures
+ */
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { CompareView } from '../components/CompareView';
+import { DEFAULT_VIEWER_SETTINGS, CompareSettings } from '../services/viewerSettings';
+import { imageApi } from '../services/api';
+import type { ImageMetadata } from '../services/api';
+import { diffPixels } from '../utils/imagePixels';
+
+const mockImages: ImageMetadata[] = [
+  { id: 'img-1', name: 'before.png', size: 2048, mimeType: 'image/png', uploadedAt: new Date('2024-01-01T00:00:00Z') },
+  { id: 'img-2', name: 'after.png', size: 2048, mimeType: 'image/png', uploadedAt: new Date('2024-01-02T00:00:00Z') },
+  { id: 'img-3', name: 'later.png', size: 2048, mimeType: 'image/png', uploadedAt: new Date('2024-01-03T00:00:00Z') },
+];
+
+const renderCompareView = (changes: Partial<CompareSettings> = {}) => {
+  const onChange = vi.fn();
+  const settings = { ...DEFAULT_VIEWER_SETTINGS.compare, ...changes };
+  render(<CompareView images={mockImages} settings={settings} onChange={onChange} />);
+  return { onChange };
+};
+
+/** Loads an image as if it had decoded at the given size */
+const loadImage = (img: HTMLElement, width: number, height: number) => {
+  Object.defineProperty(img, 'naturalWidth', { value: width });
+  Object.defineProperty(img, 'naturalHeight', { value: height });
+  fireEvent.load(img);
+};
+
+describe('CompareView', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('compares the first two images until others are picked', () => {
+    const { onChange } = renderCompareView({ secondId: 'deleted' });
+
+    expect(screen.getByLabelText('Image A')).toHaveValue('img-1');
+    expect(screen.getByLabelText('Image B')).toHaveValue('img-2');
+
+    fireEvent.change(screen.getByLabelText('Image B'), { target: { value: 'img-3' } });
+    expect(onChange).toHaveBeenLastCalledWith({ secondId: 'img-3' });
+    fireEvent.click(screen.getByLabelText('Swap images'));
+    expect(onChange).toHaveBeenLastCalledWith({ firstId: 'img-2', secondId: 'img-1' });
+    fireEvent.click(screen.getByText('Difference'));
+    expect(onChange).toHaveBeenLastCalledWith({ layout: 'difference' });
+  });
+
+  it('zooms both images side by side together, fitted to the first', () => {
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue(
+      { left: 0, top: 0, width: 1000, height: 500, right: 1000, bottom: 500, x: 0, y: 0, toJSON: () => ({}) }
+    );
+    renderCompareView();
+    const first = screen.getByRole('img', { name: 'before.png' });
+    const second = screen.getByRole('img', { name: 'after.png' });
+
+    // Each pane is 500 × 500
+    loadImage(first, 1000, 250);
+    expect(screen.getByTestId('zoom-level')).toHaveTextContent('50%');
+
+    fireEvent.click(screen.getByLabelText('Zoom in'));
+    expect(first.style.transform).toContain('scale(0.625)');
+    expect(second.style.transform).toBe(first.style.transform);
+  });
+
+  it('reveals the second image right of the swipe divider', () => {
+    renderCompareView({ layout: 'swipe' });
+    const clip = screen.getByRole('img', { name: 'after.png' }).parentElement!;
+    expect(clip.style.clipPath).toBe('inset(0 0 0 50%)');
+
+    fireEvent.change(screen.getByLabelText('Divider'), { target: { value: '20' } });
+    expect(clip.style.clipPath).toBe('inset(0 0 0 20%)');
+    expect(screen.getByTestId('swipe-divider').style.left).toBe('20%');
+  });
+
+  it('fades the second image in as an onion skin', () => {
+    renderCompareView({ layout: 'onion' });
+
+    fireEvent.change(screen.getByLabelText('Opacity of B'), { target: { value: '30' } });
+
+    expect(screen.getByRole('img', { name: 'after.png' }).style.opacity).toBe('0.3');
+  });
+
+  it('reports a difference that cannot be computed', async () => {
+    vi.spyOn(imageApi, 'getImageBlob').mockRejectedValue(new Error('Image not found. It may have been deleted.'));
+    renderCompareView({ layout: 'difference', amplification: 8 });
+
+    expect(screen.getByText('×8')).toBeInTheDocument();
+    const status = screen.getByRole('status');
+    expect(status).toHaveTextContent('Computing the difference…');
+    expect(await within(status).findByText(/Could not compute the difference: Image not found/)).toBeInTheDocument();
+  });
+});
+
+describe('diffPixels', () => {
+  it('amplifies the absolute difference of each channel and counts changed pixels', () => {
+    const a = new Uint8ClampedArray([10, 20, 30, 255, 100, 100, 100, 255, 0, 0, 0, 0]);
+    const b = new Uint8ClampedArray([10, 20, 30, 0, 90, 110, 100, 255, 200, 0, 0, 255]);
+
+    const { data, changedPixels } = diffPixels(a, b, 4);
+
+    expect([...data]).toEqual([0, 0, 0, 255, 40, 40, 0, 255, 255, 0, 0, 255]);
+    expect(changedPixels).toBe(2);
+    expect(() => diffPixels(a, b.subarray(4), 1)).toThrow();
+  });
+});
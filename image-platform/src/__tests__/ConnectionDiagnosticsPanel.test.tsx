@@ -0,0 +1,90 @@
+/**
+ * Tests for the ConnectionDiagnosticsPanel component
+ *
+ * Verifies the diagnostics shown to operators:
+ * - Collapsed by default, expanded on demand
+ * - Transport, heartbeat age, retries, polling and event counts
+ * - Rolling log of connection transitions
+ * - Manual reconnect
+ */
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ConnectionDiagnosticsPanel } from '../components/ConnectionDiagnosticsPanel';
+import type { ConnectionDiagnostics } from '../services/imageStreamStore';
+
+const NOW = new Date('2024-01-01T12:00:00Z').getTime();
+
+/** Diagnostics of a connection that is waiting to reconnect */
+const reconnecting: ConnectionDiagnostics = {
+  phase: 'reconnecting',
+  role: 'leader',
+  lastHeartbeatAt: NOW - 12000,
+  reconnectAttempt: 3,
+  nextReconnectAt: NOW + 8000,
+  eventCounts: { UPLOAD: 2, DELETE: 1, HEARTBEAT: 40 },
+  isFallbackPolling: false,
+  log: [
+    { at: NOW - 1000, phase: 'reconnecting', message: 'Reconnect attempt 3 in 8s' },
+    { at: NOW - 2000, phase: 'connected', message: 'Connection over sse lost' }
+  ]
+};
+
+/** Returns the value shown for a diagnostics row */
+const getValue = (label: string) => screen.getByText(label).nextElementSibling?.textContent;
+
+describe('ConnectionDiagnosticsPanel', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('is collapsed until opened', () => {
+    render(<ConnectionDiagnosticsPanel diagnostics={reconnecting} transport={null} onReconnect={vi.fn()} />);
+    expect(screen.queryByRole('region', { name: 'Connection diagnostics' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show Diagnostics' }));
+    expect(screen.getByRole('region', { name: 'Connection diagnostics' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Hide Diagnostics' })).toHaveAttribute('aria-expanded', 'true');
+  });
+
+  it('shows the connection state and keeps ages current', () => {
+    render(<ConnectionDiagnosticsPanel diagnostics={reconnecting} transport="websocket" onReconnect={vi.fn()} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Show Diagnostics' }));
+
+    expect(getValue('Status')).toBe('Reconnecting');
+    expect(getValue('Transport')).toBe('WebSocket');
+    expect(getValue('Last heartbeat')).toBe('12s ago');
+    expect(getValue('Retry attempt')).toBe('3');
+    expect(getValue('Next retry')).toBe('in 8s');
+    expect(getValue('Fallback polling')).toBe('Inactive');
+    expect(getValue('Events')).toBe('2 uploads · 1 deletes · 40 heartbeats');
+
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+    expect(getValue('Last heartbeat')).toBe('17s ago');
+    expect(getValue('Next retry')).toBe('in 3s');
+  });
+
+  it('lists transitions newest first', () => {
+    render(<ConnectionDiagnosticsPanel diagnostics={reconnecting} transport={null} onReconnect={vi.fn()} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Show Diagnostics' }));
+
+    const entries = screen.getAllByRole('listitem');
+    expect(entries[0]).toHaveTextContent('Reconnect attempt 3 in 8s');
+    expect(entries[1]).toHaveTextContent('Connection over sse lost');
+  });
+
+  it('reconnects on demand', () => {
+    const onReconnect = vi.fn();
+    render(<ConnectionDiagnosticsPanel diagnostics={reconnecting} transport={null} onReconnect={onReconnect} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Show Diagnostics' }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reconnect now' }));
+    expect(onReconnect).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Tests for the GalleryView component
+ *
+ * Verifies the gallery management view:
+ * - Filtering by name, MIME type and upload date
+ * - Sorting by metadata fields
+ * - Filtering and sorting by metadata embedded in the files
+ * - Multi-select with bulk delete and download, of the images shown only
+ * - Live updates and virtualized rendering
+ * - Opening tiles in the lightbox
+ */
+import { render, screen, fireEvent, act, within } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GalleryView } from '../components/GalleryView';
+import { EmbeddedMetadataStore } from '../services/embeddedMetadataStore';
+import type { ImageMetadata } from '../services/api';
+import type { EmbeddedMetadata } from '../utils/embeddedMetadata';
+
+/** Mock image data with varied metadata for filtering and sorting */
+const mockImages: ImageMetadata[] = [
+  { id: '1', name: 'alpha.jpg', size: 3072, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T12:00:00') },
+  { id: '2', name: 'beta.png', size: 1024, mimeType: 'image/png', uploadedAt: new Date('2024-01-03T12:00:00') },
+  { id: '3', name: 'gamma.jpg', size: 2048, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-02T12:00:00') },
+];
+
+/** Returns a store reading the given embedded metadata for each image id */
+const createMetadataStore = (byId: Record<string, Partial<EmbeddedMetadata>> = {}) => new EmbeddedMetadataStore({
+  fetchFile: async (id) => new TextEncoder().encode(id).buffer,
+  parse: async (buffer) => ({
+    capturedAt: null,
+    device: null,
+    exposureTime: null,
+    fNumber: null,
+    iso: null,
+    focalLength: null,
+    tags: {},
+    ...byId[new TextDecoder().decode(buffer)]
+  })
+});
+
+/** Returns the names of the rendered tiles in display order */
+const getTileNames = () =>
+  screen.getAllByTestId('gallery-tile').map(tile => within(tile).getByRole('img').getAttribute('alt'));
+
+describe('GalleryView', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('shows newest uploads first by default', () => {
+    render(<GalleryView images={mockImages} />);
+    expect(getTileNames()).toEqual(['beta.png', 'gamma.jpg', 'alpha.jpg']);
+  });
+
+  it('sorts by the selected field and direction', () => {
+    render(<GalleryView images={mockImages} />);
+
+    fireEvent.change(screen.getByLabelText('Sort by'), { target: { value: 'size' } });
+    expect(getTileNames()).toEqual(['alpha.jpg', 'gamma.jpg', 'beta.png']);
+
+    fireEvent.click(screen.getByLabelText('Sort descending'));
+    expect(getTileNames()).toEqual(['beta.png', 'gamma.jpg', 'alpha.jpg']);
+  });
+
+  it('filters by name, MIME type and upload date range', () => {
+    render(<GalleryView images={mockImages} />);
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'AM' } });
+    expect(getTileNames()).toEqual(['gamma.jpg']);
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: '' } });
+    fireEvent.change(screen.getByLabelText('Type'), { target: { value: 'image/jpeg' } });
+    expect(getTileNames()).toEqual(['gamma.jpg', 'alpha.jpg']);
+
+    fireEvent.change(screen.getByLabelText('Uploaded from'), { target: { value: '2024-01-02' } });
+    fireEvent.change(screen.getByLabelText('Uploaded to'), { target: { value: '2024-01-02' } });
+    expect(getTileNames()).toEqual(['gamma.jpg']);
+
+    fireEvent.change(screen.getByLabelText('Uploaded from'), { target: { value: '2024-02-01' } });
+    expect(screen.getByText('No images match the current filters')).toBeInTheDocument();
+  });
+
+  it('filters and sorts by embedded metadata once read', async () => {
+    const metadataStore = createMetadataStore({
+      '1': { device: 'Canon EOS R5', iso: 800 },
+      '3': { device: 'Nikon Z6', iso: 100, tags: { Artist: 'Jo' } }
+    });
+    render(<GalleryView images={mockImages} metadataStore={metadataStore} />);
+    // Nothing is read until filtering or sorting needs it
+    expect(metadataStore.getSnapshot().size).toBe(0);
+
+    fireEvent.change(screen.getByLabelText('Sort by'), { target: { value: 'iso' } });
+    // Images without the field stay last
+    await vi.waitFor(() => expect(getTileNames()).toEqual(['alpha.jpg', 'gamma.jpg', 'beta.png']));
+    fireEvent.click(screen.getByLabelText('Sort descending'));
+    expect(getTileNames()).toEqual(['gamma.jpg', 'alpha.jpg', 'beta.png']);
+
+    fireEvent.change(screen.getByLabelText('Embedded metadata'), { target: { value: 'nikon' } });
+    expect(getTileNames()).toEqual(['gamma.jpg']);
+    fireEvent.change(screen.getByLabelText('Embedded metadata'), { target: { value: 'artist jo' } });
+    expect(getTileNames()).toEqual(['gamma.jpg']);
+  });
+
+  it('stays live as images are added and removed', () => {
+    const { rerender } = render(<GalleryView images={mockImages} />);
+    fireEvent.click(screen.getByLabelText('Select beta.png'));
+    expect(screen.getByText(/1 selected/)).toBeInTheDocument();
+
+    const uploaded: ImageMetadata = { id: '4', name: 'delta.gif', size: 512, mimeType: 'image/gif', uploadedAt: new Date('2024-01-04T12:00:00') };
+    rerender(<GalleryView images={[mockImages[0], mockImages[2], uploaded]} />);
+
+    expect(getTileNames()).toEqual(['delta.gif', 'gamma.jpg', 'alpha.jpg']);
+    expect(screen.getByText(/0 selected/)).toBeInTheDocument();
+  });
+
+  describe('bulk actions', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('deletes every selected image after confirmation', async () => {
+      const onDelete = vi.fn().mockResolvedValue(undefined);
+      render(<GalleryView images={mockImages} onDelete={onDelete} />);
+
+      fireEvent.click(screen.getByLabelText('Select alpha.jpg'));
+      fireEvent.click(screen.getByLabelText('Select beta.png'));
+      fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+      expect(screen.getByText('Delete 2 selected images?')).toBeInTheDocument();
+
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: 'Confirm Delete' }));
+      });
+
+      expect(onDelete).toHaveBeenCalledTimes(2);
+      expect(onDelete).toHaveBeenCalledWith('1');
+      expect(onDelete).toHaveBeenCalledWith('2');
+    });
+
+    it('leaves selected images hidden by the filter out of bulk actions', async () => {
+      const onDelete = vi.fn().mockResolvedValue(undefined);
+      render(<GalleryView images={mockImages} onDelete={onDelete} />);
+
+      fireEvent.click(screen.getByLabelText('Select all'));
+      fireEvent.change(screen.getByLabelText('Type'), { target: { value: 'image/png' } });
+      expect(screen.getByText(/1 selected/)).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+      expect(screen.getByText('Delete 1 selected images?')).toBeInTheDocument();
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: 'Confirm Delete' }));
+      });
+
+      expect(onDelete).toHaveBeenCalledTimes(1);
+      expect(onDelete).toHaveBeenCalledWith('2');
+    });
+
+    it('keeps failed deletes selected and reports them', async () => {
+      const onDelete = vi.fn((id: string) =>
+        id === '2' ? Promise.reject(new Error('Server error: 500')) : Promise.resolve());
+      render(<GalleryView images={mockImages} onDelete={onDelete} />);
+
+      fireEvent.click(screen.getByLabelText('Select all'));
+      fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: 'Confirm Delete' }));
+      });
+
+      expect(screen.getByRole('alert')).toHaveTextContent('Failed to delete 1 of 3 images: beta.png');
+      expect(screen.getByLabelText('Select beta.png')).toBeChecked();
+      expect(screen.getByLabelText('Select alpha.jpg')).not.toBeChecked();
+    });
+
+    it('downloads every selected image', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('bytes', { headers: { 'Content-Type': 'image/jpeg' } }));
+      // jsdom does not implement object URLs
+      URL.createObjectURL = vi.fn(() => 'blob:image');
+      URL.revokeObjectURL = vi.fn();
+      const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      render(<GalleryView images={mockImages} />);
+
+      fireEvent.click(screen.getByLabelText('Select alpha.jpg'));
+      fireEvent.click(screen.getByLabelText('Select gamma.jpg'));
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: 'Download' }));
+      });
+
+      expect(fetchSpy).toHaveBeenCalledWith('/api/images/1', expect.anything());
+      expect(fetchSpy).toHaveBeenCalledWith('/api/images/3', expect.anything());
+      expect(clickSpy).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('opens a tile in the lightbox without selecting it, stepping through the visible images', () => {
+    render(<GalleryView images={mockImages} metadataStore={createMetadataStore()} />);
+    fireEvent.change(screen.getByLabelText('Type'), { target: { value: 'image/jpeg' } });
+
+    fireEvent.click(screen.getByLabelText('View details of gamma.jpg'));
+    expect(screen.getByLabelText('Select gamma.jpg')).not.toBeChecked();
+    expect(screen.getByRole('dialog', { name: 'Details of gamma.jpg' })).toBeInTheDocument();
+
+    // beta.png is filtered out, so the next image wraps round to gamma.jpg again
+    fireEvent.click(screen.getByLabelText('Show next image'));
+    expect(screen.getByRole('dialog', { name: 'Details of alpha.jpg' })).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('Show next image'));
+    expect(screen.getByRole('dialog', { name: 'Details of gamma.jpg' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Close'));
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('only renders the tiles near the viewport', () => {
+    const manyImages = Array.from({ length: 500 }, (_, index) => ({
+      id: `${index}`,
+      name: `image-${index}.jpg`,
+      size: index,
+      mimeType: 'image/jpeg',
+      uploadedAt: new Date('2024-01-01T12:00:00')
+    }));
+    render(<GalleryView images={manyImages} />);
+
+    const renderedTiles = screen.getAllByTestId('gallery-tile').length;
+    expect(renderedTiles).toBeGreaterThan(0);
+    expect(renderedTiles).toBeLessThan(manyImages.length);
+  });
+});
@@ -3,16 +3,31 @@
  * 
  * Verifies the component's ability to:
  * - Handle loading, error, and empty states
+ * - Keep cycling cached images while offline
  * - Display single and multiple images with metadata
+ * - Draw the annotations of the shown image over it
+ * - Keep the adjusted canvas, and the schedule, while the next image's pixels load
  * - Cycle through images at specified intervals
+ * - Keep images on screen for their dwell times
  * - Adapt to connection status changes
  * - Render in both standard and compact modes
+ * - Confirm deletes and report failures
+ * - Navigate manually with controls, thumbnails and keyboard shortcuts
+ * - Hold the current image, and the schedule, until the next one is decoded
  */
-import { render, screen, act } from '@testing-library/react';
+import { render, screen, act, fireEvent, within } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ImageCarousel } from '../components/ImageCarousel';
+import { AnnotationStore } from '../services/annotationStore';
+import { ImagePixels, loadImagePixels } from '../utils/imagePixels';
 import type { ImageMetadata } from '../services/api';
 
+// jsdom cannot decode images, so their pixels are given
+vi.mock('../utils/imagePixels', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../utils/imagePixels')>(),
+  loadImagePixels: vi.fn()
+}));
+
 /** Mock image data for testing various carousel states */
 const mockImages: ImageMetadata[] = [
   { 
@@ -20,21 +35,21 @@ const mockImages: ImageMetadata[] = [
     name: 'image1.jpg',
     size: 1024,
     mimeType: 'image/jpeg',
-    uploadedAt: new Date().toISOString()
+    uploadedAt: new Date()
   },
   { 
     id: '2', 
     name: 'image2.jpg',
     size: 2048,
     mimeType: 'image/jpeg',
-    uploadedAt: new Date().toISOString()
+    uploadedAt: new Date()
   },
   { 
     id: '3', 
     name: 'image3.jpg',
     size: 3072,
     mimeType: 'image/jpeg',
-    uploadedAt: new Date().toISOString()
+    uploadedAt: new Date()
   }
 ];
 
@@ -46,6 +61,7 @@ describe('ImageCarousel', () => {
   afterEach(() => {
     vi.clearAllTimers();
     vi.useRealTimers();
+    localStorage.clear();
   });
 
   it('shows loading spinner when loading', () => {
@@ -60,6 +76,20 @@ describe('ImageCarousel', () => {
     expect(screen.getByText('Disconnected')).toBeInTheDocument();
   });
 
+  it('keeps cycling cached images while offline', async () => {
+    render(
+      <ImageCarousel images={mockImages} isLoading={false} isConnected={false} error="Connection lost. Reconnecting..." cycleInterval={1000} />
+    );
+
+    expect(screen.getByRole('status')).toHaveTextContent('Offline — showing cached images');
+    expect(screen.getByRole('img')).toHaveAttribute('src', `/api/images/${mockImages[0].id}`);
+
+    await act(async () => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(screen.getByRole('img')).toHaveAttribute('src', `/api/images/${mockImages[1].id}`);
+  });
+
   it('shows empty state when no images and not loading', () => {
     render(<ImageCarousel images={[]} isLoading={false} isConnected={true} error={null} />);
     expect(screen.getByText('No images available')).toBeInTheDocument();
@@ -80,7 +110,7 @@ describe('ImageCarousel', () => {
 
     // Initial render should show first image
     expect(screen.getByRole('img')).toHaveAttribute('src', `/api/images/${mockImages[0].id}`);
-    expect(screen.getByText(`Captured at ${new Date(mockImages[0].uploadedAt).toLocaleString()}`)).toBeInTheDocument();
+    expect(screen.getByText(`Captured at ${mockImages[0].uploadedAt.toLocaleString()}`)).toBeInTheDocument();
 
     // Advance timer by cycle interval
     await act(async () => {
@@ -89,7 +119,7 @@ describe('ImageCarousel', () => {
 
     // Should show second image
     expect(screen.getByRole('img')).toHaveAttribute('src', `/api/images/${mockImages[1].id}`);
-    expect(screen.getByText(`Captured at ${new Date(mockImages[1].uploadedAt).toLocaleString()}`)).toBeInTheDocument();
+    expect(screen.getByText(`Captured at ${mockImages[1].uploadedAt.toLocaleString()}`)).toBeInTheDocument();
 
     // Advance timer again
     await act(async () => {
@@ -98,7 +128,7 @@ describe('ImageCarousel', () => {
 
     // Should show third image
     expect(screen.getByRole('img')).toHaveAttribute('src', `/api/images/${mockImages[2].id}`);
-    expect(screen.getByText(`Captured at ${new Date(mockImages[2].uploadedAt).toLocaleString()}`)).toBeInTheDocument();
+    expect(screen.getByText(`Captured at ${mockImages[2].uploadedAt.toLocaleString()}`)).toBeInTheDocument();
 
     // Advance timer one more time to wrap around
     await act(async () => {
@@ -107,7 +137,67 @@ describe('ImageCarousel', () => {
 
     // Should be back to first image
     expect(screen.getByRole('img')).toHaveAttribute('src', `/api/images/${mockImages[0].id}`);
-    expect(screen.getByText(`Captured at ${new Date(mockImages[0].uploadedAt).toLocaleString()}`)).toBeInTheDocument();
+    expect(screen.getByText(`Captured at ${mockImages[0].uploadedAt.toLocaleString()}`)).toBeInTheDocument();
+  });
+
+  it('keeps images on screen for the dwell time of their rule', async () => {
+    render(
+      <ImageCarousel
+        images={mockImages}
+        isLoading={false}
+        isConnected={true}
+        error={null}
+        cycleInterval={1000}
+        dwellRules={[{ type: 'name', pattern: 'image2', dwell: 5000 }]}
+      />
+    );
+
+    await act(async () => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(screen.getByRole('img')).toHaveAttribute('alt', 'image2.jpg');
+
+    await act(async () => {
+      vi.advanceTimersByTime(4999);
+    });
+    expect(screen.getByRole('img')).toHaveAttribute('alt', 'image2.jpg');
+
+    await act(async () => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(screen.getByRole('img')).toHaveAttribute('alt', 'image3.jpg');
+
+    await act(async () => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(screen.getByRole('img')).toHaveAttribute('alt', 'image1.jpg');
+  });
+
+  it('gives a manually chosen image its full dwell time', async () => {
+    render(
+      <ImageCarousel
+        images={mockImages}
+        isLoading={false}
+        isConnected={true}
+        error={null}
+        cycleInterval={1000}
+        dwellRules={[{ type: 'name', pattern: 'image3', dwell: 3000 }]}
+      />
+    );
+
+    await act(async () => {
+      vi.advanceTimersByTime(500);
+    });
+    fireEvent.click(screen.getByLabelText('Jump to image3.jpg'));
+    await act(async () => {
+      vi.advanceTimersByTime(2999);
+    });
+    expect(screen.getByRole('img')).toHaveAttribute('alt', 'image3.jpg');
+
+    await act(async () => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(screen.getByRole('img')).toHaveAttribute('alt', 'image1.jpg');
   });
 
   it('stops cycling when connection is lost', async () => {
@@ -180,9 +270,303 @@ describe('ImageCarousel', () => {
     expect(screen.getByText(mockImages[0].name)).toBeInTheDocument();
   });
 
+  it('draws the annotations of the shown image over it', () => {
+    const annotationStore = new AnnotationStore({ storageKey: 'test:carousel-annotations' });
+    annotationStore.add('1', { width: 640, height: 480 }, { type: 'point', x: 320, y: 240 }, 'Defect');
+    render(<ImageCarousel isLoading={false} images={mockImages} isConnected={true} error={null} annotationStore={annotationStore} />);
+
+    // Scaled and cropped like the image's object-fit: cover
+    const layer = screen.getByLabelText('Annotations');
+    expect(layer).toHaveAttribute('viewBox', '0 0 640 480');
+    expect(layer).toHaveAttribute('preserveAspectRatio', 'xMidYMid slice');
+    expect(within(layer).getByText('Defect', { selector: 'text' })).toBeInTheDocument();
+
+    act(() => annotationStore.dropImage('1'));
+    expect(screen.queryByLabelText('Annotations')).not.toBeInTheDocument();
+  });
+
+  it('keeps the adjusted canvas and holds the schedule while the next image\'s pixels load', async () => {
+    const loads = new Map<string, (pixels: ImagePixels) => void>();
+    vi.mocked(loadImagePixels).mockImplementation(id => new Promise(resolve => loads.set(id, resolve)));
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      createImageData: (width: number, height: number) => ({ data: new Uint8ClampedArray(width * height * 4) }),
+      putImageData: () => {}
+    } as unknown as CanvasRenderingContext2D);
+    const pixels = { width: 1, height: 1, data: new Uint8ClampedArray([10, 20, 30, 255]) };
+    const { container } = render(
+      <ImageCarousel isLoading={false} images={mockImages} isConnected={true} error={null} cycleInterval={1000} />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Adjust levels and colours' }));
+    await act(async () => loads.get('1')!(pixels));
+    const canvas = container.querySelector('canvas');
+    expect(canvas).toBeInTheDocument();
+
+    // The next image is due, but its pixels are still loading
+    await act(async () => {
+      vi.advanceTimersByTime(1000);
+    });
+    await act(async () => {
+      vi.advanceTimersByTime(3000);
+    });
+    expect(screen.getByRole('img', { name: mockImages[1].name })).toHaveAttribute('src', `/api/images/${mockImages[1].id}`);
+    expect(container.querySelector('canvas')).toBe(canvas);
+
+    await act(async () => loads.get('2')!(pixels));
+    await act(async () => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(screen.getByRole('img', { name: mockImages[2].name })).toHaveAttribute('src', `/api/images/${mockImages[2].id}`);
+    expect(container.querySelector('canvas')).toBe(canvas);
+    vi.restoreAllMocks();
+  });
+
   it('should render in compact mode', () => {
     render(<ImageCarousel isLoading={false} images={mockImages} isConnected={true} error={null} compact={true} />);
     const container = screen.getByRole('img').closest('div');
     expect(container?.parentElement).toHaveClass('w-full h-full');
   });
+
+  it('deletes the current image after confirmation', async () => {
+    const onDelete = vi.fn().mockResolvedValue(undefined);
+    render(<ImageCarousel images={mockImages} isLoading={false} isConnected={true} error={null} onDelete={onDelete} />);
+
+    fireEvent.click(screen.getByLabelText(`Delete ${mockImages[0].name}`));
+    expect(screen.getByText(`Delete ${mockImages[0].name}?`)).toBeInTheDocument();
+    expect(onDelete).not.toHaveBeenCalled();
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    });
+    expect(onDelete).toHaveBeenCalledWith(mockImages[0].id);
+    expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument();
+  });
+
+  it('pauses cycling while a delete is being confirmed', async () => {
+    const onDelete = vi.fn().mockResolvedValue(undefined);
+    render(<ImageCarousel images={mockImages} isLoading={false} isConnected={true} error={null} onDelete={onDelete} />);
+
+    fireEvent.click(screen.getByLabelText(`Delete ${mockImages[0].name}`));
+    await act(async () => {
+      vi.advanceTimersByTime(6000);
+    });
+    expect(screen.getByRole('img')).toHaveAttribute('src', `/api/images/${mockImages[0].id}`);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(onDelete).not.toHaveBeenCalled();
+    await act(async () => {
+      vi.advanceTimersByTime(3000);
+    });
+    expect(screen.getByRole('img')).toHaveAttribute('src', `/api/images/${mockImages[1].id}`);
+  });
+
+  it('shows an error when the delete fails', async () => {
+    const onDelete = vi.fn().mockRejectedValue(new Error('Server error: 500'));
+    render(<ImageCarousel images={mockImages} isLoading={false} isConnected={true} error={null} onDelete={onDelete} />);
+
+    fireEvent.click(screen.getByLabelText(`Delete ${mockImages[0].name}`));
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    });
+
+    expect(screen.getByRole('alert')).toHaveTextContent(`Failed to delete ${mockImages[0].name}: Server error: 500`);
+  });
+
+  describe('manual navigation', () => {
+    /** Returns the id of the image currently on screen */
+    const currentId = () => screen.getByRole('img').getAttribute('src')?.split('/').pop();
+
+    it('steps with the previous and next buttons', () => {
+      render(<ImageCarousel images={mockImages} isLoading={false} isConnected={true} error={null} />);
+
+      fireEvent.click(screen.getByLabelText('Next image'));
+      expect(currentId()).toBe('2');
+
+      fireEvent.click(screen.getByLabelText('Previous image'));
+      fireEvent.click(screen.getByLabelText('Previous image'));
+      expect(currentId()).toBe('3');
+    });
+
+    it('stops and resumes automatic cycling with pause and play', async () => {
+      render(<ImageCarousel images={mockImages} isLoading={false} isConnected={true} error={null} />);
+
+      fireEvent.click(screen.getByLabelText('Pause'));
+      await act(async () => {
+        vi.advanceTimersByTime(9000);
+      });
+      expect(currentId()).toBe('1');
+
+      fireEvent.click(screen.getByLabelText('Play'));
+      await act(async () => {
+        vi.advanceTimersByTime(3000);
+      });
+      expect(currentId()).toBe('2');
+    });
+
+    it('gives a manually chosen image a full interval on screen', async () => {
+      render(<ImageCarousel images={mockImages} isLoading={false} isConnected={true} error={null} />);
+
+      await act(async () => {
+        vi.advanceTimersByTime(2000);
+      });
+      fireEvent.click(screen.getByLabelText('Next image'));
+      await act(async () => {
+        vi.advanceTimersByTime(2000);
+      });
+      expect(currentId()).toBe('2');
+    });
+
+    it('jumps to an image from the thumbnail strip', () => {
+      render(<ImageCarousel images={mockImages} isLoading={false} isConnected={true} error={null} />);
+
+      fireEvent.click(screen.getByLabelText(`Jump to ${mockImages[2].name}`));
+      expect(currentId()).toBe('3');
+    });
+
+    it('jumps to an image with the scrubber in compact mode', () => {
+      render(<ImageCarousel images={mockImages} isLoading={false} isConnected={true} error={null} compact />);
+
+      fireEvent.change(screen.getByLabelText('Jump to image'), { target: { value: '1' } });
+      expect(currentId()).toBe('2');
+    });
+
+    it('supports keyboard shortcuts', async () => {
+      render(<ImageCarousel images={mockImages} isLoading={false} isConnected={true} error={null} />);
+      const carousel = screen.getByLabelText('Image carousel');
+
+      fireEvent.keyDown(carousel, { key: 'ArrowRight' });
+      expect(currentId()).toBe('2');
+      fireEvent.keyDown(carousel, { key: 'ArrowLeft' });
+      expect(currentId()).toBe('1');
+      fireEvent.keyDown(carousel, { key: 'End' });
+      expect(currentId()).toBe('3');
+      fireEvent.keyDown(carousel, { key: 'Home' });
+      expect(currentId()).toBe('1');
+      fireEvent.keyDown(carousel, { key: '2' });
+      expect(currentId()).toBe('2');
+
+      fireEvent.keyDown(carousel, { key: ' ' });
+      expect(screen.getByLabelText('Image carousel (paused)')).toBeInTheDocument();
+      await act(async () => {
+        vi.advanceTimersByTime(6000);
+      });
+      expect(currentId()).toBe('2');
+    });
+
+    it('forwards navigation to onNavigate instead of applying it', () => {
+      const onNavigate = vi.fn();
+      render(<ImageCarousel images={mockImages} isLoading={false} isConnected={true} error={null} onNavigate={onNavigate} />);
+
+      fireEvent.click(screen.getByLabelText('Next image'));
+      fireEvent.keyDown(screen.getByLabelText('Image carousel'), { key: 'End' });
+
+      expect(onNavigate).toHaveBeenNthCalledWith(1, { type: 'next' });
+      expect(onNavigate).toHaveBeenNthCalledWith(2, { type: 'last' });
+      expect(currentId()).toBe('1');
+    });
+
+    it('applies broadcast commands once, keeping its start offset', () => {
+      const { rerender } = render(
+        <ImageCarousel images={mockImages} isLoading={false} isConnected={true} error={null} startIndex={1}
+          command={{ id: 1, action: { type: 'next' } }} />
+      );
+      // A command present at mount predates the frame and is ignored
+      expect(currentId()).toBe('2');
+
+      rerender(
+        <ImageCarousel images={mockImages} isLoading={false} isConnected={true} error={null} startIndex={1}
+          command={{ id: 2, action: { type: 'first' } }} />
+      );
+      expect(currentId()).toBe('2');
+
+      rerender(
+        <ImageCarousel images={mockImages} isLoading={false} isConnected={true} error={null} startIndex={1}
+          command={{ id: 3, action: { type: 'next' } }} />
+      );
+      expect(currentId()).toBe('3');
+    });
+  });
+
+  describe('decode-ahead', () => {
+    // Decodes resolved by the test, keyed by image id
+    let decodes: Map<string, () => void>;
+
+    /** Images with ids no other test has preloaded */
+    const makeImages = (prefix: string) =>
+      mockImages.map(image => ({ ...image, id: `${prefix}-${image.id}` }));
+    const currentId = () => screen.getByRole('img').getAttribute('src')?.split('/').pop();
+
+    beforeEach(() => {
+      decodes = new Map();
+      HTMLImageElement.prototype.decode = function (this: HTMLImageElement) {
+        return new Promise<void>(resolve => {
+          decodes.set(this.src.split('/').pop()!, resolve);
+        });
+      };
+    });
+
+    afterEach(() => {
+      Reflect.deleteProperty(HTMLImageElement.prototype, 'decode');
+    });
+
+    it('preloads upcoming images and advances once the next one is decoded', async () => {
+      const images = makeImages('ready');
+      render(<ImageCarousel images={images} isLoading={false} isConnected={true} error={null} cycleInterval={1000} />);
+      expect([...decodes.keys()]).toEqual(expect.arrayContaining(['ready-2', 'ready-3']));
+
+      await act(async () => {
+        vi.advanceTimersByTime(1000);
+      });
+      expect(currentId()).toBe('ready-1');
+
+      await act(async () => {
+        decodes.get('ready-2')!();
+      });
+      expect(currentId()).toBe('ready-2');
+    });
+
+    it('holds its schedule while the next image loads, so a slow one is not skipped', async () => {
+      const images = makeImages('held');
+      render(
+        <ImageCarousel images={images} isLoading={false} isConnected={true} error={null} cycleInterval={1000} readyTimeout={10000} />
+      );
+
+      // Image 2 is due, and its own time runs out, while it is still loading
+      await act(async () => {
+        vi.advanceTimersByTime(1000);
+      });
+      await act(async () => {
+        vi.advanceTimersByTime(1500);
+      });
+      expect(currentId()).toBe('held-1');
+
+      await act(async () => {
+        decodes.get('held-2')!();
+      });
+      expect(currentId()).toBe('held-2');
+
+      await act(async () => {
+        decodes.get('held-3')!();
+        vi.advanceTimersByTime(1000);
+      });
+      expect(currentId()).toBe('held-3');
+    });
+
+    it('advances anyway once the ready timeout passes', async () => {
+      const images = makeImages('slow');
+      render(
+        <ImageCarousel images={images} isLoading={false} isConnected={true} error={null} cycleInterval={1000} readyTimeout={500} />
+      );
+
+      await act(async () => {
+        vi.advanceTimersByTime(1000);
+      });
+      expect(currentId()).toBe('slow-1');
+
+      await act(async () => {
+        vi.advanceTimersByTime(500);
+      });
+      expect(currentId()).toBe('slow-2');
+    });
+  });
 });
@@ -0,0 +1,79 @@
+/**
+ * Tests for the ImageTransition component
+ *
+ * Verifies the double-buffered image layer:
+ * - Hard cuts keep a single image
+ * - Transitions keep the previous image underneath for their duration
+ * - Motion is replaced by a crossfade when the user prefers reduced motion
+ */
+import { render, screen, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ImageTransition } from '../components/ImageTransition';
+
+describe('ImageTransition', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    Reflect.deleteProperty(window, 'matchMedia');
+  });
+
+  /** Reports a reduced motion preference through matchMedia */
+  const preferReducedMotion = () => {
+    Object.defineProperty(window, 'matchMedia', {
+      configurable: true,
+      value: (query: string) => Object.assign(new EventTarget(), { matches: query.includes('reduce'), media: query })
+    });
+  };
+
+  it('cuts straight to the next image without a transition', () => {
+    const { rerender } = render(<ImageTransition src="/a.jpg" alt="a" mode="none" displayDuration={3000} />);
+
+    rerender(<ImageTransition src="/b.jpg" alt="b" mode="none" displayDuration={3000} />);
+
+    expect(screen.getByRole('img')).toHaveAttribute('src', '/b.jpg');
+    expect(screen.queryByTestId('outgoing-image')).not.toBeInTheDocument();
+  });
+
+  it('keeps the previous image underneath until the crossfade ends', () => {
+    const { rerender } = render(<ImageTransition src="/a.jpg" alt="a" mode="crossfade" duration={400} displayDuration={3000} />);
+
+    rerender(<ImageTransition src="/b.jpg" alt="b" mode="crossfade" duration={400} displayDuration={3000} />);
+
+    expect(screen.getByRole('img')).toHaveAttribute('src', '/b.jpg');
+    expect(screen.getByRole('img').style.animation).toContain('image-fade-in 400ms');
+    expect(screen.getByTestId('outgoing-image')).toHaveAttribute('src', '/a.jpg');
+
+    act(() => {
+      vi.advanceTimersByTime(400);
+    });
+    expect(screen.queryByTestId('outgoing-image')).not.toBeInTheDocument();
+  });
+
+  it('slides the previous image out as the next one slides in', () => {
+    const { rerender } = render(<ImageTransition src="/a.jpg" alt="a" mode="slide" displayDuration={3000} />);
+
+    rerender(<ImageTransition src="/b.jpg" alt="b" mode="slide" displayDuration={3000} />);
+
+    expect(screen.getByRole('img').style.animation).toContain('image-slide-in');
+    expect(screen.getByTestId('outgoing-image').style.animation).toContain('image-slide-out');
+  });
+
+  it('pans each image for as long as it is shown', () => {
+    render(<ImageTransition src="/a.jpg" alt="a" mode="kenburns" duration={500} displayDuration={3000} />);
+
+    expect(screen.getByRole('img').style.animation).toContain('image-ken-burns-in 3500ms');
+  });
+
+  it('crossfades instead of moving when reduced motion is preferred', () => {
+    preferReducedMotion();
+    const { rerender } = render(<ImageTransition src="/a.jpg" alt="a" mode="slide" displayDuration={3000} />);
+
+    rerender(<ImageTransition src="/b.jpg" alt="b" mode="slide" displayDuration={3000} />);
+
+    expect(screen.getByRole('img').style.animation).toContain('image-fade-in');
+    expect(screen.getByRole('img').style.animation).not.toContain('slide');
+  });
+});
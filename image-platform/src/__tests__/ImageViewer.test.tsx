@@ -2,17 +2,25 @@
  * Tests for the ImageViewer component
  * 
  * Verifies the main viewer functionality:
- * - Single/multi-frame mode switching
+ * - Single/multi-frame, gallery and compare mode switching
  * - Frame addition and removal with limits
  * - Cycle speed adjustments
+ * - Shared and per-frame transitions
+ * - Navigation of focused or all frames
+ * - Synchronized playback from the shared clock
  * - Connection status display
+ * - Frames playing playlists
+ * - Kiosk mode without controls
+ * - Settings restored from shared links and kept across reloads
  * - Control state management
  */
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ImageViewer } from '../components/ImageViewer';
 import { useImageStream } from '../hooks/useImageStream';
 import type { ImageMetadata } from '../services/api';
+import type { ConnectionDiagnostics } from '../services/imageStreamStore';
+import { playlistStore } from '../services/playlistStore';
 
 /** Mock the useImageStream hook */
 vi.mock('../hooks/useImageStream', () => ({
@@ -21,26 +29,52 @@ vi.mock('../hooks/useImageStream', () => ({
 
 /** Mock image data for testing viewer states */
 const mockImages: ImageMetadata[] = [
-  { id: '1', name: 'test1.jpg', size: 1024, mimeType: 'image/jpeg', uploadedAt: '2024-01-01T00:00:00Z' },
-  { id: '2', name: 'test2.jpg', size: 2048, mimeType: 'image/jpeg', uploadedAt: '2024-01-01T00:00:01Z' },
-  { id: '3', name: 'test3.jpg', size: 3072, mimeType: 'image/jpeg', uploadedAt: '2024-01-01T00:00:02Z' },
+  { id: '1', name: 'test1.jpg', size: 1024, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:00Z') },
+  { id: '2', name: 'test2.jpg', size: 2048, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:01Z') },
+  { id: '3', name: 'test3.jpg', size: 3072, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:02Z') },
 ];
 
+/** Diagnostics of a healthy connection */
+const mockDiagnostics: ConnectionDiagnostics = {
+  phase: 'connected',
+  role: 'leader',
+  lastHeartbeatAt: null,
+  reconnectAttempt: 0,
+  nextReconnectAt: null,
+  eventCounts: { UPLOAD: 0, DELETE: 0, HEARTBEAT: 0 },
+  isFallbackPolling: false,
+  log: []
+};
+
+/** Mocks the stream hook, overriding the connected defaults */
+const mockStream = (overrides: Partial<ReturnType<typeof useImageStream>> = {}) => {
+  (useImageStream as ReturnType<typeof vi.fn>).mockReturnValue({
+    images: mockImages,
+    error: null,
+    isLoading: false,
+    isConnected: true,
+    transport: 'sse',
+    diagnostics: mockDiagnostics,
+    deleteImage: vi.fn(),
+    reconnectNow: vi.fn(),
+    ...overrides
+  });
+};
+
 describe('ImageViewer', () => {
   beforeEach(() => {
     vi.useFakeTimers();
     // Default mock implementation
-    (useImageStream as ReturnType<typeof vi.fn>).mockReturnValue({
-      images: mockImages,
-      error: null,
-      isLoading: false,
-      isConnected: true
-    });
+    mockStream();
   });
 
   afterEach(() => {
     vi.useRealTimers();
     vi.clearAllMocks();
+    // Settings persist, so start every test from the defaults
+    localStorage.clear();
+    window.history.replaceState(null, '', '/');
+    playlistStore.getSnapshot().forEach(playlist => playlistStore.remove(playlist.id));
   });
 
   it('renders single frame mode by default', () => {
@@ -103,6 +137,26 @@ describe('ImageViewer', () => {
     expect(addButton).toBeDisabled();
   });
 
+  it('switches to gallery mode', () => {
+    render(<ImageViewer />);
+    fireEvent.click(screen.getByText('Gallery'));
+
+    expect(screen.getByText('Gallery')).toHaveClass('bg-[#7F5AF0]');
+    expect(screen.getAllByTestId('gallery-tile')).toHaveLength(mockImages.length);
+    expect(screen.queryByText('Add Frame')).not.toBeInTheDocument();
+  });
+
+  it('compares the shown image with the one before it from the carousel', () => {
+    render(<ImageViewer />);
+    fireEvent.click(screen.getByLabelText('Compare test1.jpg with the previous image'));
+
+    expect(screen.getByText('Compare')).toHaveClass('bg-[#7F5AF0]');
+    expect(screen.getByLabelText('Image A')).toHaveValue('3');
+    expect(screen.getByLabelText('Image B')).toHaveValue('1');
+    expect(screen.queryByText('Edit Playlists')).not.toBeInTheDocument();
+    expect(window.location.search).toBe('?view=compare&a=3&b=1');
+  });
+
   it('adjusts cycle speed', () => {
     render(<ImageViewer />);
     fireEvent.click(screen.getByText('Multi-Frame'));
@@ -118,12 +172,191 @@ describe('ImageViewer', () => {
     expect(slowButton).toHaveClass('bg-[#7F5AF0]');
   });
 
+  it('applies the shared transition unless a frame sets its own', () => {
+    render(<ImageViewer />);
+    fireEvent.click(screen.getByText('Multi-Frame'));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Crossfade' }));
+    fireEvent.change(screen.getByLabelText('Transition for frame 2'), { target: { value: 'slide' } });
+    fireEvent.click(screen.getByLabelText('Next image in frame 1'));
+    fireEvent.click(screen.getByText('All Frames'));
+    fireEvent.click(screen.getByLabelText('Next image in all frames'));
+
+    const [first, second] = screen.getAllByRole('img', { name: /test/ });
+    expect(first.style.animation).toContain('image-fade-in');
+    expect(second.style.animation).toContain('image-slide-in');
+  });
+
+  it('accepts any cycle interval within range', () => {
+    render(<ImageViewer />);
+    const input = screen.getByLabelText('Cycle interval in seconds');
+
+    fireEvent.change(input, { target: { value: '7.5' } });
+    expect(input).toHaveValue(7.5);
+    expect(window.location.search).toBe('?interval=7500');
+
+    fireEvent.change(input, { target: { value: '0.1' } });
+    expect(input).toHaveValue(0.5);
+  });
+
+  it('adds and removes dwell rules', () => {
+    render(<ImageViewer />);
+
+    fireEvent.change(screen.getByPlaceholderText('e.g. ^scan'), { target: { value: '^test2' } });
+    fireEvent.click(screen.getAllByRole('button', { name: 'Add' })[0]);
+    expect(screen.getByRole('list', { name: 'Dwell rules' })).toHaveTextContent('Names matching "^test2" — 10s');
+
+    fireEvent.click(screen.getByLabelText('Remove dwell rule 1'));
+    expect(screen.queryByRole('list', { name: 'Dwell rules' })).not.toBeInTheDocument();
+  });
+
+  it('plays a playlist created in the editor', () => {
+    render(<ImageViewer />);
+    fireEvent.click(screen.getByText('Edit Playlists'));
+    fireEvent.change(screen.getByLabelText('New playlist name'), { target: { value: 'Third only' } });
+    fireEvent.click(screen.getByText('Create'));
+    fireEvent.change(screen.getByLabelText('Image to add'), { target: { value: '3' } });
+    fireEvent.click(screen.getByLabelText('Add image to playlist'));
+    expect(screen.getByRole('list', { name: 'Images in Third only' })).toHaveTextContent('test3.jpg');
+
+    // When - the frame plays the playlist
+    const [playlist] = playlistStore.getSnapshot();
+    fireEvent.change(screen.getByLabelText('Playlist'), { target: { value: playlist.id } });
+
+    // Then - it shows only the playlist's image, even after the interval
+    expect(screen.getByAltText('test3.jpg')).toBeInTheDocument();
+    act(() => {
+      vi.advanceTimersByTime(3000);
+    });
+    expect(screen.getByAltText('test3.jpg')).toBeInTheDocument();
+    expect(window.location.search).toBe(`?playlists=1%3A${playlist.id}`);
+  });
+
+  it('steps every frame together when controls apply to all frames', () => {
+    render(<ImageViewer />);
+    fireEvent.click(screen.getByText('Multi-Frame'));
+    fireEvent.click(screen.getByText('All Frames'));
+
+    fireEvent.click(screen.getByLabelText('Next image in all frames'));
+
+    screen.getAllByRole('img').forEach((image, index) => {
+      expect(image).toHaveAttribute('alt', mockImages[(index + 1) % mockImages.length].name);
+    });
+  });
+
+  it('steps only the focused frame by default', () => {
+    render(<ImageViewer />);
+    fireEvent.click(screen.getByText('Multi-Frame'));
+
+    const carousels = screen.getAllByLabelText('Image carousel');
+    fireEvent.focus(carousels[1]);
+    fireEvent.click(screen.getByLabelText('Next image in frame 2'));
+
+    const images = screen.getAllByRole('img');
+    expect(images[0]).toHaveAttribute('alt', mockImages[0].name);
+    expect(images[1]).toHaveAttribute('alt', mockImages[2].name);
+    expect(images[2]).toHaveAttribute('alt', mockImages[2].name);
+  });
+
+  describe('synchronized playback', () => {
+    /** Returns the names of the images currently shown in each frame */
+    const getFrameNames = () => screen.getAllByRole('img').map(image => image.getAttribute('alt'));
+
+    it('advances every frame in lockstep', async () => {
+      render(<ImageViewer />);
+      fireEvent.click(screen.getByText('Multi-Frame'));
+
+      await act(async () => {
+        vi.advanceTimersByTime(3000);
+      });
+
+      expect(getFrameNames()).toEqual(['test2.jpg', 'test3.jpg', 'test1.jpg', 'test2.jpg']);
+    });
+
+    it('pauses, steps and speeds up every frame at once', async () => {
+      render(<ImageViewer />);
+      fireEvent.click(screen.getByText('Multi-Frame'));
+
+      fireEvent.click(screen.getByText('Pause All'));
+      await act(async () => {
+        vi.advanceTimersByTime(9000);
+      });
+      expect(getFrameNames()).toEqual(['test1.jpg', 'test2.jpg', 'test3.jpg', 'test1.jpg']);
+
+      await act(async () => {
+        fireEvent.click(screen.getByLabelText('Step all frames forward'));
+      });
+      expect(getFrameNames()).toEqual(['test2.jpg', 'test3.jpg', 'test1.jpg', 'test2.jpg']);
+
+      fireEvent.change(screen.getByLabelText('Playback speed'), { target: { value: '2' } });
+      fireEvent.click(screen.getByText('Play All'));
+      await act(async () => {
+        vi.advanceTimersByTime(1500);
+      });
+      expect(getFrameNames()).toEqual(['test3.jpg', 'test1.jpg', 'test2.jpg', 'test3.jpg']);
+    });
+
+    it('keeps frames on their images when an image is added', async () => {
+      render(<ImageViewer />);
+      fireEvent.click(screen.getByText('Multi-Frame'));
+      await act(async () => {
+        vi.advanceTimersByTime(3000);
+      });
+      const before = getFrameNames();
+
+      const uploaded: ImageMetadata = { id: '0', name: 'test0.jpg', size: 512, mimeType: 'image/jpeg', uploadedAt: new Date('2023-12-31T00:00:00Z') };
+      mockStream({ images: [uploaded, ...mockImages] });
+      await act(async () => {
+        fireEvent.click(screen.getByText('Multi-Frame'));
+      });
+
+      expect(getFrameNames()).toEqual(before);
+    });
+  });
+
+  it('shows only the images in kiosk mode', () => {
+    render(<ImageViewer kiosk />);
+
+    expect(screen.getByRole('img', { name: 'test1.jpg' })).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('connection-status')).not.toBeInTheDocument();
+  });
+
+  it('reproduces the layout of a shared link', () => {
+    window.history.replaceState(null, '', '/?view=multi&frames=6&speed=fast');
+    render(<ImageViewer />);
+
+    expect(screen.getByText('Multi-Frame')).toHaveClass('bg-[#7F5AF0]');
+    expect(screen.getAllByRole('img', { name: /test/ })).toHaveLength(6);
+    expect(screen.getByRole('button', { name: 'Fast' })).toHaveClass('bg-[#7F5AF0]');
+  });
+
+  it('clamps an out-of-range frame count from a link', () => {
+    window.history.replaceState(null, '', '/?view=multi&frames=50');
+    render(<ImageViewer />);
+
+    expect(screen.getAllByRole('img', { name: /test/ })).toHaveLength(10);
+    expect(screen.getByText('Add Frame')).toBeDisabled();
+  });
+
+  it('keeps its settings across reloads and in the URL', () => {
+    const { unmount } = render(<ImageViewer />);
+    fireEvent.click(screen.getByText('Multi-Frame'));
+    fireEvent.click(screen.getByText('Add Frame'));
+    expect(window.location.search).toBe('?view=multi&frames=5');
+
+    unmount();
+    window.history.replaceState(null, '', '/');
+    render(<ImageViewer />);
+
+    expect(screen.getAllByRole('img', { name: /test/ })).toHaveLength(5);
+  });
+
   it('displays connection status correctly', () => {
     // Given - disconnected state
-    (useImageStream as ReturnType<typeof vi.fn>).mockReturnValue({
+    mockStream({
       images: [],
       error: 'Connection lost',
-      isLoading: false,
       isConnected: false
     });
 
@@ -143,9 +376,8 @@ describe('ImageViewer', () => {
 
   it('handles loading state', () => {
     // Given
-    (useImageStream as ReturnType<typeof vi.fn>).mockReturnValue({
+    mockStream({
       images: [],
-      error: null,
       isLoading: true,
       isConnected: false
     });
@@ -167,10 +399,9 @@ describe('ImageViewer', () => {
 
   it('disables controls when disconnected', () => {
     // Given - mock the useImageStream hook to return disconnected state
-    (useImageStream as ReturnType<typeof vi.fn>).mockReturnValue({
+    mockStream({
       images: [],
       error: 'Connection lost',
-      isLoading: false,
       isConnected: false
     });
 
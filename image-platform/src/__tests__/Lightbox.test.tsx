@@ -0,0 +1,274 @@
+/**
+ * Tests for the Lightbox component
+ *
+ * Verifies the detailed image view:
+ * - Every metadata field, the decoded pixel size and copying the id
+ * - The metadata embedded in the file, once read
+ * - Adjusting levels on a canvas, with its histogram, and exporting it
+ * - Drawing, relabelling and deleting annotations in image coordinates
+ * - Stepping through the sequence and closing from the keyboard
+ * - Fit, fill and 1:1 scaling, wheel zoom and drag panning
+ */
+import { render, screen, fireEvent, act, within } from '@testing-library/react';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Lightbox } from '../components/Lightbox';
+import { EmbeddedMetadataStore } from '../services/embeddedMetadataStore';
+import { AnnotationStore } from '../services/annotationStore';
+import type { ImageMetadata } from '../services/api';
+import type { EmbeddedMetadata } from '../utils/embeddedMetadata';
+import { loadImagePixels } from '../utils/imagePixels';
+
+// jsdom cannot decode images, so their pixels are given
+vi.mock('../utils/imagePixels', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../utils/imagePixels')>(),
+  loadImagePixels: vi.fn()
+}));
+
+const mockImages: ImageMetadata[] = [
+  { id: 'img-1', name: 'wide.jpg', size: 2048, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:00Z') },
+  { id: 'img-2', name: 'tall.png', size: 3 * 1024 * 1024, mimeType: 'image/png', uploadedAt: new Date('2024-01-02T00:00:00Z') },
+];
+
+/** Loads the shown image as if it had decoded at the given size */
+const loadImage = (width: number, height: number) => {
+  const img = within(screen.getByTestId('lightbox-stage')).getByRole('img');
+  Object.defineProperty(img, 'naturalWidth', { value: width });
+  Object.defineProperty(img, 'naturalHeight', { value: height });
+  fireEvent.load(img);
+  return img;
+};
+
+/** jsdom has no PointerEvent, without which pointer events lose their coordinates */
+class MockPointerEvent extends MouseEvent {
+  public pointerId: number;
+
+  constructor(type: string, init: PointerEventInit = {}) {
+    super(type, init);
+    this.pointerId = init.pointerId ?? 0;
+  }
+}
+
+const NO_EMBEDDED_METADATA: EmbeddedMetadata = {
+  capturedAt: null,
+  device: null,
+  exposureTime: null,
+  fNumber: null,
+  iso: null,
+  focalLength: null,
+  tags: {}
+};
+
+/** Returns a store whose images all have the given embedded metadata */
+const createMetadataStore = (metadata: Partial<EmbeddedMetadata> = {}) => new EmbeddedMetadataStore({
+  fetchFile: async () => new ArrayBuffer(0),
+  parse: async () => ({ ...NO_EMBEDDED_METADATA, ...metadata })
+});
+
+const renderLightbox = (
+  imageId = 'img-1',
+  metadataStore = createMetadataStore(),
+  annotationStore = new AnnotationStore({ storageKey: 'test:lightbox-annotations' })
+) => {
+  const onImageChange = vi.fn();
+  const onClose = vi.fn();
+  const view = render(
+    <Lightbox
+      images={mockImages}
+      imageId={imageId}
+      onImageChange={onImageChange}
+      onClose={onClose}
+      metadataStore={metadataStore}
+      annotationStore={annotationStore}
+    />
+  );
+  return { ...view, onImageChange, onClose };
+};
+
+describe('Lightbox', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('lists the metadata and the decoded pixel size', () => {
+    renderLightbox('img-2');
+    const panel = screen.getByRole('complementary', { name: 'Image metadata' });
+    expect(panel).toHaveTextContent('Dimensions' + 'Loading…');
+
+    loadImage(1200, 3000);
+
+    expect(panel).toHaveTextContent('1200 × 3000 px');
+    expect(panel).toHaveTextContent('3.0 MB (3,145,728 bytes)');
+    expect(panel).toHaveTextContent('image/png');
+    expect(panel).toHaveTextContent(mockImages[1].uploadedAt.toLocaleString());
+    expect(panel).toHaveTextContent('img-2');
+  });
+
+  it('shows the metadata embedded in the file once read', async () => {
+    renderLightbox('img-1', createMetadataStore({
+      device: 'Canon EOS R5',
+      exposureTime: 1 / 250,
+      iso: 400,
+      tags: { Software: 'Firmware 1.8' }
+    }));
+    const section = screen.getByRole('region', { name: 'Embedded metadata' });
+    expect(section).toHaveTextContent('Reading…');
+
+    await screen.findByText('Canon EOS R5');
+    expect(section).toHaveTextContent('Exposure' + '1/250 s');
+    expect(section).toHaveTextContent('ISO' + '400');
+    expect(section).toHaveTextContent('Software' + 'Firmware 1.8');
+    expect(section).not.toHaveTextContent('Aperture');
+  });
+
+  it('adjusts the image on a canvas and exports it', async () => {
+    // Black and gray pixels
+    vi.mocked(loadImagePixels).mockResolvedValue({
+      width: 2,
+      height: 1,
+      data: new Uint8ClampedArray([0, 0, 0, 255, 200, 200, 200, 255])
+    });
+    const putImageData = vi.fn();
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      createImageData: (width: number, height: number) => ({ data: new Uint8ClampedArray(width * height * 4) }),
+      putImageData
+    } as unknown as CanvasRenderingContext2D);
+    vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(callback => callback(new Blob(['png'])));
+    // jsdom does not implement object URLs
+    URL.createObjectURL = vi.fn(() => 'blob:adjusted');
+    URL.revokeObjectURL = vi.fn();
+    let downloaded = '';
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      downloaded = this.download;
+    });
+    renderLightbox();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Adjust' }));
+    const panel = screen.getByRole('region', { name: 'Levels and colours' });
+    expect(within(panel).getByText('Reading pixels…')).toBeInTheDocument();
+    expect(await within(panel).findByRole('img', { name: 'Luminance histogram' })).toBeInTheDocument();
+    expect(loadImagePixels).toHaveBeenCalledWith('img-1');
+    expect(screen.getByLabelText('wide.jpg, adjusted')).toBeInTheDocument();
+
+    fireEvent.click(within(panel).getByLabelText('Auto-stretch each image'));
+    expect(within(panel).getByLabelText('White level')).toBeDisabled();
+    expect(within(panel).getByLabelText('White level')).toHaveValue('200');
+    expect([...putImageData.mock.lastCall![0].data]).toEqual([0, 0, 0, 255, 255, 255, 255, 255]);
+
+    fireEvent.click(within(panel).getByRole('button', { name: 'Export PNG' }));
+    expect(downloaded).toBe('wide-adjusted.png');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Adjust' }));
+    expect(screen.queryByLabelText('wide.jpg, adjusted')).not.toBeInTheDocument();
+  });
+
+  it('copies the id', async () => {
+    const writeText = vi.fn<[string], Promise<void>>().mockResolvedValue();
+    vi.stubGlobal('navigator', { ...navigator, clipboard: { writeText } });
+    renderLightbox();
+
+    fireEvent.click(screen.getByText('Copy'));
+
+    expect(writeText).toHaveBeenCalledWith('img-1');
+    expect(await screen.findByText('Copied')).toBeInTheDocument();
+  });
+
+  it('steps through the sequence and closes on Escape', () => {
+    const { onImageChange, onClose } = renderLightbox();
+    const dialog = screen.getByRole('dialog', { name: 'Details of wide.jpg' });
+    expect(dialog).toHaveFocus();
+    expect(dialog).toHaveTextContent('1 of 2');
+
+    fireEvent.keyDown(dialog, { key: 'ArrowRight' });
+    expect(onImageChange).toHaveBeenLastCalledWith('img-2');
+    fireEvent.keyDown(dialog, { key: 'ArrowLeft' });
+    expect(onImageChange).toHaveBeenLastCalledWith('img-2');
+
+    fireEvent.keyDown(dialog, { key: 'Escape' });
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('closes when its image leaves the sequence', () => {
+    const { rerender, onClose } = renderLightbox();
+
+    rerender(<Lightbox images={mockImages.slice(1)} imageId="img-1" onImageChange={vi.fn()} onClose={onClose} />);
+
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('fits, fills and shows images at 1:1, zooms with the wheel and pans by dragging', () => {
+    vi.stubGlobal('PointerEvent', MockPointerEvent);
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue(
+      { left: 0, top: 0, width: 1000, height: 500, right: 1000, bottom: 500, x: 0, y: 0, toJSON: () => ({}) }
+    );
+    renderLightbox();
+    const img = loadImage(4000, 1000);
+    const stage = screen.getByTestId('lightbox-stage');
+    const zoom = screen.getByTestId('zoom-level');
+
+    expect(zoom).toHaveTextContent('25%');
+    fireEvent.click(screen.getByText('Fill'));
+    expect(zoom).toHaveTextContent('50%');
+    fireEvent.click(screen.getByText('1:1'));
+    expect(zoom).toHaveTextContent('100%');
+    fireEvent.click(screen.getByText('Fit'));
+
+    // Zooming at the centre keeps the image centred
+    act(() => {
+      fireEvent.wheel(stage, { deltaY: -100, clientX: 500, clientY: 250 });
+    });
+    expect(zoom).toHaveTextContent('31%');
+    expect(img.style.transform).toContain('translate(0px, 0px)');
+
+    fireEvent.pointerDown(stage, { pointerId: 1, clientX: 100, clientY: 100 });
+    fireEvent.pointerMove(stage, { pointerId: 1, clientX: 150, clientY: 120 });
+    fireEvent.pointerUp(stage, { pointerId: 1 });
+    fireEvent.pointerMove(stage, { pointerId: 1, clientX: 300, clientY: 300 });
+
+    expect(img.style.transform).toContain('translate(50px, 20px)');
+  });
+
+  it('draws annotations in image coordinates at any zoom, without panning', () => {
+    vi.stubGlobal('PointerEvent', MockPointerEvent);
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue(
+      { left: 0, top: 0, width: 1000, height: 500, right: 1000, bottom: 500, x: 0, y: 0, toJSON: () => ({}) }
+    );
+    // The 2000 × 1000 image at 62.5%, centred on the stage
+    vi.spyOn(SVGElement.prototype, 'getBoundingClientRect').mockReturnValue(
+      { left: -125, top: -62.5, width: 1250, height: 625, right: 1125, bottom: 562.5, x: -125, y: -62.5, toJSON: () => ({}) }
+    );
+    const store = new AnnotationStore({ storageKey: 'test:lightbox-annotations' });
+    const { onImageChange } = renderLightbox('img-1', createMetadataStore(), store);
+    const img = loadImage(2000, 1000);
+    fireEvent.click(screen.getByLabelText('Zoom in'));
+    const transform = img.style.transform;
+    const panel = screen.getByRole('region', { name: 'Annotations' });
+
+    fireEvent.change(within(panel).getByLabelText('Label of new annotations'), { target: { value: 'Crack' } });
+    fireEvent.click(within(panel).getByRole('button', { name: 'Rectangle' }));
+    const layer = within(screen.getByTestId('lightbox-stage')).getByLabelText('Annotations');
+    fireEvent.pointerDown(layer, { pointerId: 1, clientX: 100, clientY: 50 });
+    fireEvent.pointerMove(layer, { pointerId: 1, clientX: 300, clientY: 150 });
+    fireEvent.pointerUp(layer, { pointerId: 1 });
+
+    expect(store.getAnnotations('img-1')).toEqual({
+      width: 2000,
+      height: 1000,
+      annotations: [{ id: expect.any(String), type: 'rectangle', x: 360, y: 180, width: 320, height: 160, label: 'Crack' }]
+    });
+    expect(img.style.transform).toBe(transform);
+    expect(within(layer).getByText('Crack', { selector: 'text' })).toBeInTheDocument();
+
+    // Keys typed into a label stay there
+    const label = within(panel).getByLabelText('Label of annotation 1');
+    fireEvent.keyDown(label, { key: 'ArrowRight' });
+    expect(onImageChange).not.toHaveBeenCalled();
+    fireEvent.change(label, { target: { value: 'Scratch' } });
+    expect(within(layer).getByText('Scratch', { selector: 'text' })).toBeInTheDocument();
+
+    fireEvent.click(within(panel).getByLabelText('Delete annotation 1'));
+    expect(store.getAnnotations('img-1')).toBeUndefined();
+    expect(within(panel).getByText('No annotations yet')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for the service worker client and the update prompt
+ *
+ * Verifies the page side of the service worker:
+ * - A newly installed version is offered as an update, a first install is not
+ * - Reloading switches the waiting version over
+ * - Deleted images are purged from the worker's cache
+ */
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UpdatePrompt } from '../components/UpdatePrompt';
+import { ServiceWorkerClient } from '../services/serviceWorker';
+
+/** Minimal stand-in for a ServiceWorker */
+class MockWorker extends EventTarget {
+  state = 'installing';
+  postMessage = vi.fn();
+
+  setState(state: string) {
+    this.state = state;
+    this.dispatchEvent(new Event('statechange'));
+  }
+}
+
+/** Minimal stand-in for a ServiceWorkerRegistration */
+class MockRegistration extends EventTarget {
+  installing: MockWorker | null = null;
+  waiting: MockWorker | null = null;
+  update = vi.fn().mockResolvedValue(undefined);
+
+  /** Simulates the browser finding and installing a new version */
+  install() {
+    const worker = new MockWorker();
+    this.installing = worker;
+    this.dispatchEvent(new Event('updatefound'));
+    worker.setState('installed');
+    return worker;
+  }
+}
+
+describe('UpdatePrompt', () => {
+  let registration: MockRegistration;
+  let container: EventTarget & { controller: MockWorker | null; register: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    registration = new MockRegistration();
+    container = Object.assign(new EventTarget(), {
+      controller: new MockWorker() as MockWorker | null,
+      register: vi.fn().mockResolvedValue(registration)
+    });
+    Object.defineProperty(navigator, 'serviceWorker', { value: container, configurable: true });
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, 'serviceWorker');
+  });
+
+  it('offers a newly installed version and switches to it on reload', async () => {
+    const client = new ServiceWorkerClient();
+    await client.register();
+    render(<UpdatePrompt client={client} />);
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+
+    let worker!: MockWorker;
+    act(() => {
+      worker = registration.install();
+    });
+    expect(screen.getByRole('alert')).toHaveTextContent('A new version is available.');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reload' }));
+    expect(worker.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+  });
+
+  it('does not offer the first install as an update', async () => {
+    container.controller = null;
+    const client = new ServiceWorkerClient();
+    await client.register();
+    render(<UpdatePrompt client={client} />);
+
+    act(() => {
+      registration.install();
+    });
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('can be dismissed', async () => {
+    const client = new ServiceWorkerClient();
+    await client.register();
+    registration.install();
+    render(<UpdatePrompt client={client} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Later' }));
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('asks the worker to purge deleted images', () => {
+    new ServiceWorkerClient().purgeImage('42');
+
+    expect(container.controller!.postMessage).toHaveBeenCalledWith({ type: 'PURGE_IMAGE', id: '42' });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for the UploadPanel component
+ *
+ * Verifies the upload workflow:
+ * - Queueing files from the picker and drag-and-drop
+ * - Per-file progress and custom names
+ * - Cancelling and retrying uploads
+ * - Rejecting unsupported file types
+ */
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UploadPanel } from '../components/UploadPanel';
+import { imageApi } from '../services/api';
+import type { ImageMetadata, UploadOptions } from '../services/api';
+
+/** Creates an image file of the given name for upload tests */
+const createFile = (name: string, type = 'image/jpeg') =>
+  new File(['image-bytes'], name, { type });
+
+const uploadedImage: ImageMetadata = {
+  id: '1',
+  name: 'photo.jpg',
+  size: 11,
+  mimeType: 'image/jpeg',
+  uploadedAt: new Date('2024-01-01T00:00:00Z')
+};
+
+/** Opens the panel and selects files through the hidden file input */
+const selectFiles = (files: File[]) => {
+  fireEvent.change(screen.getByTestId('upload-input'), { target: { files } });
+};
+
+describe('UploadPanel', () => {
+  beforeEach(() => {
+    render(<UploadPanel />);
+    fireEvent.click(screen.getByText('Upload Images'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uploads picked files and reports progress', async () => {
+    let reportProgress: ((progress: number) => void) | undefined;
+    let finishUpload: ((image: ImageMetadata) => void) | undefined;
+    vi.spyOn(imageApi, 'uploadImage').mockImplementation((_file: File, options?: UploadOptions) => {
+      reportProgress = options?.onProgress;
+      return new Promise(resolve => { finishUpload = resolve; });
+    });
+
+    await act(async () => {
+      selectFiles([createFile('photo.jpg')]);
+    });
+
+    expect(imageApi.uploadImage).toHaveBeenCalledTimes(1);
+    await act(async () => {
+      reportProgress?.(0.5);
+    });
+    expect(screen.getByText('50%')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '50');
+
+    await act(async () => {
+      finishUpload?.(uploadedImage);
+    });
+    expect(screen.getByText('Uploaded')).toBeInTheDocument();
+  });
+
+  it('passes the custom name when a single file is added', async () => {
+    vi.spyOn(imageApi, 'uploadImage').mockResolvedValue(uploadedImage);
+
+    fireEvent.change(screen.getByLabelText('Custom name:'), { target: { value: 'my-image' } });
+    await act(async () => {
+      selectFiles([createFile('photo.jpg')]);
+    });
+
+    expect(imageApi.uploadImage).toHaveBeenCalledWith(
+      expect.any(File),
+      expect.objectContaining({ name: 'my-image' })
+    );
+  });
+
+  it('queues dropped files and uploads at most two at a time', async () => {
+    vi.spyOn(imageApi, 'uploadImage').mockImplementation(() => new Promise(() => {}));
+
+    await act(async () => {
+      fireEvent.drop(screen.getByTestId('upload-dropzone'), {
+        dataTransfer: { files: [createFile('a.jpg'), createFile('b.png', 'image/png'), createFile('c.gif', 'image/gif')] }
+      });
+    });
+
+    expect(screen.getAllByTestId('upload-item')).toHaveLength(3);
+    expect(imageApi.uploadImage).toHaveBeenCalledTimes(2);
+    expect(screen.getByText('Waiting')).toBeInTheDocument();
+  });
+
+  it('cancels an in-flight upload and allows retrying it', async () => {
+    const uploadSpy = vi.spyOn(imageApi, 'uploadImage').mockImplementation((_file: File, options?: UploadOptions) =>
+      new Promise((_resolve, reject) => {
+        options?.signal?.addEventListener('abort', () =>
+          reject(new DOMException('Upload cancelled', 'AbortError')));
+      })
+    );
+
+    await act(async () => {
+      selectFiles([createFile('photo.jpg')]);
+    });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Cancel'));
+    });
+    expect(screen.getByText('Cancelled')).toBeInTheDocument();
+
+    uploadSpy.mockResolvedValue(uploadedImage);
+    await act(async () => {
+      fireEvent.click(screen.getByText('Retry'));
+    });
+    expect(uploadSpy).toHaveBeenCalledTimes(2);
+    expect(screen.getByText('Uploaded')).toBeInTheDocument();
+  });
+
+  it('shows the error of a failed upload', async () => {
+    vi.spyOn(imageApi, 'uploadImage').mockRejectedValue(new Error('Unsupported image type: image/tiff'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await act(async () => {
+      selectFiles([createFile('photo.jpg')]);
+    });
+
+    expect(screen.getByText('Unsupported image type: image/tiff')).toBeInTheDocument();
+    expect(screen.getByText('Retry')).toBeInTheDocument();
+  });
+
+  it('skips files that are not supported images', async () => {
+    const uploadSpy = vi.spyOn(imageApi, 'uploadImage').mockResolvedValue(uploadedImage);
+
+    await act(async () => {
+      selectFiles([createFile('notes.txt', 'text/plain')]);
+    });
+
+    expect(screen.getByText('Skipped unsupported files: notes.txt')).toBeInTheDocument();
+    expect(uploadSpy).not.toHaveBeenCalled();
+  });
+});
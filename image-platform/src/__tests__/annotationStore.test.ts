@@ -0,0 +1,172 @@
+/**
+ * Tests for the annotation store
+ *
+ * Verifies that region-of-interest annotations:
+ * - Persist per image across instances, and can be relabelled and removed
+ * - Are dropped along with their image
+ * - Export and import as JSON, only for known images, scaled to the size
+ *   an image was annotated at
+ * - Export to and import from COCO datasets, including other tools' ones
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { AnnotationStore } from '../services/annotationStore';
+import { CocoDataset } from '../utils/annotations';
+import type { ImageMetadata } from '../services/api';
+
+const STORAGE_KEY = 'test:annotations';
+
+const makeImage = (id: string, name: string): ImageMetadata => ({
+  id,
+  name,
+  size: 1024,
+  mimeType: 'image/png',
+  uploadedAt: new Date('2024-01-01T00:00:00Z')
+});
+
+const images = [makeImage('1', 'a.png'), makeImage('2', 'b.png')];
+const SIZE = { width: 200, height: 100 };
+
+describe('AnnotationStore', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('persists annotations per image, relabelled and removed', () => {
+    const store = new AnnotationStore({ storageKey: STORAGE_KEY });
+    const crack = store.add('1', SIZE, { type: 'rectangle', x: 10, y: 20, width: 30, height: 40 }, 'Crack');
+    const pit = store.add('1', SIZE, { type: 'point', x: 5, y: 6 }, '  Pit  ');
+    store.add('2', SIZE, { type: 'freehand', points: [[0, 0], [10, 0], [10, 10]] }, '');
+    store.relabel('1', crack!.id, 'Scratch');
+    store.remove('2', store.getAnnotations('2')!.annotations[0].id);
+
+    const reloaded = new AnnotationStore({ storageKey: STORAGE_KEY });
+
+    expect(reloaded.getSnapshot()).toEqual({
+      1: {
+        width: 200,
+        height: 100,
+        annotations: [
+          { id: crack!.id, type: 'rectangle', x: 10, y: 20, width: 30, height: 40, label: 'Scratch' },
+          { id: pit!.id, type: 'point', x: 5, y: 6, label: 'Pit' }
+        ]
+      }
+    });
+  });
+
+  it('drops the annotations of a deleted image', () => {
+    const store = new AnnotationStore({ storageKey: STORAGE_KEY });
+    store.add('1', SIZE, { type: 'point', x: 1, y: 1 }, 'A');
+    store.add('2', SIZE, { type: 'point', x: 2, y: 2 }, 'B');
+
+    store.dropImage('1');
+
+    expect(Object.keys(new AnnotationStore({ storageKey: STORAGE_KEY }).getSnapshot())).toEqual(['2']);
+  });
+
+  it('imports exported annotations alongside existing ones, skipping unknown images', () => {
+    const store = new AnnotationStore({ storageKey: STORAGE_KEY });
+    store.add('1', SIZE, { type: 'ellipse', x: 10, y: 10, width: 20, height: 10 }, 'Cell');
+    store.add('3', SIZE, { type: 'point', x: 1, y: 1 }, 'Elsewhere');
+    const exported = store.exportJson(['1', '2', '3']);
+
+    expect(store.importJson(exported, images)).toBe(1);
+
+    const [original, copy] = store.getAnnotations('1')!.annotations;
+    expect(copy).toEqual({ ...original, id: expect.any(String) });
+    expect(copy.id).not.toBe(original.id);
+    expect(store.getAnnotations('3')?.annotations).toHaveLength(1);
+  });
+
+  it('scales imported annotations to the size an image was annotated at', () => {
+    const store = new AnnotationStore({ storageKey: STORAGE_KEY });
+    store.add('2', SIZE, { type: 'point', x: 1, y: 1 }, 'Existing');
+    const dataset = {
+      images: [{ id: 1, file_name: 'b.png', width: 400, height: 400 }],
+      categories: [{ id: 1, name: 'Defect' }],
+      annotations: [
+        { id: 1, image_id: 1, category_id: 1, bbox: [40, 80, 100, 20] },
+        { id: 2, image_id: 1, category_id: 1, bbox: [0, 0, 0, 0], keypoints: [200, 200, 2] },
+        { id: 3, image_id: 1, category_id: 1, bbox: [0, 0, 4, 4], segmentation: [[0, 0, 100, 0, 100, 100]] }
+      ]
+    };
+
+    expect(store.importCoco(JSON.stringify(dataset), images)).toBe(3);
+
+    expect(store.getAnnotations('2')).toMatchObject({
+      width: 200,
+      height: 100,
+      annotations: [
+        { label: 'Existing' },
+        { type: 'rectangle', x: 20, y: 20, width: 50, height: 5 },
+        { type: 'point', x: 100, y: 50 },
+        { type: 'freehand', points: [[0, 0], [50, 0], [50, 25]] }
+      ]
+    });
+  });
+
+  it('rejects files that are not annotations', () => {
+    const store = new AnnotationStore({ storageKey: STORAGE_KEY });
+
+    expect(() => store.importFile('{not json', images)).toThrow('not valid JSON');
+    expect(() => store.importFile('{"playlists": []}', images)).toThrow('does not contain any annotations');
+    expect(() => store.importCoco('{"annotations": []}', images)).toThrow('not a COCO dataset');
+  });
+
+  it('exports a COCO dataset with labels as categories and reads it back', () => {
+    const store = new AnnotationStore({ storageKey: STORAGE_KEY });
+    store.add('1', SIZE, { type: 'rectangle', x: 10, y: 20, width: 30, height: 40 }, 'Crack');
+    store.add('1', SIZE, { type: 'point', x: 5, y: 6 }, 'Pit');
+    store.add('2', SIZE, { type: 'ellipse', x: 0, y: 0, width: 20, height: 10 }, 'Crack');
+    store.add('2', SIZE, { type: 'freehand', points: [[0, 0], [10, 0], [10, 10]] }, 'Stain');
+
+    const dataset: CocoDataset = JSON.parse(store.exportCoco(images));
+
+    expect(dataset.images).toEqual([
+      { id: 1, file_name: 'a.png', width: 200, height: 100 },
+      { id: 2, file_name: 'b.png', width: 200, height: 100 }
+    ]);
+    expect(dataset.categories.map(category => category.name)).toEqual(['Crack', 'Pit', 'Stain']);
+    expect(dataset.annotations[0]).toMatchObject({
+      image_id: 1,
+      category_id: 1,
+      bbox: [10, 20, 30, 40],
+      area: 1200,
+      segmentation: [[10, 20, 40, 20, 40, 60, 10, 60]]
+    });
+    expect(dataset.annotations[1]).toMatchObject({ bbox: [5, 6, 0, 0], segmentation: [], keypoints: [5, 6, 2] });
+    expect(dataset.annotations[2].segmentation[0]).toHaveLength(64);
+    expect(dataset.annotations[3]).toMatchObject({ area: 50, attributes: { shape: 'freehand' } });
+
+    const other = new AnnotationStore({ storageKey: 'test:annotations-copy' });
+    expect(other.importFile(JSON.stringify(dataset), images)).toBe(4);
+    const strip = (store: AnnotationStore) => Object.values(store.getSnapshot()).map(entry =>
+      entry.annotations.map(annotation => ({ ...annotation, id: '' })));
+    expect(strip(other)).toEqual(strip(store));
+  });
+
+  it('imports COCO datasets of other tools by file name', () => {
+    const store = new AnnotationStore({ storageKey: STORAGE_KEY });
+    const dataset = {
+      images: [{ id: 7, file_name: 'scans/b.png', width: 640, height: 480 }, { id: 8, file_name: 'c.png', width: 1, height: 1 }],
+      categories: [{ id: 3, name: 'Defect' }],
+      annotations: [
+        { id: 1, image_id: 7, category_id: 3, bbox: [1, 2, 3, 4] },
+        { id: 2, image_id: 7, category_id: 3, bbox: [0, 0, 0, 0], keypoints: [9, 8, 2], num_keypoints: 1 },
+        { id: 3, image_id: 7, category_id: 4, bbox: [0, 0, 4, 4], segmentation: [[0, 0, 4, 0, 4, 4]] },
+        { id: 4, image_id: 8, category_id: 3, bbox: [0, 0, 1, 1] }
+      ]
+    };
+
+    expect(store.importCoco(JSON.stringify(dataset), images)).toBe(3);
+
+    expect(store.getAnnotations('2')).toEqual({
+      width: 640,
+      height: 480,
+      annotations: [
+        { id: expect.any(String), type: 'rectangle', x: 1, y: 2, width: 3, height: 4, label: 'Defect' },
+        { id: expect.any(String), type: 'point', x: 9, y: 8, label: 'Defect' },
+        { id: expect.any(String), type: 'freehand', points: [[0, 0], [4, 0], [4, 4]], label: 'Freehand' }
+      ]
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for the image service API client
+ *
+ * Verifies the client's contract with the backend:
+ * - Responses are validated and converted (uploadedAt to Date)
+ * - Failures surface as the matching ApiError subclass
+ * - Abort signals, timeouts and the base URL are honoured
+ */
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { http, HttpResponse, delay } from 'msw';
+import { setupServer } from 'msw/node';
+import { createImageApi, imageApi } from '../services/api';
+import {
+  ApiError,
+  ContentTypeError,
+  HttpError,
+  NetworkError,
+  SchemaError,
+  TimeoutError
+} from '../services/apiErrors';
+
+const wireImage = { id: '1', name: 'test1.jpg', size: 1024, mimeType: 'image/jpeg', uploadedAt: '2024-01-01T00:00:00Z' };
+
+const server = setupServer();
+
+describe('imageApi', () => {
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' });
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  describe('successful responses', () => {
+    it('validates the image list and converts upload times to dates', async () => {
+      server.use(
+        http.get('/api/images', () => HttpResponse.json({ data: [{ ...wireImage, path: '/internal/1.jpg' }] }))
+      );
+
+      const images = await imageApi.getImages();
+
+      // Fields the client does not know about are dropped
+      expect(images).toEqual([{ ...wireImage, uploadedAt: new Date('2024-01-01T00:00:00Z') }]);
+    });
+
+    it('fetches single image metadata', async () => {
+      server.use(
+        http.get('/api/images/:id/metadata', ({ params }) =>
+          HttpResponse.json({ data: { ...wireImage, id: params.id } }))
+      );
+
+      const image = await imageApi.getImageMetadata('42');
+
+      expect(image.id).toBe('42');
+      expect(image.uploadedAt).toBeInstanceOf(Date);
+    });
+
+    it('sends requests to the configured base URL', async () => {
+      server.use(
+        http.get('https://images.example.com/v2/images', () => HttpResponse.json({ data: [] }))
+      );
+      const api = createImageApi({ baseUrl: 'https://images.example.com/v2/' });
+
+      await expect(api.getImages()).resolves.toEqual([]);
+      expect(api.getImageUrl('a b')).toBe('https://images.example.com/v2/images/a%20b');
+    });
+
+    it('downloads only the start of an image, even from a server sending all of it', async () => {
+      const ranges: (string | null)[] = [];
+      server.use(
+        http.get('/api/images/:id', ({ request }) => {
+          ranges.push(request.headers.get('Range'));
+          return new HttpResponse(new Uint8Array(1000).fill(7), { headers: { 'Content-Type': 'image/jpeg' } });
+        })
+      );
+
+      const start = await imageApi.getImageStart('1', 100);
+
+      expect(ranges).toEqual(['bytes=0-99']);
+      expect(new Uint8Array(start)).toEqual(new Uint8Array(100).fill(7));
+    });
+  });
+
+  describe('errors', () => {
+    it('reports unreachable servers as network errors', async () => {
+      server.use(http.get('/api/images', () => HttpResponse.error()));
+
+      const error = await imageApi.getImages().catch(err => err);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.message).toBe('Unable to connect to the server. Please check if it is running.');
+    });
+
+    it('reports error statuses with the server message', async () => {
+      server.use(
+        http.delete('/api/images/:id', () =>
+          HttpResponse.json({ error: 'Image is locked' }, { status: 409 }))
+      );
+
+      const error = await imageApi.deleteImage('1').catch(err => err);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error).toMatchObject({ status: 409, serverMessage: 'Image is locked', message: 'Image is locked' });
+    });
+
+    it('explains a missing image on delete', async () => {
+      server.use(http.delete('/api/images/:id', () => new HttpResponse(null, { status: 404 })));
+
+      await expect(imageApi.deleteImage('1')).rejects.toThrow('Image not found. It may already have been deleted.');
+    });
+
+    it('rejects responses that are not JSON', async () => {
+      server.use(http.get('/api/images', () => HttpResponse.html('<h1>Gateway</h1>')));
+
+      const error = await imageApi.getImages().catch(err => err);
+
+      expect(error).toBeInstanceOf(ContentTypeError);
+      expect(error.contentType).toContain('text/html');
+    });
+
+    it('rejects images that are not served as images', async () => {
+      server.use(http.get('/api/images/:id', () => HttpResponse.json({ data: null })));
+
+      await expect(imageApi.getImageBlob('1')).rejects.toBeInstanceOf(ContentTypeError);
+    });
+
+    it('names the field that does not match the schema', async () => {
+      server.use(
+        http.get('/api/images', () =>
+          HttpResponse.json({ data: [wireImage, { ...wireImage, uploadedAt: 'yesterday' }] }))
+      );
+
+      const error = await imageApi.getImages().catch(err => err);
+
+      expect(error).toBeInstanceOf(SchemaError);
+      expect(error.path).toBe('body.data[1].uploadedAt');
+    });
+
+    it('times out requests that take too long', async () => {
+      server.use(
+        http.get('/api/images', async () => {
+          await delay('infinite');
+          return HttpResponse.json({ data: [] });
+        })
+      );
+
+      const error = await imageApi.getImages({ timeout: 20 }).catch(err => err);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error).toBeInstanceOf(NetworkError);
+    });
+
+    it('rejects aborted requests with an AbortError rather than an ApiError', async () => {
+      server.use(
+        http.get('/api/images', async () => {
+          await delay('infinite');
+          return HttpResponse.json({ data: [] });
+        })
+      );
+      const controller = new AbortController();
+
+      const request = imageApi.getImages({ signal: controller.signal }).catch(err => err);
+      controller.abort();
+      const error = await request;
+
+      expect(error).toBeInstanceOf(DOMException);
+      expect(error.name).toBe('AbortError');
+      expect(error).not.toBeInstanceOf(ApiError);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Tests for embedded metadata reading
+ *
+ * Verifies that:
+ * - EXIF tags are read from JPEG files, following the Exif sub-IFD
+ * - Text and eXIf chunks are read from PNG files
+ * - Truncated files and other types give what could be read without throwing
+ * - The store reads each image once, newest requests first, and forgets
+ *   deleted images
+ * - Images caught in a failure of the parser are read again
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { EmbeddedMetadata, parseEmbeddedMetadata, describeEmbeddedMetadata } from '../utils/embeddedMetadata';
+import { EmbeddedMetadataStore, ParserFailedError } from '../services/embeddedMetadataStore';
+import type { ImageMetadata } from '../services/api';
+
+type Entry = { tag: number; type: 2 | 3 | 4 | 5; value: string | number | [number, number] };
+
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0));
+
+/**
+ * Builds a little-endian TIFF structure with IFD0 entries and an optional
+ * Exif sub-IFD
+ */
+const buildTiff = (ifd0: Entry[], exif: Entry[] = []) => {
+  const bytes: number[] = [];
+  const u16 = (at: number, value: number) => { bytes[at] = value & 0xff; bytes[at + 1] = value >> 8; };
+  const u32 = (at: number, value: number) => { for (let i = 0; i < 4; i++) bytes[at + i] = (value >>> (8 * i)) & 0xff; };
+
+  bytes.push(...ascii('II'), 42, 0, 8, 0, 0, 0);
+  const writeIfd = (entries: Entry[], extra: Entry | null) => {
+    const all = extra ? [...entries, extra] : entries;
+    const start = bytes.length;
+    bytes.length += 2 + all.length * 12 + 4;
+    bytes.fill(0, start);
+    u16(start, all.length);
+    const pointerAt = new Map<Entry, number>();
+    all.forEach((entry, index) => {
+      const at = start + 2 + index * 12;
+      u16(at, entry.tag);
+      u16(at + 2, entry.type);
+      if (entry.type === 2) {
+        const text = [...ascii(entry.value as string), 0];
+        u32(at + 4, text.length);
+        if (text.length <= 4) {
+          text.forEach((byte, i) => { bytes[at + 8 + i] = byte; });
+        } else {
+          u32(at + 8, bytes.length);
+          bytes.push(...text);
+        }
+      } else if (entry.type === 5) {
+        const [numerator, denominator] = entry.value as [number, number];
+        u32(at + 4, 1);
+        u32(at + 8, bytes.length);
+        const valueAt = bytes.length;
+        bytes.length += 8;
+        u32(valueAt, numerator);
+        u32(valueAt + 4, denominator);
+      } else {
+        u32(at + 4, 1);
+        if (entry === extra) pointerAt.set(entry, at + 8);
+        else if (entry.type === 3) u16(at + 8, entry.value as number);
+        else u32(at + 8, entry.value as number);
+      }
+    });
+    return pointerAt.get(extra!) ?? null;
+  };
+
+  const exifPointer = exif.length > 0 ? { tag: 0x8769, type: 4 as const, value: 0 } : null;
+  const pointerAt = writeIfd(ifd0, exifPointer);
+  if (pointerAt !== null) {
+    u32(pointerAt, bytes.length);
+    writeIfd(exif, null);
+  }
+  return bytes;
+};
+
+const buildJpeg = (tiff: number[]) => {
+  const length = 2 + 6 + tiff.length;
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe1, length >> 8, length & 0xff, ...ascii('Exif'), 0, 0, ...tiff,
+    0xff, 0xda, 0, 2,
+    0xff, 0xd9
+  ]).buffer;
+};
+
+const buildPng = (chunks: { type: string; data: number[] }[]) => {
+  const bytes = [0x89, ...ascii('PNG'), 0x0d, 0x0a, 0x1a, 0x0a];
+  for (const { type, data } of [...chunks, { type: 'IEND', data: [] }]) {
+    const length = data.length;
+    // The CRC is not checked
+    bytes.push(length >>> 24, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff, ...ascii(type), ...data, 0, 0, 0, 0);
+  }
+  return new Uint8Array(bytes).buffer;
+};
+
+const cameraTiff = () => buildTiff(
+  [
+    { tag: 0x010f, type: 2, value: 'Canon' },
+    { tag: 0x0110, type: 2, value: 'Canon EOS R5' },
+    { tag: 0x0131, type: 2, value: 'Firmware 1.8' },
+    { tag: 0x0132, type: 2, value: '2024:05:01 10:00:00' }
+  ],
+  [
+    { tag: 0x829a, type: 5, value: [1, 250] },
+    { tag: 0x829d, type: 5, value: [28, 10] },
+    { tag: 0x8827, type: 3, value: 400 },
+    { tag: 0x9003, type: 2, value: '2024:04:30 18:45:12' },
+    { tag: 0x920a, type: 5, value: [50, 1] }
+  ]
+);
+
+const makeImage = (id: string, mimeType = 'image/jpeg'): ImageMetadata => ({
+  id,
+  name: `${id}.jpg`,
+  size: 1024,
+  mimeType,
+  uploadedAt: new Date('2024-01-01T00:00:00Z')
+});
+
+describe('parseEmbeddedMetadata', () => {
+  it('reads the EXIF tags of a JPEG file', () => {
+    const metadata = parseEmbeddedMetadata(buildJpeg(cameraTiff()));
+
+    expect(metadata).toEqual({
+      capturedAt: new Date(2024, 3, 30, 18, 45, 12),
+      device: 'Canon EOS R5',
+      exposureTime: 1 / 250,
+      fNumber: 2.8,
+      iso: 400,
+      focalLength: 50,
+      tags: { Software: 'Firmware 1.8' }
+    });
+    expect(describeEmbeddedMetadata(metadata)).toEqual([
+      ['Captured', new Date(2024, 3, 30, 18, 45, 12).toLocaleString()],
+      ['Device', 'Canon EOS R5'],
+      ['Exposure', '1/250 s'],
+      ['Aperture', 'f/2.8'],
+      ['ISO', '400'],
+      ['Focal length', '50 mm'],
+      ['Software', 'Firmware 1.8']
+    ]);
+  });
+
+  it('reads the text and EXIF chunks of a PNG file', () => {
+    const metadata = parseEmbeddedMetadata(buildPng([
+      { type: 'tEXt', data: [...ascii('Creation Time'), 0, ...ascii('2024-02-03T04:05:06Z')] },
+      { type: 'iTXt', data: [...ascii('Instrument'), 0, 0, 0, ...ascii('en'), 0, 0, ...new TextEncoder().encode('Scope µ-2')] },
+      { type: 'iTXt', data: [...ascii('Compressed'), 0, 1, 0, 0, 0, 0x78, 0x9c] },
+      { type: 'eXIf', data: buildTiff([{ tag: 0x010f, type: 2, value: 'Lab' }]) }
+    ]));
+
+    expect(metadata.capturedAt).toEqual(new Date('2024-02-03T04:05:06Z'));
+    expect(metadata.device).toBe('Lab');
+    expect(metadata.tags).toEqual({ Instrument: 'Scope µ-2' });
+  });
+
+  it('keeps what it could read from truncated files and ignores other types', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const jpeg = new Uint8Array(buildJpeg(cameraTiff()));
+    // Cut off inside the Exif sub-IFD
+    const truncated = parseEmbeddedMetadata(jpeg.slice(0, 120).buffer);
+
+    expect(truncated.device).toBe('Canon EOS R5');
+    expect(truncated.iso).toBeNull();
+    expect(parseEmbeddedMetadata(new Uint8Array([0x47, 0x49, 0x46, 0x38]).buffer)).toEqual({
+      capturedAt: null,
+      device: null,
+      exposureTime: null,
+      fNumber: null,
+      iso: null,
+      focalLength: null,
+      tags: {}
+    });
+    vi.restoreAllMocks();
+  });
+});
+
+describe('EmbeddedMetadataStore', () => {
+  it('reads each requested image once, most recently requested first', async () => {
+    const fetchFile = vi.fn<[string], Promise<ArrayBuffer>>(async () => buildJpeg(cameraTiff()));
+    const store = new EmbeddedMetadataStore({ maxConcurrent: 1, fetchFile, parse: async buffer => parseEmbeddedMetadata(buffer) });
+
+    store.request([makeImage('1'), makeImage('2'), makeImage('3', 'image/gif')]);
+    store.request([makeImage('3', 'image/gif'), makeImage('4')]);
+    // Types without readable metadata have none, without fetching them
+    expect(store.getSnapshot().get('3')).toBeNull();
+
+    await vi.waitFor(() => expect(store.getSnapshot().size).toBe(4));
+    expect(fetchFile.mock.calls.map(([id]) => id)).toEqual(['1', '4', '2']);
+    expect(store.getSnapshot().get('4')?.device).toBe('Canon EOS R5');
+
+    store.request([makeImage('1')]);
+    expect(fetchFile).toHaveBeenCalledTimes(3);
+  });
+
+  it('counts images that cannot be read as having no metadata', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const store = new EmbeddedMetadataStore({
+      fetchFile: async () => { throw new Error('Image not found'); },
+      parse: async buffer => parseEmbeddedMetadata(buffer)
+    });
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.request([makeImage('1')]);
+
+    await vi.waitFor(() => expect(store.getSnapshot().has('1')).toBe(true));
+    expect(store.getSnapshot().get('1')).toBeNull();
+    expect(listener).toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+
+  it('reads images again when the parser fails rather than the file', async () => {
+    const fetchFile = vi.fn<[string], Promise<ArrayBuffer>>(async () => buildJpeg(cameraTiff()));
+    const parse = vi.fn<[ArrayBuffer], Promise<EmbeddedMetadata>>()
+      .mockRejectedValueOnce(new ParserFailedError())
+      .mockImplementation(async buffer => parseEmbeddedMetadata(buffer));
+    const store = new EmbeddedMetadataStore({ maxConcurrent: 1, fetchFile, parse });
+
+    store.request([makeImage('1'), makeImage('2')]);
+
+    await vi.waitFor(() => expect(store.getSnapshot().size).toBe(2));
+    expect(fetchFile.mock.calls.map(([id]) => id)).toEqual(['1', '1', '2']);
+    expect(store.getSnapshot().get('1')?.device).toBe('Canon EOS R5');
+  });
+
+  it('forgets deleted images, including those still being read or waiting to be', async () => {
+    const reads = new Map<string, () => void>();
+    const fetchFile = vi.fn((id: string) => new Promise<ArrayBuffer>(resolve => {
+      reads.set(id, () => resolve(buildJpeg(cameraTiff())));
+    }));
+    const store = new EmbeddedMetadataStore({ maxConcurrent: 1, fetchFile, parse: async buffer => parseEmbeddedMetadata(buffer) });
+    store.request([makeImage('1'), makeImage('2'), makeImage('3'), makeImage('4', 'image/gif')]);
+
+    store.dropImage('1');
+    store.dropImage('2');
+    store.dropImage('4');
+    reads.get('1')!();
+
+    await vi.waitFor(() => expect(fetchFile).toHaveBeenCalledTimes(2));
+    reads.get('3')!();
+    await vi.waitFor(() => expect(store.getSnapshot().has('3')).toBe(true));
+    expect(fetchFile.mock.calls.map(([id]) => id)).toEqual(['1', '3']);
+    expect([...store.getSnapshot().keys()]).toEqual(['3']);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for the image adjustment utilities
+ *
+ * Verifies the canvas rendering path's pixel maths:
+ * - Channel and luminance histograms
+ * - Auto-stretch levels, ignoring outliers and flat images
+ * - Black and white levels with gamma
+ * - Colormap endpoints and colouring by luminance
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ADJUSTMENTS,
+  applyAdjustments,
+  buildColormapTable,
+  buildLevelsTable,
+  computeHistogram,
+  getEffectiveLevels,
+  getStretchLevels
+} from '../utils/imageAdjust';
+
+/** Returns RGBA data of opaque gray pixels with the given values */
+const grayPixels = (values: number[]) =>
+  new Uint8ClampedArray(values.flatMap(value => [value, value, value, 255]));
+
+describe('computeHistogram', () => {
+  it('counts each channel and the luminance, ignoring alpha', () => {
+    const histogram = computeHistogram(new Uint8ClampedArray([255, 0, 0, 0, 0, 255, 0, 255, 10, 10, 10, 128]));
+
+    expect(histogram.red[255]).toBe(1);
+    expect(histogram.red[0]).toBe(1);
+    expect(histogram.green[255]).toBe(1);
+    expect(histogram.blue[0]).toBe(2);
+    // Rec. 709 weights green far above red
+    expect(histogram.luminance[54]).toBe(1);
+    expect(histogram.luminance[182]).toBe(1);
+    expect(histogram.luminance[10]).toBe(1);
+  });
+});
+
+describe('getStretchLevels', () => {
+  it('spreads the luminance over the whole range, clipping a few outliers', () => {
+    const values = [...Array(1000).fill(100), ...Array(1000).fill(150), 0, 255];
+
+    expect(getStretchLevels(computeHistogram(grayPixels(values)))).toEqual({ black: 100, white: 150 });
+  });
+
+  it('leaves a flat or empty image alone', () => {
+    expect(getStretchLevels(computeHistogram(grayPixels([90, 90, 90])))).toEqual({ black: 0, white: 255 });
+    expect(getStretchLevels(computeHistogram(new Uint8ClampedArray()))).toEqual({ black: 0, white: 255 });
+  });
+
+  it('applies only when auto-stretching with the pixels read', () => {
+    const histogram = computeHistogram(grayPixels([40, 80]));
+    const adjustments = { ...DEFAULT_ADJUSTMENTS, black: 10, gamma: 2 };
+
+    expect(getEffectiveLevels(adjustments, histogram)).toEqual({ black: 10, white: 255, gamma: 2 });
+    expect(getEffectiveLevels({ ...adjustments, autoStretch: true }, null)).toEqual({ black: 10, white: 255, gamma: 2 });
+    expect(getEffectiveLevels({ ...adjustments, autoStretch: true }, histogram)).toEqual({ black: 40, white: 80, gamma: 2 });
+  });
+});
+
+describe('buildLevelsTable', () => {
+  it('maps the black and white levels to the ends and bends midtones by gamma', () => {
+    const linear = buildLevelsTable({ black: 50, white: 150, gamma: 1 });
+    expect([linear[0], linear[50], linear[100], linear[150], linear[255]]).toEqual([0, 0, 128, 255, 255]);
+
+    const bright = buildLevelsTable({ black: 0, white: 255, gamma: 2 });
+    expect(bright[64]).toBe(128);
+    expect(bright[0]).toBe(0);
+    expect(bright[255]).toBe(255);
+  });
+});
+
+describe('buildColormapTable', () => {
+  it('runs each colormap between its end colours', () => {
+    const colours = (table: Uint8ClampedArray, value: number) => [...table.subarray(value * 3, value * 3 + 3)];
+
+    expect(colours(buildColormapTable('grayscale'), 77)).toEqual([77, 77, 77]);
+    expect(colours(buildColormapTable('viridis'), 0)).toEqual([68, 1, 84]);
+    expect(colours(buildColormapTable('viridis'), 255)).toEqual([253, 231, 37]);
+    expect(colours(buildColormapTable('magma'), 255)).toEqual([252, 253, 191]);
+    expect(colours(buildColormapTable('jet'), 0)).toEqual([0, 0, 128]);
+    expect(colours(buildColormapTable('jet'), 255)).toEqual([128, 0, 0]);
+  });
+});
+
+describe('applyAdjustments', () => {
+  it('levels each channel, keeping alpha', () => {
+    const data = new Uint8ClampedArray([100, 150, 200, 77]);
+
+    expect([...applyAdjustments(data, { black: 100, white: 200, gamma: 1 }, 'none')]).toEqual([0, 128, 255, 77]);
+  });
+
+  it('colours the levelled luminance by the colormap', () => {
+    const data = grayPixels([20, 255]);
+
+    expect([...applyAdjustments(data, { black: 20, white: 255, gamma: 1 }, 'viridis')])
+      .toEqual([68, 1, 84, 255, 253, 231, 37, 255]);
+  });
+});
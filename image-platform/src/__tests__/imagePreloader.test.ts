@@ -0,0 +1,74 @@
+/**
+ * Tests for the image preloader
+ *
+ * Verifies that images are decoded ahead of display:
+ * - Loads of the same image are shared
+ * - Images count as ready once decoded, or once they fail to load
+ * - Only a bounded number of decoded images are kept
+ * - The preload window grows as cycling speeds up
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ImagePreloader } from '../services/imagePreloader';
+import { getPreloadWindow } from '../hooks/useImagePreloader';
+
+describe('ImagePreloader', () => {
+  let decode: ReturnType<typeof vi.fn<[], Promise<void>>>;
+
+  beforeEach(() => {
+    // jsdom neither loads nor decodes images
+    decode = vi.fn<[], Promise<void>>().mockResolvedValue(undefined);
+    HTMLImageElement.prototype.decode = decode;
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(HTMLImageElement.prototype, 'decode');
+  });
+
+  it('shares a load between callers', async () => {
+    const preloader = new ImagePreloader();
+
+    const first = preloader.load('/api/images/1');
+    const second = preloader.load('/api/images/1');
+    expect(preloader.isReady('/api/images/1')).toBe(false);
+    await Promise.all([first, second]);
+
+    expect(decode).toHaveBeenCalledTimes(1);
+    expect(preloader.isReady('/api/images/1')).toBe(true);
+  });
+
+  it('treats an image that fails to load as ready', async () => {
+    decode.mockRejectedValue(new DOMException('Broken image', 'EncodingError'));
+    const preloader = new ImagePreloader();
+
+    await preloader.load('/api/images/missing');
+
+    expect(preloader.isReady('/api/images/missing')).toBe(true);
+  });
+
+  it('drops the least recently used images beyond its limit', async () => {
+    const preloader = new ImagePreloader({ maxEntries: 2 });
+
+    await preloader.load('/api/images/1');
+    await preloader.load('/api/images/2');
+    // Only marking an image used changes the order, not checking on it
+    preloader.isReady('/api/images/2');
+    preloader.markUsed('/api/images/1');
+    await preloader.load('/api/images/3');
+
+    expect(preloader.isReady('/api/images/1')).toBe(true);
+    expect(preloader.isReady('/api/images/2')).toBe(false);
+    expect(preloader.isReady('/api/images/3')).toBe(true);
+  });
+
+  it('counts every image as ready where decoding is unsupported', () => {
+    Reflect.deleteProperty(HTMLImageElement.prototype, 'decode');
+
+    expect(new ImagePreloader().isReady('/api/images/1')).toBe(true);
+  });
+
+  it('preloads further ahead at faster cycle speeds', () => {
+    expect(getPreloadWindow(10000)).toBe(1);
+    expect(getPreloadWindow(3000)).toBe(2);
+    expect(getPreloadWindow(1000)).toBe(5);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for the ImageStore metadata cache
+ *
+ * Verifies how the cache saves requests:
+ * - Concurrent requests for the same data share one fetch
+ * - The list is fetched conditionally with the last ETag, when there is one
+ * - A revalidated list keeps the objects of unchanged images
+ */
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { ImageStore } from '../services/imageStore';
+import type { ImageMetadata } from '../services/api';
+
+const mockImages: ImageMetadata[] = [
+  { id: '1', name: 'test1.jpg', size: 1024, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:00Z') },
+  { id: '2', name: 'test2.jpg', size: 2048, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:01Z') }
+];
+
+const server = setupServer();
+
+/** Serves the list with an ETag, answering 304 when it matches */
+const serveList = (images: ImageMetadata[], etag: string) => {
+  const requests: (string | null)[] = [];
+  server.use(
+    http.get('/api/images', ({ request }) => {
+      const ifNoneMatch = request.headers.get('If-None-Match');
+      requests.push(ifNoneMatch);
+      if (ifNoneMatch === etag) {
+        return new HttpResponse(null, { status: 304 });
+      }
+      return HttpResponse.json({ data: images }, { headers: { ETag: etag } });
+    })
+  );
+  return requests;
+};
+
+describe('ImageStore', () => {
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' });
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('shares one metadata request between concurrent callers', async () => {
+    let requests = 0;
+    server.use(
+      http.get('/api/images/:id/metadata', () => {
+        requests++;
+        return HttpResponse.json({ data: mockImages[0] });
+      })
+    );
+    const store = new ImageStore();
+
+    const [first, second] = await Promise.all([store.fetchImage('1'), store.fetchImage('1')]);
+
+    expect(requests).toBe(1);
+    expect(first).toBe(second);
+    // Once cached, no request is made at all
+    await expect(store.fetchImage('1')).resolves.toBe(first);
+    expect(requests).toBe(1);
+  });
+
+  it('revalidates the list with the last ETag and keeps it on a 304', async () => {
+    const requests = serveList(mockImages, '"v1"');
+    const store = new ImageStore();
+
+    await Promise.all([store.revalidateList(), store.revalidateList()]);
+    const images = store.getSnapshot();
+    await store.revalidateList();
+
+    expect(requests).toEqual([null, '"v1"']);
+    expect(store.getSnapshot()).toBe(images);
+    expect(images).toEqual(mockImages);
+  });
+
+  it('keeps the objects of unchanged images when the list is revalidated', async () => {
+    serveList(mockImages, '"v1"');
+    const store = new ImageStore();
+    await store.revalidateList();
+    const [first] = store.getSnapshot();
+    const added: ImageMetadata = { id: '3', name: 'test3.jpg', size: 3072, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:02Z') };
+    serveList([...mockImages, added], '"v2"');
+
+    await store.revalidateList();
+
+    expect(store.getSnapshot().map(image => image.id)).toEqual(['1', '2', '3']);
+    expect(store.getSnapshot()[0]).toBe(first);
+  });
+
+  it('keeps one copy of each image across list and event updates', async () => {
+    serveList(mockImages, '"v1"');
+    const store = new ImageStore();
+    await store.revalidateList();
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    const removed = store.remove('1');
+    store.add(mockImages[1]);
+    store.insert(removed!.image, removed!.index);
+
+    expect(store.getSnapshot().map(image => image.id)).toEqual(['1', '2']);
+    expect(store.getImage('2')).toBe(store.getSnapshot()[1]);
+    // Adding an image that is already listed changes nothing
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,578 @@
+/**
+ * Tests for the shared image stream store
+ *
+ * Verifies that tabs share a single stream connection:
+ * - Only the elected leader tab opens an EventSource
+ * - The leader relays stream events to the other tabs, and alone updates
+ *   the playlists and annotations they share
+ * - Leadership fails over when the leader tab goes away
+ * - Transport negotiation and the degraded polling fallback
+ * - Reconnect backoff, pausing and giving up per the connection policy
+ * - Diagnostics and manual reconnects
+ */
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { ImageStreamStore } from '../services/imageStreamStore';
+import { PlaylistStore } from '../services/playlistStore';
+import { AnnotationStore } from '../services/annotationStore';
+import { EmbeddedMetadataStore } from '../services/embeddedMetadataStore';
+import { DEFAULT_CONNECTION_POLICY, getReconnectDelay } from '../services/connectionPolicy';
+import type { ImageMetadata, ImageEvent } from '../services/api';
+
+const mockImages: ImageMetadata[] = [
+  { id: '1', name: 'test1.jpg', size: 1024, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:00Z') },
+  { id: '2', name: 'test2.jpg', size: 2048, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:01Z') },
+];
+
+/**
+ * In-memory BroadcastChannel that delivers synchronously to every other
+ * channel of the same name, standing in for the channel between tabs
+ */
+class MockBroadcastChannel {
+  private static channels = new Set<MockBroadcastChannel>();
+  public onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(public name: string) {
+    MockBroadcastChannel.channels.add(this);
+  }
+
+  postMessage(data: unknown) {
+    MockBroadcastChannel.channels.forEach(channel => {
+      if (channel !== this && channel.name === this.name) {
+        channel.onmessage?.({ data });
+      }
+    });
+  }
+
+  close() {
+    MockBroadcastChannel.channels.delete(this);
+  }
+
+  static reset() {
+    MockBroadcastChannel.channels.clear();
+  }
+}
+
+/** EventSource stand-in that records every connection opened */
+class MockEventSource {
+  public static instances: MockEventSource[] = [];
+  public static CONNECTING = 0;
+  public static OPEN = 1;
+  public static CLOSED = 2;
+  public readyState = MockEventSource.CONNECTING;
+  public onmessage: ((event: { data: string }) => void) | null = null;
+  public onopen: (() => void) | null = null;
+  public onerror: ((event: Event) => void) | null = null;
+
+  constructor(public url: string) {
+    MockEventSource.instances.push(this);
+  }
+
+  close() {
+    this.readyState = MockEventSource.CLOSED;
+  }
+
+  emitMessage(data: ImageEvent) {
+    this.onmessage?.({ data: JSON.stringify(data) });
+  }
+
+  static open() {
+    return MockEventSource.instances.filter(source => source.readyState !== MockEventSource.CLOSED);
+  }
+}
+
+/** WebSocket stand-in that records every socket opened */
+class MockWebSocket {
+  public static instances: MockWebSocket[] = [];
+  public onopen: (() => void) | null = null;
+  public onmessage: ((event: { data: string }) => void) | null = null;
+  public onclose: ((event: unknown) => void) | null = null;
+
+  constructor(public url: string) {
+    MockWebSocket.instances.push(this);
+  }
+
+  close() {}
+}
+
+const server = setupServer(
+  http.get('/api/images', () => HttpResponse.json({ data: mockImages }))
+);
+
+/** Opens a "tab": a store with one subscriber, after its election settles */
+const openTab = async (options?: ConstructorParameters<typeof ImageStreamStore>[0]) => {
+  const store = new ImageStreamStore(options);
+  const unsubscribe = store.subscribe(() => {});
+  await vi.advanceTimersByTimeAsync(500);
+  return { store, close: unsubscribe };
+};
+
+describe('ImageStreamStore', () => {
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' });
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    vi.stubGlobal('EventSource', MockEventSource);
+    vi.stubGlobal('BroadcastChannel', MockBroadcastChannel);
+    vi.stubGlobal('WebSocket', MockWebSocket);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    MockEventSource.instances = [];
+    MockWebSocket.instances = [];
+    MockBroadcastChannel.reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    server.resetHandlers();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('opens one stream connection for all tabs and relays its events', async () => {
+    // Given - two tabs showing the same images
+    const leader = await openTab();
+    const follower = await openTab();
+    expect(follower.store.getSnapshot().images).toEqual(mockImages);
+
+    // Then - only the first tab connected to the stream
+    expect(MockEventSource.open()).toHaveLength(1);
+
+    // When - the stream reports a delete
+    MockEventSource.open()[0].emitMessage({ type: 'DELETE', image_id: '2', image_name: 'test2.jpg' });
+
+    // Then - both tabs drop the image
+    expect(leader.store.getSnapshot().images.map(img => img.id)).toEqual(['1']);
+    expect(follower.store.getSnapshot().images.map(img => img.id)).toEqual(['1']);
+
+    leader.close();
+    follower.close();
+  });
+
+  it('keeps playlists in step with uploads and deletes', async () => {
+    // Given - a playlist holding both images and adding new PNG uploads
+    const scan = { id: '3', name: 'scan.png', size: 512, mimeType: 'image/png', uploadedAt: new Date('2024-01-02T00:00:00Z') };
+    server.use(http.get('/api/images/3/metadata', () => HttpResponse.json({ data: scan })));
+    const playlists = new PlaylistStore({ storageKey: 'test:stream-playlists' });
+    const playlist = playlists.create('Scans', ['1', '2']);
+    playlists.setAutoInclude(playlist.id, { pattern: '', mimeType: 'image/png' });
+    const tab = await openTab({ playlists });
+
+    // When - one image is deleted and a matching one uploaded
+    MockEventSource.open()[0].emitMessage({ type: 'DELETE', image_id: '1', image_name: 'test1.jpg' });
+    MockEventSource.open()[0].emitMessage({ type: 'UPLOAD', image_id: '3', image_name: 'scan.png' });
+
+    // Then - the playlist drops the first and adds the second
+    await vi.waitFor(() => expect(playlists.getPlaylist(playlist.id)?.imageIds).toEqual(['2', '3']));
+
+    tab.close();
+    localStorage.clear();
+  });
+
+  it('changes playlists only in the leader tab, including for images removed while taking over', async () => {
+    // Given - two tabs, each with its own copy of a playlist holding both images
+    const leaderPlaylists = new PlaylistStore({ storageKey: 'test:leader-playlists' });
+    const followerPlaylists = new PlaylistStore({ storageKey: 'test:follower-playlists' });
+    const leaderPlaylist = leaderPlaylists.create('Scans', ['1', '2']);
+    const followerPlaylist = followerPlaylists.create('Scans', ['1', '2']);
+    const leader = await openTab({ playlists: leaderPlaylists });
+    const follower = await openTab({ playlists: followerPlaylists });
+
+    // When - the leader relays a delete
+    MockEventSource.open()[0].emitMessage({ type: 'DELETE', image_id: '1', image_name: 'test1.jpg' });
+
+    // Then - only the leader changes its playlist
+    await vi.waitFor(() => expect(leaderPlaylists.getPlaylist(leaderPlaylist.id)?.imageIds).toEqual(['2']));
+    expect(followerPlaylists.getPlaylist(followerPlaylist.id)?.imageIds).toEqual(['1', '2']);
+
+    // When - the other image is deleted while the leader tab closes
+    server.use(http.get('/api/images', () => HttpResponse.json({ data: [] })));
+    leader.close();
+
+    // Then - the new leader drops the image its resync found removed
+    await vi.waitFor(() => expect(followerPlaylists.getPlaylist(followerPlaylist.id)?.imageIds).toEqual(['1']));
+
+    follower.close();
+    localStorage.clear();
+  });
+
+  it('drops the annotations of deleted images', async () => {
+    // Given - both images annotated
+    const annotations = new AnnotationStore({ storageKey: 'test:stream-annotations' });
+    annotations.add('1', { width: 100, height: 100 }, { type: 'point', x: 10, y: 20 }, 'Crack');
+    annotations.add('2', { width: 100, height: 100 }, { type: 'point', x: 30, y: 40 }, 'Crack');
+    const tab = await openTab({ annotations });
+
+    // When - one image is deleted
+    MockEventSource.open()[0].emitMessage({ type: 'DELETE', image_id: '1', image_name: 'test1.jpg' });
+
+    // Then - only its annotations are gone
+    await vi.waitFor(() => expect(Object.keys(annotations.getSnapshot())).toEqual(['2']));
+
+    tab.close();
+    localStorage.clear();
+  });
+
+  it('forgets the embedded metadata of deleted images in every tab', async () => {
+    // Given - two tabs that have read both images' metadata
+    const readMetadata = async () => {
+      const store = new EmbeddedMetadataStore({ fetchFile: async () => new ArrayBuffer(0) });
+      store.request(mockImages);
+      await vi.waitFor(() => expect(store.getSnapshot().size).toBe(2));
+      return store;
+    };
+    const leaderMetadata = await readMetadata();
+    const followerMetadata = await readMetadata();
+    const leader = await openTab({ embeddedMetadata: leaderMetadata });
+    const follower = await openTab({ embeddedMetadata: followerMetadata });
+
+    // When - one image is deleted
+    MockEventSource.open()[0].emitMessage({ type: 'DELETE', image_id: '1', image_name: 'test1.jpg' });
+
+    // Then - both tabs forget its metadata
+    expect([...leaderMetadata.getSnapshot().keys()]).toEqual(['2']);
+    expect([...followerMetadata.getSnapshot().keys()]).toEqual(['2']);
+
+    leader.close();
+    follower.close();
+  });
+
+  it('drops annotations only in the leader tab, including of images removed while taking over', async () => {
+    // Given - two tabs, each with its own copy of both images' annotations
+    const annotate = (store: AnnotationStore) => {
+      store.add('1', { width: 100, height: 100 }, { type: 'point', x: 10, y: 20 }, 'Crack');
+      store.add('2', { width: 100, height: 100 }, { type: 'point', x: 30, y: 40 }, 'Crack');
+      return store;
+    };
+    const leaderAnnotations = annotate(new AnnotationStore({ storageKey: 'test:leader-annotations' }));
+    const followerAnnotations = annotate(new AnnotationStore({ storageKey: 'test:follower-annotations' }));
+    const leader = await openTab({ annotations: leaderAnnotations });
+    const follower = await openTab({ annotations: followerAnnotations });
+
+    // When - the leader relays a delete
+    MockEventSource.open()[0].emitMessage({ type: 'DELETE', image_id: '1', image_name: 'test1.jpg' });
+
+    // Then - only the leader drops the annotations
+    await vi.waitFor(() => expect(Object.keys(leaderAnnotations.getSnapshot())).toEqual(['2']));
+    expect(Object.keys(followerAnnotations.getSnapshot())).toEqual(['1', '2']);
+
+    // When - the other image is deleted while the leader tab closes
+    server.use(http.get('/api/images', () => HttpResponse.json({ data: [] })));
+    leader.close();
+
+    // Then - the new leader drops the annotations of the image its resync found removed
+    await vi.waitFor(() => expect(Object.keys(followerAnnotations.getSnapshot())).toEqual(['1']));
+
+    follower.close();
+    localStorage.clear();
+  });
+
+  it('hands the connection to another tab when the leader closes', async () => {
+    // Given - a leader that has relayed events to a follower
+    const leader = await openTab();
+    const follower = await openTab();
+    MockEventSource.open()[0].emitMessage({ type: 'HEARTBEAT', image_id: 'heartbeat', image_name: 'heartbeat' });
+
+    // When - an image is deleted while the leader tab closes
+    server.use(
+      http.get('/api/images', () => HttpResponse.json({ data: [mockImages[1]] }))
+    );
+    leader.close();
+
+    // Then - the follower resyncs the list and reconnects
+    await vi.waitFor(() => expect(MockEventSource.open()).toHaveLength(1));
+    expect(MockEventSource.open()[0].url).toBe('/api/images/stream');
+    expect(follower.store.getSnapshot().images.map(img => img.id)).toEqual(['2']);
+
+    follower.close();
+  });
+
+  it('reconnects when the page comes back from the back/forward cache', async () => {
+    // Given - a connected tab
+    const tab = await openTab();
+
+    // When - the page is hidden into the cache, then shown again
+    window.dispatchEvent(new PageTransitionEvent('pagehide', { persisted: true }));
+    expect(MockEventSource.open()).toHaveLength(0);
+    window.dispatchEvent(new PageTransitionEvent('pageshow', { persisted: true }));
+    await vi.advanceTimersByTimeAsync(500);
+
+    // Then - it rejoins the election and connects again
+    expect(MockEventSource.open()).toHaveLength(1);
+    expect(tab.store.getSnapshot().diagnostics.role).toBe('leader');
+
+    tab.close();
+  });
+
+  it('takes over when the leader stops sending heartbeats', async () => {
+    // Given - a leader and a follower
+    const leader = await openTab();
+    const follower = await openTab();
+
+    // When - the leader tab hangs without resigning
+    MockBroadcastChannel.reset();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    // Then - the follower has opened its own connection
+    expect(MockEventSource.instances).toHaveLength(2);
+    expect(MockEventSource.instances[1].readyState).not.toBe(MockEventSource.CLOSED);
+
+    leader.close();
+    follower.close();
+  });
+
+  describe('transports', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('falls back to the next transport when one cannot connect', async () => {
+      // Given - a tab connecting over SSE, with WebSockets to fall back to
+      const tab = await openTab({ transports: ['sse', 'websocket'] });
+      const [eventSource] = MockEventSource.instances;
+
+      // When - SSE fails before it ever opens, e.g. blocked by a proxy
+      eventSource.readyState = MockEventSource.CLOSED;
+      eventSource.onerror?.(new Event('error'));
+
+      // Then - the next transport is tried, and its events are applied
+      expect(MockWebSocket.instances).toHaveLength(1);
+      const [socket] = MockWebSocket.instances;
+      expect(socket.url).toMatch(/\/api\/images\/ws$/);
+      socket.onopen?.();
+      socket.onmessage?.({ data: JSON.stringify({ type: 'DELETE', image_id: '1', image_name: 'test1.jpg', id: '3' }) });
+      expect(tab.store.getSnapshot()).toMatchObject({ isConnected: true, transport: 'websocket' });
+      expect(tab.store.getSnapshot().images.map(img => img.id)).toEqual(['2']);
+
+      tab.close();
+    });
+
+    it('tries transports in the configured order', async () => {
+      // Given - a long-poll that answers with one event, then waits
+      const requests: string[] = [];
+      server.use(
+        http.get('/api/images/events', ({ request }) => {
+          requests.push(new URL(request.url).search);
+          return requests.length === 1
+            ? HttpResponse.json({ data: [{ type: 'DELETE', image_id: '2', image_name: 'test2.jpg', id: '5' }] })
+            : new Promise<never>(() => {});
+        })
+      );
+
+      // When - a tab prefers long-polling over SSE
+      const polling = await openTab({ transports: ['long-polling', 'sse'] });
+      await vi.waitFor(() => expect(requests).toHaveLength(2));
+
+      // Then - the event is applied and the next poll resumes after it
+      expect(MockEventSource.instances).toHaveLength(0);
+      expect(polling.store.getSnapshot().images.map(img => img.id)).toEqual(['1']);
+      expect(polling.store.getSnapshot().transport).toBe('long-polling');
+      expect(requests[1]).toBe('?lastEventId=5');
+
+      polling.close();
+    });
+
+    it('spaces out long-polls that return no events', async () => {
+      // Given - a backend answering every poll at once, empty
+      let requests = 0;
+      server.use(
+        http.get('/api/images/events', () => {
+          requests++;
+          return HttpResponse.json({ data: [] });
+        })
+      );
+
+      // When - a tab connects over long-polling
+      const polling = await openTab({ transports: ['long-polling'] });
+
+      // Then - each poll waits twice as long as the one before
+      expect(requests).toBe(1);
+      await vi.advanceTimersByTimeAsync(1500);
+      expect(requests).toBe(1);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(requests).toBe(2);
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(requests).toBe(2);
+      await vi.advanceTimersByTimeAsync(1500);
+      expect(requests).toBe(3);
+
+      polling.close();
+    });
+
+    it('synthesizes events from polling while the stream is silent', async () => {
+      // Given - a connected tab
+      const tab = await openTab();
+      MockEventSource.open()[0].onopen?.();
+
+      // When - heartbeats stop while images change on the server
+      const added: ImageMetadata = { id: '3', name: 'test3.jpg', size: 3072, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:02Z') };
+      server.use(
+        http.get('/api/images', () => HttpResponse.json({ data: [mockImages[1], added] }))
+      );
+      await vi.advanceTimersByTimeAsync(8000);
+
+      // Then - the poller applied the upload and the delete
+      await vi.waitFor(() =>
+        expect(tab.store.getSnapshot().images.map(img => img.id)).toEqual(['2', '3']));
+      expect(tab.store.getSnapshot().images[1]).toEqual(added);
+
+      tab.close();
+    });
+  });
+
+  describe('connection policy', () => {
+    /** Drops the open stream connection after it was established */
+    const dropConnection = () => {
+      const [eventSource] = MockEventSource.open();
+      eventSource.onopen?.();
+      eventSource.readyState = MockEventSource.CLOSED;
+      eventSource.onerror?.(new Event('error'));
+    };
+
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('backs off exponentially with full jitter up to the max delay', () => {
+      const policy = { ...DEFAULT_CONNECTION_POLICY, initialDelay: 1000, maxDelay: 10000 };
+
+      expect(getReconnectDelay(policy, 0, () => 0.5)).toBe(500);
+      expect(getReconnectDelay(policy, 3, () => 0.5)).toBe(4000);
+      expect(getReconnectDelay(policy, 10, () => 0.5)).toBe(5000);
+      expect(getReconnectDelay(policy, 10, () => 0)).toBe(0);
+    });
+
+    it('holds reconnects while offline and resumes as soon as the browser is back online', async () => {
+      // Given - a connected tab that goes offline
+      const tab = await openTab();
+      const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+      // When - the connection drops
+      dropConnection();
+      await vi.advanceTimersByTimeAsync(120000);
+
+      // Then - no reconnect is attempted while offline
+      expect(MockEventSource.instances).toHaveLength(1);
+
+      // When - the browser comes back online
+      onLine.mockReturnValue(true);
+      window.dispatchEvent(new Event('online'));
+
+      // Then - it reconnects without waiting for a backoff delay
+      await vi.waitFor(() => expect(MockEventSource.open()).toHaveLength(1));
+      expect(MockEventSource.instances).toHaveLength(2);
+
+      tab.close();
+    });
+
+    it('gives up after the configured number of attempts', async () => {
+      // Given - a tab allowed two reconnect attempts, and a backend that goes down
+      const tab = await openTab({ policy: { initialDelay: 100, maxAttempts: 2 } });
+      let listRequests = 0;
+      server.use(
+        http.get('/api/images', () => {
+          listRequests++;
+          return HttpResponse.json({ error: 'Service unavailable' }, { status: 503 });
+        })
+      );
+
+      // When - the connection drops
+      dropConnection();
+      await vi.advanceTimersByTimeAsync(10000);
+
+      // Then - it stopped after two attempts and reports the failure
+      expect(listRequests).toBe(2);
+      expect(tab.store.getSnapshot()).toMatchObject({
+        isConnected: false,
+        error: 'Unable to connect to image stream. Please check if the server is running.'
+      });
+
+      tab.close();
+    });
+
+    it('keeps the rest of the policy when configured again', async () => {
+      // Given - a tab allowed two reconnect attempts, whose delay is then shortened
+      const tab = await openTab({ policy: { maxAttempts: 2 } });
+      tab.store.configure({ initialDelay: 100 });
+      let listRequests = 0;
+      server.use(
+        http.get('/api/images', () => {
+          listRequests++;
+          return HttpResponse.json({ error: 'Service unavailable' }, { status: 503 });
+        })
+      );
+
+      // When - the connection drops
+      dropConnection();
+      await vi.advanceTimersByTimeAsync(10000);
+
+      // Then - it still gives up after two attempts
+      expect(listRequests).toBe(2);
+
+      tab.close();
+    });
+  });
+
+  describe('diagnostics', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('reports transitions, event counts and the pending retry', async () => {
+      // Given - a connected tab that has received some events
+      const tab = await openTab({ policy: { initialDelay: 60000, maxDelay: 60000 } });
+      const [eventSource] = MockEventSource.instances;
+      eventSource.onopen?.();
+      eventSource.emitMessage({ type: 'HEARTBEAT', image_id: 'heartbeat', image_name: 'heartbeat' });
+      eventSource.emitMessage({ type: 'DELETE', image_id: '2', image_name: 'test2.jpg' });
+
+      expect(tab.store.getSnapshot().diagnostics).toMatchObject({
+        phase: 'connected',
+        role: 'leader',
+        lastHeartbeatAt: Date.now(),
+        eventCounts: { UPLOAD: 0, DELETE: 1, HEARTBEAT: 1 }
+      });
+
+      // When - the connection drops
+      eventSource.readyState = MockEventSource.CLOSED;
+      eventSource.onerror?.(new Event('error'));
+
+      // Then - the retry is scheduled and the transitions are logged, newest first
+      const { diagnostics } = tab.store.getSnapshot();
+      expect(diagnostics.phase).toBe('reconnecting');
+      expect(diagnostics.reconnectAttempt).toBe(1);
+      expect(diagnostics.nextReconnectAt).toBeGreaterThanOrEqual(Date.now());
+      expect(diagnostics.log.map(entry => entry.message).slice(0, 3)).toEqual([
+        expect.stringMatching(/^Reconnect attempt 1 in \d+s$/),
+        'Connection over sse lost',
+        'Connected over sse'
+      ]);
+
+      tab.close();
+    });
+
+    it('reconnects now instead of waiting out the backoff', async () => {
+      // Given - a tab waiting a long time to reconnect
+      const tab = await openTab({ policy: { initialDelay: 60000, maxDelay: 60000 } });
+      vi.spyOn(Math, 'random').mockReturnValue(0.99);
+      const [eventSource] = MockEventSource.instances;
+      eventSource.onopen?.();
+      eventSource.readyState = MockEventSource.CLOSED;
+      eventSource.onerror?.(new Event('error'));
+
+      // When - reconnecting is requested
+      tab.store.reconnectNow();
+
+      // Then - a new connection opens right away
+      await vi.waitFor(() => expect(MockEventSource.open()).toHaveLength(1));
+      expect(tab.store.getSnapshot().diagnostics.nextReconnectAt).toBeNull();
+
+      tab.close();
+    });
+  });
+});
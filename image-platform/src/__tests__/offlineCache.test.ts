@@ -0,0 +1,107 @@
+/**
+ * Tests for the IndexedDB offline cache
+ *
+ * Verifies what displays can fall back on while the backend is down:
+ * - The last image list survives, dates included
+ * - Image contents are kept within the size limit, least recently used first out
+ * - Reconciling with the server drops contents of deleted images
+ */
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OfflineCache } from '../services/offlineCache';
+import { ImageStore } from '../services/imageStore';
+import type { ImageMetadata } from '../services/api';
+
+const mockImages: ImageMetadata[] = [
+  { id: '1', name: 'test1.jpg', size: 1024, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:00Z') },
+  { id: '2', name: 'test2.jpg', size: 2048, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:01Z') }
+];
+
+/** Image contents of the given size in bytes */
+const bytes = (size: number) => new Blob([new Uint8Array(size)], { type: 'image/jpeg' });
+
+let dbCount = 0;
+
+describe('OfflineCache', () => {
+  let cache: OfflineCache;
+
+  beforeEach(() => {
+    // A fresh database per test
+    cache = new OfflineCache({ maxBytes: 100, dbName: `offline-test-${++dbCount}` });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('persists the image list', async () => {
+    expect(await cache.loadImages()).toBeNull();
+
+    await cache.saveImages(mockImages);
+
+    const images = await cache.loadImages();
+    expect(images).toEqual(mockImages);
+    expect(images![0].uploadedAt).toBeInstanceOf(Date);
+  });
+
+  it('returns cached image contents', async () => {
+    await cache.putBlob('1', bytes(10));
+
+    const blob = await cache.getBlob('1');
+
+    expect(blob?.size).toBe(10);
+    expect(blob?.type).toBe('image/jpeg');
+    expect(await cache.getBlob('2')).toBeNull();
+  });
+
+  it('evicts the least recently used contents beyond the size limit', async () => {
+    let now = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => ++now);
+    await cache.putBlob('1', bytes(40));
+    await cache.putBlob('2', bytes(40));
+    // Reading image 1 makes image 2 the least recently used
+    await cache.getBlob('1');
+
+    await cache.putBlob('3', bytes(40));
+
+    expect(await cache.getBlob('1')).not.toBeNull();
+    expect(await cache.getBlob('2')).toBeNull();
+    expect(await cache.getBlob('3')).not.toBeNull();
+  });
+
+  it('counts contents as used when touched, without reading them', async () => {
+    let now = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => ++now);
+    await cache.putBlob('1', bytes(40));
+    await cache.putBlob('2', bytes(40));
+
+    expect(await cache.touchBlob('1')).toBe(true);
+    expect(await cache.touchBlob('3')).toBe(false);
+    await cache.putBlob('3', bytes(40));
+
+    expect(await cache.getBlob('1')).not.toBeNull();
+    expect(await cache.getBlob('2')).toBeNull();
+  });
+
+  it('drops contents of images no longer on the server when reconciling', async () => {
+    await cache.putBlob('1', bytes(10));
+    await cache.putBlob('2', bytes(10));
+
+    await cache.reconcile([mockImages[1]]);
+
+    expect(await cache.getBlob('1')).toBeNull();
+    expect(await cache.getBlob('2')).not.toBeNull();
+    expect(await cache.loadImages()).toEqual([mockImages[1]]);
+  });
+
+  it('lets the image store fall back on the persisted list', async () => {
+    await cache.saveImages(mockImages);
+    const store = new ImageStore({ offline: cache });
+
+    expect(await store.restoreOffline()).toBe(true);
+
+    expect(store.getSnapshot()).toEqual(mockImages);
+    // Restored images are not a server response, so the next fetch is unconditional
+    expect(store.hasList).toBe(false);
+  });
+});
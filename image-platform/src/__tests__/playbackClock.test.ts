@@ -0,0 +1,92 @@
+/**
+ * Tests for the PlaybackClock shared time base
+ *
+ * Verifies:
+ * - Steps advance with wall time, scaled by speed
+ * - Pausing, stepping and seeking
+ * - Interval changes keep the current step
+ * - Subscribers are notified of state changes
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PlaybackClock } from '../services/playbackClock';
+
+describe('PlaybackClock', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('advances one step per interval while playing', () => {
+    const clock = new PlaybackClock({ interval: 1000 });
+    expect(clock.getStep()).toBe(0);
+    expect(clock.getTimeUntilProgress(clock.getStep() + 1)).toBe(1000);
+
+    vi.advanceTimersByTime(2500);
+    expect(clock.getStep()).toBe(2);
+    expect(clock.getTimeUntilProgress(clock.getStep() + 1)).toBe(500);
+  });
+
+  it('scales playback by speed', () => {
+    const clock = new PlaybackClock({ interval: 1000 });
+    clock.setSpeed(2);
+
+    vi.advanceTimersByTime(1500);
+    expect(clock.getStep()).toBe(3);
+    expect(clock.getTimeUntilProgress(clock.getStep() + 1)).toBe(500);
+  });
+
+  it('holds its position while paused', () => {
+    const clock = new PlaybackClock({ interval: 1000 });
+    vi.advanceTimersByTime(1200);
+    clock.pause();
+
+    vi.advanceTimersByTime(5000);
+    expect(clock.getStep()).toBe(1);
+    expect(clock.getTimeUntilProgress(clock.getStep() + 1)).toBeNull();
+
+    clock.play();
+    vi.advanceTimersByTime(800);
+    expect(clock.getStep()).toBe(2);
+  });
+
+  it('steps to the start of the neighbouring step', () => {
+    const clock = new PlaybackClock({ interval: 1000 });
+    vi.advanceTimersByTime(1500);
+
+    clock.step(1);
+    expect(clock.getStep()).toBe(2);
+    expect(clock.getTimeUntilProgress(clock.getStep() + 1)).toBe(1000);
+
+    clock.step(-3);
+    expect(clock.getStep()).toBe(-1);
+  });
+
+  it('keeps the current step when the interval changes', () => {
+    const clock = new PlaybackClock({ interval: 3000 });
+    vi.advanceTimersByTime(7500);
+    expect(clock.getStep()).toBe(2);
+
+    clock.setInterval(1000);
+    expect(clock.getStep()).toBe(2);
+    expect(clock.getTimeUntilProgress(clock.getStep() + 1)).toBe(500);
+  });
+
+  it('notifies subscribers with a new snapshot on every change', () => {
+    const clock = new PlaybackClock({ interval: 1000 });
+    const listener = vi.fn();
+    const unsubscribe = clock.subscribe(listener);
+    const initial = clock.getSnapshot();
+
+    clock.pause();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(clock.getSnapshot()).not.toBe(initial);
+    expect(clock.getSnapshot().isPlaying).toBe(false);
+
+    unsubscribe();
+    clock.play();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
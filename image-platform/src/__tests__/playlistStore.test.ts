@@ -0,0 +1,108 @@
+/**
+ * Tests for the playlist store
+ *
+ * Verifies that playlists:
+ * - Persist across instances and keep their images in order
+ * - Follow deletes and pick up matching uploads
+ * - Export and import as JSON, rejecting anything else
+ * - Follow other tabs' changes, listening for them only while subscribed
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { PlaylistStore, resolvePlaylist } from '../services/playlistStore';
+import type { ImageMetadata } from '../services/api';
+
+const STORAGE_KEY = 'test:playlists';
+
+const makeImage = (id: string, name: string, mimeType = 'image/jpeg'): ImageMetadata => ({
+  id,
+  name,
+  size: 1024,
+  mimeType,
+  uploadedAt: new Date('2024-01-01T00:00:00Z')
+});
+
+const images = [makeImage('1', 'a.jpg'), makeImage('2', 'b.jpg'), makeImage('3', 'c.jpg')];
+
+describe('PlaylistStore', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('persists playlists and reorders their images', () => {
+    const store = new PlaylistStore({ storageKey: STORAGE_KEY });
+    const playlist = store.create('Favourites', ['1', '2', '3', '2']);
+    store.rename(playlist.id, 'Best');
+    store.moveImage(playlist.id, 2, 0);
+
+    const reloaded = new PlaylistStore({ storageKey: STORAGE_KEY });
+
+    expect(reloaded.getSnapshot()).toEqual([
+      { id: playlist.id, name: 'Best', imageIds: ['3', '1', '2'], autoInclude: null }
+    ]);
+    expect(resolvePlaylist(reloaded.getSnapshot()[0], images.slice(1)).map(image => image.id)).toEqual(['3', '2']);
+  });
+
+  it('drops deleted images and adds uploads matching a rule', () => {
+    const store = new PlaylistStore({ storageKey: STORAGE_KEY });
+    const scans = store.create('Scans', ['1', '2']);
+    const pngs = store.create('PNGs');
+    const manual = store.create('Manual', ['2']);
+    store.setAutoInclude(scans.id, { pattern: '^scan', mimeType: '' });
+    store.setAutoInclude(pngs.id, { pattern: '', mimeType: 'image/png' });
+
+    store.dropImage('2');
+    store.includeUpload(makeImage('4', 'Scan-01.png', 'image/png'));
+    store.includeUpload(makeImage('5', 'photo.jpg'));
+
+    expect(store.getSnapshot().map(playlist => playlist.imageIds)).toEqual([['1', '4'], ['4'], []]);
+    expect(store.getPlaylist(manual.id)?.autoInclude).toBeNull();
+  });
+
+  it('imports exported playlists as copies', () => {
+    const store = new PlaylistStore({ storageKey: STORAGE_KEY });
+    const playlist = store.create('Favourites', ['1']);
+    store.setAutoInclude(playlist.id, { pattern: 'a', mimeType: '' });
+
+    const imported = store.importJson(store.exportJson());
+
+    expect(imported).toBe(1);
+    const [original, copy] = store.getSnapshot();
+    expect(copy).toEqual({ ...original, id: expect.any(String) });
+    expect(copy.id).not.toBe(original.id);
+  });
+
+  it('follows changes made in other tabs, listening for them only while subscribed', () => {
+    const addListener = vi.spyOn(window, 'addEventListener');
+    const removeListener = vi.spyOn(window, 'removeEventListener');
+    const store = new PlaylistStore({ storageKey: STORAGE_KEY });
+    const otherTab = new PlaylistStore({ storageKey: STORAGE_KEY });
+    const names = (playlists: { name: string }[]) => playlists.map(playlist => playlist.name);
+    expect(addListener).not.toHaveBeenCalledWith('storage', expect.anything());
+
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+    otherTab.create('Elsewhere');
+    // jsdom does not send storage events to the window that made the change
+    window.dispatchEvent(new StorageEvent('storage', { key: STORAGE_KEY }));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(names(store.getSnapshot())).toEqual(['Elsewhere']);
+
+    unsubscribe();
+    const [, handleStorage] = addListener.mock.calls.find(([type]) => type === 'storage')!;
+    expect(removeListener).toHaveBeenCalledWith('storage', handleStorage);
+
+    // Without listening, a change still starts from what the other tab saved
+    otherTab.create('Later');
+    store.create('Here');
+    expect(names(new PlaylistStore({ storageKey: STORAGE_KEY }).getSnapshot())).toEqual(['Elsewhere', 'Later', 'Here']);
+  });
+
+  it('rejects files that are not playlist exports', () => {
+    const store = new PlaylistStore({ storageKey: STORAGE_KEY });
+
+    expect(() => store.importJson('{not json')).toThrow('not valid JSON');
+    expect(() => store.importJson('{"images": []}')).toThrow('does not contain any playlists');
+    expect(store.getSnapshot()).toEqual([]);
+  });
+});
@@ -2,8 +2,10 @@
  * Tests for the useImageStream hook
  * 
  * Tests core functionality of the real-time image stream connection:
- * - Initial connection and image loading
+ * - Initial connection and image loading, from the cache when there is one
  * - Connection health monitoring via heartbeats
+ * - Optimistic deletes with rollback
+ * - Incremental resync after a dropped connection
  * - Resource cleanup
  */
 import { renderHook, act } from '@testing-library/react';
@@ -11,13 +13,14 @@ import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi }
 import { http, HttpResponse } from 'msw';
 import { setupServer } from 'msw/node';
 import { useImageStream } from '../hooks/useImageStream';
+import { imageStore } from '../services/imageStore';
 import type { ImageMetadata, ImageEvent } from '../services/api';
 
 /** Mock image data representing a typical server response */
 const mockImages: ImageMetadata[] = [
-  { id: '1', name: 'test1.jpg', size: 1024, mimeType: 'image/jpeg', uploadedAt: '2024-01-01T00:00:00Z' },
-  { id: '2', name: 'test2.jpg', size: 2048, mimeType: 'image/jpeg', uploadedAt: '2024-01-01T00:00:01Z' },
-  { id: '3', name: 'test3.jpg', size: 3072, mimeType: 'image/jpeg', uploadedAt: '2024-01-01T00:00:02Z' },
+  { id: '1', name: 'test1.jpg', size: 1024, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:00Z') },
+  { id: '2', name: 'test2.jpg', size: 2048, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:01Z') },
+  { id: '3', name: 'test3.jpg', size: 3072, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:02Z') },
 ];
 
 /**
@@ -28,6 +31,8 @@ class MockEventSource {
   public static instance: MockEventSource | null = null;
   private listeners: Record<string, Function[]> = {};
   public readyState: number = 0;
+  public onmessage: ((event: { data: string }) => void) | null = null;
+  public onerror: ((event: Event) => void) | null = null;
   public static CONNECTING = 0;
   public static OPEN = 1;
   public static CLOSED = 2;
@@ -59,6 +64,7 @@ class MockEventSource {
       this.listeners.message.forEach(listener => 
         listener({ data: JSON.stringify(data) }));
     }
+    this.onmessage?.({ data: JSON.stringify(data) });
   }
 
   emitOpen() {
@@ -73,6 +79,7 @@ class MockEventSource {
     if (this.listeners.error) {
       this.listeners.error.forEach(listener => listener(new Event('error')));
     }
+    this.onerror?.(new Event('error'));
   }
 
   static getInstance() {
@@ -99,6 +106,8 @@ describe('useImageStream', () => {
   beforeEach(() => {
     vi.useFakeTimers({ shouldAdvanceTime: true });
     vi.stubGlobal('EventSource', MockEventSource);
+    // A single tab: without BroadcastChannel the store leads straight away
+    vi.stubGlobal('BroadcastChannel', undefined);
     server.resetHandlers();
   });
 
@@ -108,6 +117,8 @@ describe('useImageStream', () => {
     vi.clearAllMocks();
     MockEventSource.instance = null;
     server.resetHandlers();
+    // The shared cache would otherwise carry images into the next test
+    imageStore.clear();
   });
 
   // Stop MSW server after all tests
@@ -136,6 +147,22 @@ describe('useImageStream', () => {
     expect(result.current.images).toEqual(mockImages);
   });
 
+  it('shows cached images at once when remounted', async () => {
+    // Given - images loaded by a view that has since unmounted
+    const first = renderHook(() => useImageStream());
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+    first.unmount();
+
+    // When - a view mounts again
+    const { result } = renderHook(() => useImageStream());
+
+    // Then - the cached images show while the list revalidates
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.images).toEqual(mockImages);
+  });
+
   it('maintains connection with heartbeat events', async () => {
     // Given - a hook instance with initial images loaded
     const { result } = renderHook(() => useImageStream());
@@ -162,6 +189,120 @@ describe('useImageStream', () => {
     expect(result.current.error).toBeNull();
   });
 
+  it('removes an image optimistically and ignores the echoed DELETE event', async () => {
+    // Given - a delete endpoint that only answers once released
+    let releaseDelete: () => void = () => {};
+    server.use(
+      http.delete('/api/images/:id', () =>
+        new Promise<Response>(resolve => {
+          releaseDelete = () => resolve(new HttpResponse(null, { status: 204 }));
+        }))
+    );
+    const { result } = renderHook(() => useImageStream());
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    // When - the delete is requested
+    let deletion: Promise<void> = Promise.resolve();
+    await act(async () => {
+      deletion = result.current.deleteImage('2');
+    });
+
+    // Then - the image is gone before the server responds
+    expect(result.current.images.map(img => img.id)).toEqual(['1', '3']);
+
+    // When - the stream echoes the delete and the request completes
+    const imagesBeforeEcho = result.current.images;
+    await act(async () => {
+      MockEventSource.getInstance()?.emitMessage({ type: 'DELETE', image_id: '2', image_name: 'test2.jpg' });
+      releaseDelete();
+      await deletion;
+    });
+
+    // Then - the echo did not touch the list
+    expect(result.current.images).toBe(imagesBeforeEcho);
+  });
+
+  it('rolls back an optimistic delete when the request fails', async () => {
+    // Given - a failing delete endpoint
+    server.use(
+      http.delete('/api/images/:id', () =>
+        HttpResponse.json({ error: 'Failed to delete image' }, { status: 500 }))
+    );
+    const { result } = renderHook(() => useImageStream());
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    // When - the delete is requested
+    let failure: unknown = null;
+    await act(async () => {
+      await result.current.deleteImage('2').catch(err => { failure = err; });
+    });
+
+    // Then - the image is restored in its original position and the error surfaces
+    expect(result.current.images).toEqual(mockImages);
+    expect(failure).toEqual(new Error('Failed to delete image'));
+  });
+
+  describe('resync after a dropped connection', () => {
+    /** Loads the initial images and connects the stream */
+    const connect = async () => {
+      const hook = renderHook(() => useImageStream());
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+      await act(async () => {
+        MockEventSource.getInstance()?.emitMessage({ type: 'HEARTBEAT', image_id: 'heartbeat', image_name: 'heartbeat' });
+      });
+      return hook;
+    };
+
+    /** Drops the stream and lets the retry resync and reconnect */
+    const dropConnection = async () => {
+      await act(async () => {
+        MockEventSource.getInstance()?.emitError();
+        await vi.runAllTimersAsync();
+      });
+    };
+
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('applies only what changed during the gap', async () => {
+      // Given - a connected hook
+      const { result } = await connect();
+      const [image1, , image3] = result.current.images;
+
+      // When - image 2 is deleted and image 4 uploaded while the stream is down
+      const added: ImageMetadata = { id: '4', name: 'test4.jpg', size: 4096, mimeType: 'image/jpeg', uploadedAt: new Date('2024-01-01T00:00:03Z') };
+      server.use(
+        http.get('/api/images', () => HttpResponse.json({ data: [mockImages[0], mockImages[2], added] }))
+      );
+      await dropConnection();
+
+      // Then - the refetched list was merged in place, and the stream reopened
+      expect(result.current.images.map(img => img.id)).toEqual(['1', '3', '4']);
+      expect(result.current.images[0]).toBe(image1);
+      expect(result.current.images[1]).toBe(image3);
+      expect(MockEventSource.getInstance()?.url).toBe('/api/images/stream');
+    });
+
+    it('leaves the list untouched when nothing changed', async () => {
+      // Given - a connected hook
+      const { result } = await connect();
+      const imagesBeforeDrop = result.current.images;
+
+      // When - the stream drops and the server list is unchanged
+      await dropConnection();
+
+      // Then - the same array is kept, so nothing re-renders
+      expect(result.current.images).toBe(imagesBeforeDrop);
+    });
+  });
+
   it('cleans up resources on unmount', async () => {
     // Given - a hook instance with active connection
     const { unmount } = renderHook(() => useImageStream());
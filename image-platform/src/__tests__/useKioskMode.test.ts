@@ -0,0 +1,149 @@
+/**
+ * Tests for kiosk mode
+ *
+ * Verifies what keeps an unattended wall display running:
+ * - Kiosk mode follows the URL, and leaving it clears the URL
+ * - The cursor hides after inactivity and returns on movement
+ * - The screen is kept awake
+ * - The page reloads once the stream has been down too long, but only while
+ *   the server responds, checking it again less and less often until it does
+ */
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useKioskMode, useStreamAutoRecovery, getKioskReloadAfter } from '../hooks/useKioskMode';
+import { imageApi } from '../services/api';
+import { NetworkError } from '../services/apiErrors';
+
+describe('useKioskMode', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    window.history.replaceState(null, '', '/?kiosk=1');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    window.history.replaceState(null, '', '/');
+    Reflect.deleteProperty(navigator, 'wakeLock');
+  });
+
+  it('turns on from the URL and clears it when left with Escape', () => {
+    const { result } = renderHook(() => useKioskMode());
+    expect(result.current.isKiosk).toBe(true);
+
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+    });
+
+    expect(result.current.isKiosk).toBe(false);
+    expect(window.location.search).toBe('');
+  });
+
+  it('hides the cursor until the mouse moves', () => {
+    const { result } = renderHook(() => useKioskMode({ cursorHideDelay: 1000 }));
+    expect(result.current.isCursorHidden).toBe(false);
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(result.current.isCursorHidden).toBe(true);
+
+    act(() => {
+      window.dispatchEvent(new MouseEvent('mousemove'));
+    });
+    expect(result.current.isCursorHidden).toBe(false);
+  });
+
+  it('keeps the screen awake while on', async () => {
+    const release = vi.fn().mockResolvedValue(undefined);
+    const request = vi.fn().mockResolvedValue({ release });
+    Object.defineProperty(navigator, 'wakeLock', { value: { request }, configurable: true });
+
+    const { result } = renderHook(() => useKioskMode());
+    await act(async () => {});
+    expect(request).toHaveBeenCalledWith('screen');
+
+    act(() => {
+      result.current.exit();
+    });
+    expect(release).toHaveBeenCalled();
+  });
+
+  it('reads the reload threshold from the URL', () => {
+    expect(getKioskReloadAfter('?kiosk&kioskReloadAfter=30')).toBe(30000);
+    expect(getKioskReloadAfter('?kiosk&kioskReloadAfter=0')).toBe(0);
+    expect(getKioskReloadAfter('?kiosk&kioskReloadAfter=soon')).toBe(120000);
+  });
+});
+
+describe('useStreamAutoRecovery', () => {
+  let isServerUp: boolean;
+  // The client with the list answered, or failed as by a server that is down
+  const getImages = vi.fn(async () => {
+    if (!isServerUp) throw new NetworkError();
+    return [];
+  });
+  const api = { ...imageApi, getImages };
+
+  beforeEach(() => {
+    isServerUp = true;
+    getImages.mockClear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // jsdom cannot reload, so the reload is seen through its log line
+  const reloadLogged = (log: { mock: { calls: unknown[][] } }) =>
+    log.mock.calls.some(([message]) => String(message).includes('reloading'));
+
+  it('reloads once the stream has been down longer than the threshold and the server responds', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    renderHook(() => useStreamAutoRecovery(false, 5000, true, api));
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(getImages).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(getImages).toHaveBeenCalledTimes(1);
+    expect(reloadLogged(log)).toBe(true);
+  });
+
+  it('checks again at doubling intervals instead of reloading while the server does not respond', async () => {
+    isServerUp = false;
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    renderHook(() => useStreamAutoRecovery(false, 5000, true, api));
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(getImages).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(getImages).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(getImages).toHaveBeenCalledTimes(2);
+    expect(reloadLogged(log)).toBe(false);
+
+    isServerUp = true;
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(getImages).toHaveBeenCalledTimes(3);
+    expect(reloadLogged(log)).toBe(true);
+  });
+
+  it('does not reload when the stream comes back in time', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { rerender } = renderHook(({ isConnected }) => useStreamAutoRecovery(isConnected, 5000, true, api), {
+      initialProps: { isConnected: false }
+    });
+
+    await vi.advanceTimersByTimeAsync(4000);
+    rerender({ isConnected: true });
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(getImages).not.toHaveBeenCalled();
+    expect(reloadLogged(log)).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for viewer settings
+ *
+ * Verifies that settings survive storage and links intact:
+ * - Invalid values fall back to the defaults and numbers are clamped
+ * - Settings round-trip through the URL, which only lists non-defaults
+ * - A link's settings win over saved ones
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DEFAULT_VIEWER_SETTINGS,
+  validateSettings,
+  writeParams,
+  loadViewerSettings,
+  saveViewerSettings
+} from '../services/viewerSettings';
+
+describe('viewerSettings', () => {
+  afterEach(() => {
+    localStorage.clear();
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('falls back to defaults and clamps numbers field by field', () => {
+    const settings = validateSettings({
+      viewMode: 'carousel',
+      frameCount: '99',
+      cycleSpeed: 'fast',
+      transitionDuration: 123,
+      frameTransitions: { 1: 'slide', 2: 'spin', 42: 'crossfade' },
+      filter: { name: 'scan', uploadedFrom: 'yesterday' },
+      sort: { field: 'size', direction: 'sideways' }
+    });
+
+    expect(settings).toEqual({
+      ...DEFAULT_VIEWER_SETTINGS,
+      frameCount: 10,
+      cycleInterval: 1000,
+      frameTransitions: { 1: 'slide' },
+      filter: { name: 'scan', mimeType: '', uploadedFrom: '', uploadedTo: '', metadata: '' },
+      sort: { field: 'size', direction: 'desc' }
+    });
+    expect(validateSettings({ frameCount: -3 }).frameCount).toBe(1);
+    expect(validateSettings({ cycleInterval: 100 }).cycleInterval).toBe(500);
+  });
+
+  it('keeps only well-formed dwell rules', () => {
+    const { dwellRules } = validateSettings({
+      dwellRules: [
+        { type: 'name', pattern: '^scan', dwell: 10000 },
+        { type: 'name', pattern: '(unclosed', dwell: 10000 },
+        { type: 'size', msPerMegabyte: 2000, min: 5000, max: 1000 },
+        { type: 'colour' },
+        'scan'
+      ]
+    });
+
+    expect(dwellRules).toEqual([
+      { type: 'name', pattern: '^scan', dwell: 10000 },
+      { type: 'size', msPerMegabyte: 2000, min: 5000, max: 5000 }
+    ]);
+  });
+
+  it('round-trips through the URL, listing only non-default settings', () => {
+    const settings = {
+      ...DEFAULT_VIEWER_SETTINGS,
+      viewMode: 'multi' as const,
+      frameCount: 6,
+      transition: 'slide' as const,
+      frameTransitions: { 1: 'kenburns' as const },
+      framePlaylists: { 0: 'lq3k9x-0' },
+      filter: { ...DEFAULT_VIEWER_SETTINGS.filter, mimeType: 'image/png' }
+    };
+
+    const search = writeParams(settings, '?kiosk=1');
+    expect(search).toBe('?kiosk=1&view=multi&frames=6&transition=slide&frameTransitions=2%3Akenburns&playlists=1%3Alq3k9x-0&type=image%2Fpng');
+
+    window.history.replaceState(null, '', `/${search}`);
+    expect(loadViewerSettings()).toEqual(settings);
+  });
+
+  it('round-trips the compared images and layout, rejecting malformed ones', () => {
+    const settings = {
+      ...DEFAULT_VIEWER_SETTINGS,
+      viewMode: 'compare' as const,
+      compare: { firstId: 'img-1', secondId: 'img-2', layout: 'difference' as const, amplification: 16 }
+    };
+
+    const search = writeParams(settings, '');
+    expect(search).toBe('?view=compare&a=img-1&b=img-2&compare=difference&amplify=16');
+    window.history.replaceState(null, '', `/${search}`);
+    expect(loadViewerSettings()).toEqual(settings);
+
+    expect(validateSettings({ compare: { firstId: '../img-1', layout: 'blend', amplification: 500 } }).compare).toEqual({
+      firstId: '',
+      secondId: '',
+      layout: 'side-by-side',
+      amplification: 64
+    });
+  });
+
+  it('prefers the settings in a link over saved ones', () => {
+    saveViewerSettings({ ...DEFAULT_VIEWER_SETTINGS, viewMode: 'gallery', cycleInterval: 5000 });
+    expect(loadViewerSettings().viewMode).toBe('gallery');
+
+    window.history.replaceState(null, '', '/?frames=2');
+
+    expect(loadViewerSettings()).toEqual({ ...DEFAULT_VIEWER_SETTINGS, frameCount: 2 });
+  });
+
+  it('ignores corrupt saved settings', () => {
+    localStorage.setItem('image-platform:viewer-settings', '{not json');
+
+    expect(loadViewerSettings()).toEqual(DEFAULT_VIEWER_SETTINGS);
+  });
+});
@@ -0,0 +1,199 @@
+import { useState, useRef, CSSProperties, FC, PointerEvent } from 'react';
+import {
+  Annotation,
+  AnnotationShape,
+  AnnotationTool,
+  ImagePoint,
+  MAX_FREEHAND_POINTS,
+  getShapeBounds
+} from '../utils/annotations';
+
+interface AnnotationLayerProps {
+  /** Pixel size of the image the annotations were drawn on, which their coordinates are in */
+  width: number;
+  height: number;
+  annotations: Annotation[];
+  /** Annotation highlighted, e.g. picked from a list */
+  selectedId?: string | null;
+  /** Shape drawn by dragging over the layer; without one, pointers pass through to the image */
+  tool?: AnnotationTool | null;
+  onDraw?: (shape: AnnotationShape) => void;
+  /** How the layer fills its box, matching the image: `meet` as `object-fit: contain`, `slice` as `cover` */
+  fit?: 'meet' | 'slice';
+  className?: string;
+  style?: CSSProperties;
+}
+
+const STROKE_COLOUR = '#7F5AF0';
+const SELECTED_COLOUR = '#facc15';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Returns the shape being drawn from where a drag started to where it is now
+ */
+const getDraft = (tool: AnnotationTool, start: ImagePoint, [x, y]: ImagePoint, previous: AnnotationShape | null): AnnotationShape => {
+  if (tool === 'freehand') {
+    const points = previous?.type === 'freehand' ? previous.points : [start];
+    const [lastX, lastY] = points[points.length - 1];
+    return (lastX === x && lastY === y) || points.length >= MAX_FREEHAND_POINTS
+      ? { type: 'freehand', points }
+      : { type: 'freehand', points: [...points, [x, y]] };
+  }
+  if (tool === 'point') return { type: 'point', x, y };
+  return {
+    type: tool,
+    x: Math.min(start[0], x),
+    y: Math.min(start[1], y),
+    width: Math.abs(x - start[0]),
+    height: Math.abs(y - start[1])
+  };
+};
+
+const isDrawn = (shape: AnnotationShape) => {
+  switch (shape.type) {
+    case 'rectangle':
+    case 'ellipse':
+      return shape.width > 0 && shape.height > 0;
+    case 'point':
+      return true;
+    case 'freehand':
+      return shape.points.length >= 3;
+  }
+};
+
+/**
+ * SVG layer drawing annotations over an image, in the image's own pixel
+ * coordinates so they stay on their features however the image is zoomed,
+ * panned or resized. Laid over the image with the same box, it scales along
+ * with it.
+ *
+ * With a tool picked, dragging over the layer draws a shape, or clicking
+ * places a point, and `onDraw` receives it in image coordinates. Drawing
+ * assumes the layer's box has the image's aspect ratio.
+ */
+export const AnnotationLayer: FC<AnnotationLayerProps> = ({
+  width,
+  height,
+  annotations,
+  selectedId = null,
+  tool = null,
+  onDraw,
+  fit = 'meet',
+  className = '',
+  style
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const startRef = useRef<ImagePoint | null>(null);
+  // Shape being drawn, also kept in a ref as a drag's last move may not have rendered yet
+  const [draft, setDraft] = useState<AnnotationShape | null>(null);
+  const draftRef = useRef<AnnotationShape | null>(null);
+  // Sizes of markers and labels, in image pixels
+  const unit = Math.max(width, height) / 100;
+
+  /** Returns the image pixel under the pointer, kept inside the image */
+  const toImagePoint = (e: PointerEvent<SVGSVGElement>): ImagePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const toImage = (offset: number, extent: number, size: number) =>
+      extent > 0 ? round(Math.min(size, Math.max(0, (offset / extent) * size))) : 0;
+    return [toImage(e.clientX - rect.left, rect.width, width), toImage(e.clientY - rect.top, rect.height, height)];
+  };
+
+  const updateDraft = (shape: AnnotationShape | null) => {
+    draftRef.current = shape;
+    setDraft(shape);
+  };
+
+  const handlePointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    if (!tool) return;
+    // Keep the image from panning underneath
+    e.stopPropagation();
+    const point = toImagePoint(e);
+    if (tool === 'point') {
+      onDraw?.({ type: 'point', x: point[0], y: point[1] });
+      return;
+    }
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    startRef.current = point;
+    updateDraft(getDraft(tool, point, point, null));
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    const start = startRef.current;
+    if (!tool || !start) return;
+    e.stopPropagation();
+    updateDraft(getDraft(tool, start, toImagePoint(e), draftRef.current));
+  };
+
+  const handlePointerUp = (e: PointerEvent<SVGSVGElement>) => {
+    if (!startRef.current) return;
+    e.stopPropagation();
+    startRef.current = null;
+    const drawn = draftRef.current;
+    if (drawn && isDrawn(drawn)) onDraw?.(drawn);
+    updateDraft(null);
+  };
+
+  const renderShape = (shape: AnnotationShape, colour: string) => {
+    const stroke = { stroke: colour, strokeWidth: 2, vectorEffect: 'non-scaling-stroke' as const, fill: colour, fillOpacity: 0.15 };
+    switch (shape.type) {
+      case 'rectangle':
+        return <rect x={shape.x} y={shape.y} width={shape.width} height={shape.height} {...stroke} />;
+      case 'ellipse':
+        return (
+          <ellipse
+            cx={shape.x + shape.width / 2}
+            cy={shape.y + shape.height / 2}
+            rx={shape.width / 2}
+            ry={shape.height / 2}
+            {...stroke}
+          />
+        );
+      case 'point':
+        return <circle cx={shape.x} cy={shape.y} r={unit} {...stroke} fillOpacity={0.8} />;
+      case 'freehand':
+        return <polygon points={shape.points.map(point => point.join(',')).join(' ')} {...stroke} />;
+    }
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio={`xMidYMid ${fit}`}
+      aria-label="Annotations"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className={`${className} ${tool ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      style={style}
+    >
+      {annotations.map(annotation => {
+        const colour = annotation.id === selectedId ? SELECTED_COLOUR : STROKE_COLOUR;
+        const bounds = getShapeBounds(annotation);
+        const labelY = annotation.type === 'point' ? bounds.y - 1.5 * unit : bounds.y - unit / 2;
+        return (
+          <g key={annotation.id}>
+            <title>{annotation.label}</title>
+            {renderShape(annotation, colour)}
+            <text
+              x={annotation.type === 'point' ? bounds.x + unit : bounds.x}
+              y={Math.max(2 * unit, labelY)}
+              fontSize={2 * unit}
+              fill={colour}
+              stroke="black"
+              strokeWidth={unit / 4}
+              paintOrder="stroke"
+            >
+              {annotation.label}
+            </text>
+          </g>
+        );
+      })}
+      {draft && renderShape(draft, SELECTED_COLOUR)}
+    </svg>
+  );
+};
+
+export default AnnotationLayer;
@@ -0,0 +1,148 @@
+import { useState, useEffect, FC, ChangeEvent } from 'react';
+import { ImageMetadata } from '../services/api';
+import { AnnotationStore } from '../services/annotationStore';
+import { Annotation, AnnotationTool, ANNOTATION_TOOLS, ANNOTATION_TOOL_LABELS, MAX_LABEL_LENGTH } from '../utils/annotations';
+import { saveBlob } from '../utils/download';
+
+interface AnnotationsPanelProps {
+  image: ImageMetadata;
+  /** Images an import may annotate, e.g. the sequence the lightbox steps through */
+  images: ImageMetadata[];
+  annotations: Annotation[];
+  store: AnnotationStore;
+  /** Shape drawn over the image, or null to pan it instead */
+  tool: AnnotationTool | null;
+  onToolChange: (tool: AnnotationTool | null) => void;
+  /** Label given to new annotations */
+  label: string;
+  onLabelChange: (label: string) => void;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+}
+
+const inputClasses = 'bg-gray-700 rounded px-2 py-1 text-sm text-white';
+const buttonClasses = 'px-3 py-1 rounded text-sm font-medium bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:text-gray-500';
+
+/**
+ * Tools drawing region-of-interest annotations over an image, the list of
+ * its annotations to relabel or delete, and their import and export as
+ * JSON or as a COCO dataset.
+ */
+export const AnnotationsPanel: FC<AnnotationsPanelProps> = ({
+  image,
+  images,
+  annotations,
+  store,
+  tool,
+  onToolChange,
+  label,
+  onLabelChange,
+  selectedId,
+  onSelect
+}) => {
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const baseName = image.name.replace(/\.[^.]+$/, '');
+
+  useEffect(() => {
+    setImportMessage(null);
+  }, [image.id]);
+
+  const handleExportJson = () => {
+    saveBlob(new Blob([store.exportJson([image.id])], { type: 'application/json' }), `${baseName}-annotations.json`);
+  };
+
+  const handleExportCoco = () => {
+    saveBlob(new Blob([store.exportCoco([image])], { type: 'application/json' }), `${baseName}-coco.json`);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still triggers a change
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = store.importFile(await file.text(), images);
+      setImportMessage(`Imported ${count} annotation${count === 1 ? '' : 's'}`);
+    } catch (err) {
+      setImportMessage(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-gray-300">
+      <div className="flex flex-wrap gap-1" role="group" aria-label="Annotation tools">
+        {ANNOTATION_TOOLS.map(option => (
+          <button
+            key={option}
+            onClick={() => onToolChange(tool === option ? null : option)}
+            aria-pressed={tool === option}
+            className={`px-2 py-0.5 rounded text-xs ${
+              tool === option ? 'bg-[#7F5AF0] text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {ANNOTATION_TOOL_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      {tool && (
+        <p className="text-xs text-gray-400">
+          {tool === 'point' ? 'Click' : 'Drag'} on the image to draw; press the tool again to pan instead
+        </p>
+      )}
+      <input
+        type="text"
+        value={label}
+        onChange={(e) => onLabelChange(e.target.value)}
+        placeholder={tool ? ANNOTATION_TOOL_LABELS[tool] : 'Label'}
+        maxLength={MAX_LABEL_LENGTH}
+        aria-label="Label of new annotations"
+        className={inputClasses}
+      />
+      {annotations.length === 0 ? (
+        <p className="text-xs text-gray-400">No annotations yet</p>
+      ) : (
+        <ol className="flex flex-col gap-1" aria-label={`Annotations of ${image.name}`}>
+          {annotations.map((annotation, index) => (
+            <li
+              key={annotation.id}
+              className={`flex items-center gap-2 rounded px-1 ${annotation.id === selectedId ? 'bg-gray-700/60' : ''}`}
+            >
+              <span className="w-16 text-xs text-gray-400">{ANNOTATION_TOOL_LABELS[annotation.type]}</span>
+              <input
+                type="text"
+                value={annotation.label}
+                onChange={(e) => store.relabel(image.id, annotation.id, e.target.value)}
+                onFocus={() => onSelect(annotation.id)}
+                maxLength={MAX_LABEL_LENGTH}
+                aria-label={`Label of annotation ${index + 1}`}
+                className={`${inputClasses} flex-1 min-w-0`}
+              />
+              <button
+                onClick={() => store.remove(image.id, annotation.id)}
+                aria-label={`Delete annotation ${index + 1}`}
+                className="text-xs text-gray-400 hover:text-white"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <button onClick={handleExportJson} disabled={annotations.length === 0} className={buttonClasses}>
+          Export JSON
+        </button>
+        <button onClick={handleExportCoco} disabled={annotations.length === 0} className={buttonClasses}>
+          Export COCO
+        </button>
+        <label className={`${buttonClasses} cursor-pointer`}>
+          Import
+          <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+      {importMessage && <p role="status" className="text-xs text-gray-400">{importMessage}</p>}
+    </div>
+  );
+};
+
+export default AnnotationsPanel;
@@ -0,0 +1,298 @@
+import { useState, useEffect, useRef, CSSProperties, FC, PointerEvent } from 'react';
+import { ImageMetadata, imageApi } from '../services/api';
+import type { CompareSettings } from '../services/viewerSettings';
+import { FitMode, Size, ZoomTransform, useZoomPan } from '../hooks/useZoomPan';
+import { usePixelDifference } from '../hooks/usePixelDifference';
+import { COMPARE_LAYOUTS, COMPARE_LAYOUT_LABELS, MIN_AMPLIFICATION, MAX_AMPLIFICATION } from '../utils/compareLayouts';
+
+interface CompareViewProps {
+  /** Images to pick the two compared ones from */
+  images: ImageMetadata[];
+  settings: CompareSettings;
+  onChange: (changes: Partial<CompareSettings>) => void;
+}
+
+const FIT_MODES: { mode: FitMode; label: string }[] = [
+  { mode: 'fit', label: 'Fit' },
+  { mode: 'fill', label: 'Fill' },
+  { mode: 'actual', label: '1:1' }
+];
+
+// Zoom factor of the zoom buttons
+const ZOOM_STEP = 1.25;
+
+const buttonClasses = 'px-3 py-1 rounded text-sm font-medium transition-colors';
+const toggleClasses = (isActive: boolean) =>
+  `${buttonClasses} ${isActive ? 'bg-[#7F5AF0] text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+const inputClasses = 'bg-gray-700 rounded px-2 py-1 text-sm text-white';
+
+/** Positions an image or canvas at its natural size, centred, under the shared transform */
+const getLayerStyle = (transform: ZoomTransform, size?: Size | null): CSSProperties => ({
+  width: size?.width,
+  height: size?.height,
+  transform: `translate(-50%, -50%) translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`
+});
+
+const LAYER_CLASSES = 'absolute left-1/2 top-1/2 max-w-none';
+
+interface ComparisonProps extends CompareViewProps {
+  first: ImageMetadata;
+  second: ImageMetadata;
+}
+
+const Comparison: FC<ComparisonProps> = ({ images, first, second, settings, onChange }) => {
+  const { layout, amplification } = settings;
+  const [firstSize, setFirstSize] = useState<{ id: string; size: Size } | null>(null);
+  // Swipe divider position, or the second image's opacity in an onion skin, from 0 to 1
+  const [mix, setMix] = useState(0.5);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageSize = firstSize?.id === first.id ? firstSize.size : null;
+  const { mode, transform, setMode, zoomBy, pointerHandlers } = useZoomPan(stageRef, imageSize, layout === 'side-by-side' ? 2 : 1);
+  const difference = usePixelDifference(first.id, second.id, amplification, layout === 'difference');
+  const differencePixels = difference.status === 'ready' ? difference.data : null;
+
+  // Drawn once per difference rather than on every render, as panning re-renders constantly
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !differencePixels) return;
+    const imageData = context.createImageData(canvas.width, canvas.height);
+    imageData.data.set(differencePixels);
+    context.putImageData(imageData, 0, 0);
+  }, [differencePixels]);
+
+  /** Moves the swipe divider to the pointer while it is dragged */
+  const handleDividerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.hasPointerCapture?.(e.pointerId)) return;
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setMix(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  const renderImage = (image: ImageMetadata, style?: CSSProperties) => (
+    <img
+      src={imageApi.getImageUrl(image.id)}
+      alt={image.name}
+      draggable={false}
+      onLoad={image === first
+        ? (e) => setFirstSize({
+          id: image.id,
+          size: { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight }
+        })
+        : undefined}
+      style={{ ...getLayerStyle(transform, image === first ? imageSize : null), ...style }}
+      className={`${LAYER_CLASSES} ${imageSize ? '' : 'opacity-0'}`}
+    />
+  );
+
+  const renderCaption = (text: string, className = 'left-2') => (
+    <span className={`absolute top-2 ${className} px-2 py-0.5 rounded bg-black/70 text-xs text-gray-200 pointer-events-none`}>
+      {text}
+    </span>
+  );
+
+  const renderDifference = () => (
+    <>
+      {difference.status === 'ready' && (
+        <canvas
+          ref={canvasRef}
+          width={difference.width}
+          height={difference.height}
+          aria-label={`Difference between ${first.name} and ${second.name}`}
+          style={getLayerStyle(transform, imageSize)}
+          className={LAYER_CLASSES}
+        />
+      )}
+      {/* Only decoded to size the view; the canvas shows the difference */}
+      {renderImage(first, { visibility: 'hidden' })}
+    </>
+  );
+
+  const renderStage = () => {
+    switch (layout) {
+      case 'side-by-side':
+        return (
+          <div className="grid grid-cols-2 h-full divide-x divide-gray-700">
+            <div className="relative overflow-hidden">
+              {renderImage(first)}
+              {renderCaption(`A: ${first.name}`)}
+            </div>
+            <div className="relative overflow-hidden">
+              {renderImage(second)}
+              {renderCaption(`B: ${second.name}`)}
+            </div>
+          </div>
+        );
+      case 'swipe':
+        return (
+          <>
+            {renderImage(first)}
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${mix * 100}%)` }}>
+              {renderImage(second)}
+            </div>
+            <div
+              data-testid="swipe-divider"
+              onPointerDown={(e) => {
+                // Dragging the divider must not pan the images
+                e.stopPropagation();
+                e.currentTarget.setPointerCapture?.(e.pointerId);
+              }}
+              onPointerMove={handleDividerMove}
+              className="absolute top-0 bottom-0 w-4 -ml-2 cursor-ew-resize flex justify-center"
+              style={{ left: `${mix * 100}%` }}
+            >
+              <div className="w-0.5 h-full bg-white/80" />
+            </div>
+            {renderCaption(`A: ${first.name}`)}
+            {renderCaption(`B: ${second.name}`, 'right-2')}
+          </>
+        );
+      case 'onion':
+        return (
+          <>
+            {renderImage(first)}
+            {renderImage(second, { opacity: mix })}
+            {renderCaption(`A: ${first.name}, B: ${second.name} at ${Math.round(mix * 100)}%`)}
+          </>
+        );
+      case 'difference':
+        return renderDifference();
+    }
+  };
+
+  const getDifferenceStatus = () => {
+    switch (difference.status) {
+      case 'idle':
+      case 'loading':
+        return 'Computing the difference…';
+      case 'error':
+        return `Could not compute the difference: ${difference.error}`;
+      case 'ready': {
+        const total = difference.width * difference.height;
+        const share = total > 0 ? (difference.changedPixels / total) * 100 : 0;
+        return [
+          `${difference.changedPixels.toLocaleString()} of ${total.toLocaleString()} pixels differ (${share.toFixed(1)}%)`,
+          difference.isScaled && `${second.name} was scaled to the size of ${first.name}`
+        ].filter(Boolean).join('. ');
+      }
+    }
+  };
+
+  const renderImageSelect = (label: string, value: string, onSelect: (id: string) => void) => (
+    <label className="flex items-center gap-2 text-sm text-gray-300">
+      {label}
+      <select value={value} onChange={(e) => onSelect(e.target.value)} className={`${inputClasses} max-w-[12rem]`}>
+        {images.map(image => (
+          <option key={image.id} value={image.id}>{image.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="container mx-auto px-4 pb-8 flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-center gap-4 bg-gray-800/50 rounded-lg px-6 py-3">
+        {renderImageSelect('Image A', first.id, id => onChange({ firstId: id }))}
+        <button
+          onClick={() => onChange({ firstId: second.id, secondId: first.id })}
+          aria-label="Swap images"
+          className={`${buttonClasses} bg-gray-700 text-gray-300 hover:bg-gray-600`}
+        >
+          ⇄
+        </button>
+        {renderImageSelect('Image B', second.id, id => onChange({ secondId: id }))}
+        <div className="flex gap-2" role="group" aria-label="Comparison layout">
+          {COMPARE_LAYOUTS.map(option => (
+            <button
+              key={option}
+              onClick={() => onChange({ layout: option })}
+              aria-pressed={layout === option}
+              className={toggleClasses(layout === option)}
+            >
+              {COMPARE_LAYOUT_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-gray-300">
+        <div className="flex gap-2">
+          {FIT_MODES.map(({ mode: fitMode, label }) => (
+            <button key={fitMode} onClick={() => setMode(fitMode)} aria-pressed={mode === fitMode} className={toggleClasses(mode === fitMode)}>
+              {label}
+            </button>
+          ))}
+          <button onClick={() => zoomBy(1 / ZOOM_STEP)} aria-label="Zoom out" className={toggleClasses(false)}>
+            −
+          </button>
+          <button onClick={() => zoomBy(ZOOM_STEP)} aria-label="Zoom in" className={toggleClasses(false)}>
+            +
+          </button>
+          <span className="self-center text-gray-400" data-testid="zoom-level">
+            {Math.round(transform.scale * 100)}%
+          </span>
+        </div>
+        {(layout === 'swipe' || layout === 'onion') && (
+          <label className="flex items-center gap-2">
+            {layout === 'swipe' ? 'Divider' : 'Opacity of B'}
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(mix * 100)}
+              onChange={(e) => setMix(Number(e.target.value) / 100)}
+              className="w-40 accent-[#7F5AF0]"
+            />
+          </label>
+        )}
+        {layout === 'difference' && (
+          <label className="flex items-center gap-2">
+            Amplification
+            <input
+              type="range"
+              min={MIN_AMPLIFICATION}
+              max={MAX_AMPLIFICATION}
+              value={amplification}
+              onChange={(e) => onChange({ amplification: Number(e.target.value) })}
+              className="w-40 accent-[#7F5AF0]"
+            />
+            <span className="w-10">×{amplification}</span>
+          </label>
+        )}
+      </div>
+      {layout === 'difference' && (
+        <p role="status" className="text-center text-sm text-gray-400">{getDifferenceStatus()}</p>
+      )}
+      <div
+        ref={stageRef}
+        data-testid="compare-stage"
+        {...pointerHandlers}
+        className="relative h-[70vh] bg-gray-800/30 rounded-lg overflow-hidden cursor-grab active:cursor-grabbing touch-none select-none"
+      >
+        {renderStage()}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Compares two images from the stream side by side, with a swipe divider,
+ * as an onion skin or as their amplified per-pixel difference. Every
+ * layout zooms and pans both images together, fitted to the first one.
+ */
+export const CompareView: FC<CompareViewProps> = ({ images, settings, onChange }) => {
+  // Images missing from the stream fall back to the first two
+  const first = images.find(image => image.id === settings.firstId) ?? images[0];
+  const second = images.find(image => image.id === settings.secondId) ?? images[1] ?? images[0];
+
+  if (!first || !second) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 text-center text-gray-400">
+        No images to compare yet.
+      </div>
+    );
+  }
+  return <Comparison images={images} first={first} second={second} settings={settings} onChange={onChange} />;
+};
+
+export default CompareView;
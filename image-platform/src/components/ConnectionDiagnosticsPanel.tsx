@@ -0,0 +1,110 @@
+import { useState, useEffect, FC } from 'react';
+import { ConnectionDiagnostics, ConnectionPhase } from '../services/imageStreamStore';
+import { TransportName } from '../services/transports';
+import { formatDuration } from '../utils/format';
+
+interface ConnectionDiagnosticsPanelProps {
+  diagnostics: ConnectionDiagnostics;
+  transport: TransportName | null;
+  onReconnect: () => void;
+}
+
+const PHASE_LABELS: Record<ConnectionPhase, string> = {
+  idle: 'Idle',
+  loading: 'Loading images',
+  following: 'Following another tab',
+  connecting: 'Connecting',
+  connected: 'Connected',
+  polling: 'Degraded (polling)',
+  reconnecting: 'Reconnecting',
+  paused: 'Paused',
+  failed: 'Failed'
+};
+
+const TRANSPORT_LABELS: Record<TransportName, string> = {
+  sse: 'Server-sent events',
+  websocket: 'WebSocket',
+  'long-polling': 'Long-polling'
+};
+
+export const ConnectionDiagnosticsPanel: FC<ConnectionDiagnosticsPanelProps> = ({
+  diagnostics,
+  transport,
+  onReconnect
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  // Keep the heartbeat age and retry countdown current while open
+  useEffect(() => {
+    if (!isOpen) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  const { eventCounts } = diagnostics;
+  const rows: [string, string][] = [
+    ['Status', PHASE_LABELS[diagnostics.phase]],
+    ['Role', diagnostics.role === 'leader' ? 'Holds the connection' : diagnostics.role === 'follower' ? 'Follows another tab' : '—'],
+    ['Transport', transport ? TRANSPORT_LABELS[transport] : '—'],
+    ['Last heartbeat', diagnostics.lastHeartbeatAt === null ? 'Never' : `${formatDuration(now - diagnostics.lastHeartbeatAt)} ago`],
+    ['Retry attempt', `${diagnostics.reconnectAttempt}`],
+    ['Next retry', diagnostics.nextReconnectAt === null ? '—' : `in ${formatDuration(diagnostics.nextReconnectAt - now)}`],
+    ['Fallback polling', diagnostics.isFallbackPolling ? 'Active' : 'Inactive'],
+    ['Events', `${eventCounts.UPLOAD} uploads · ${eventCounts.DELETE} deletes · ${eventCounts.HEARTBEAT} heartbeats`]
+  ];
+
+  return (
+    <div className="w-full max-w-2xl">
+      <div className="flex justify-center">
+        <button
+          onClick={() => setIsOpen(open => !open)}
+          aria-expanded={isOpen}
+          className="text-xs text-gray-400 hover:text-gray-200"
+        >
+          {isOpen ? 'Hide Diagnostics' : 'Show Diagnostics'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <section aria-label="Connection diagnostics" className="mt-3 bg-gray-800/30 rounded-lg p-4">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-1 text-sm">
+            {rows.map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-gray-400">{label}</dt>
+                <dd className="text-gray-200">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="mt-4 flex justify-end">
+            <button
+              onClick={onReconnect}
+              className="px-3 py-1 rounded text-sm font-medium bg-[#7F5AF0] text-white hover:bg-[#6B46E0]"
+            >
+              Reconnect now
+            </button>
+          </div>
+
+          <h3 className="mt-4 text-xs font-medium text-gray-400">Connection log</h3>
+          {diagnostics.log.length === 0 ? (
+            <p className="mt-1 text-xs text-gray-500">No transitions yet</p>
+          ) : (
+            <ol aria-label="Connection log" className="mt-1 max-h-48 overflow-y-auto text-xs font-mono">
+              {diagnostics.log.map((entry, index) => (
+                <li key={`${entry.at}-${index}`} className="flex gap-3 text-gray-300">
+                  <span className="text-gray-500">{new Date(entry.at).toLocaleTimeString()}</span>
+                  <span className="w-24 shrink-0 text-gray-400">{PHASE_LABELS[entry.phase]}</span>
+                  <span>{entry.message}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ConnectionDiagnosticsPanel;
@@ -0,0 +1,135 @@
+import { useState, FC, FormEvent } from 'react';
+import { DwellRule, describeDwellRule, parseNamePattern } from '../utils/dwellRules';
+
+interface DwellRulesEditorProps {
+  rules: DwellRule[];
+  onChange: (rules: DwellRule[]) => void;
+}
+
+const inputClasses = 'bg-gray-700 rounded px-2 py-1 text-sm text-white';
+const addButtonClasses = 'px-3 py-1 rounded text-sm font-medium bg-[#7F5AF0] text-white hover:bg-[#6B46E0] disabled:bg-gray-700 disabled:text-gray-400';
+
+/**
+ * Lists the per-image dwell rules and adds new ones, either by name
+ * pattern or proportional to file size. Times are entered in seconds.
+ */
+export const DwellRulesEditor: FC<DwellRulesEditorProps> = ({ rules, onChange }) => {
+  const [pattern, setPattern] = useState('');
+  const [nameDwell, setNameDwell] = useState('10');
+  const [perMegabyte, setPerMegabyte] = useState('2');
+  const [sizeMin, setSizeMin] = useState('2');
+  const [sizeMax, setSizeMax] = useState('20');
+
+  const isPatternValid = pattern === '' || parseNamePattern(pattern) !== null;
+  const toMs = (seconds: string) => Math.round(Number(seconds) * 1000);
+
+  const handleAddNameRule = (e: FormEvent) => {
+    e.preventDefault();
+    if (!pattern || !isPatternValid) return;
+    onChange([...rules, { type: 'name', pattern, dwell: toMs(nameDwell) }]);
+    setPattern('');
+  };
+
+  const handleAddSizeRule = (e: FormEvent) => {
+    e.preventDefault();
+    onChange([...rules, { type: 'size', msPerMegabyte: toMs(perMegabyte), min: toMs(sizeMin), max: toMs(sizeMax) }]);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 bg-gray-800/50 rounded-lg px-6 py-3 text-sm text-gray-300">
+      <div className="flex items-baseline justify-between gap-4">
+        <span>Dwell Rules:</span>
+        <span className="text-xs text-gray-400">First matching rule wins; other images use the cycle interval</span>
+      </div>
+      {rules.length > 0 && (
+        <ol className="flex flex-col gap-1" aria-label="Dwell rules">
+          {rules.map((rule, index) => (
+            <li key={index} className="flex items-center justify-between gap-4 bg-gray-900/40 rounded px-3 py-1">
+              <span>{describeDwellRule(rule)}</span>
+              <button
+                onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                aria-label={`Remove dwell rule ${index + 1}`}
+                className="text-xs text-gray-400 hover:text-red-400"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <form onSubmit={handleAddNameRule} className="flex items-center gap-2">
+        <label className="flex items-center gap-2">
+          Names matching
+          <input
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder="e.g. ^scan"
+            aria-invalid={!isPatternValid}
+            className={`${inputClasses} w-32 ${isPatternValid ? '' : 'ring-1 ring-red-500'}`}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          stay for
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={nameDwell}
+            onChange={(e) => setNameDwell(e.target.value)}
+            aria-label="Seconds for matching names"
+            className={`${inputClasses} w-16`}
+          />
+          s
+        </label>
+        <button type="submit" disabled={!pattern || !isPatternValid} className={addButtonClasses}>
+          Add
+        </button>
+      </form>
+      <form onSubmit={handleAddSizeRule} className="flex items-center gap-2">
+        <label className="flex items-center gap-2">
+          By size:
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={perMegabyte}
+            onChange={(e) => setPerMegabyte(e.target.value)}
+            aria-label="Seconds per megabyte"
+            className={`${inputClasses} w-16`}
+          />
+          s per MB,
+        </label>
+        <label className="flex items-center gap-2">
+          between
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={sizeMin}
+            onChange={(e) => setSizeMin(e.target.value)}
+            aria-label="Minimum seconds"
+            className={`${inputClasses} w-16`}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          and
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={sizeMax}
+            onChange={(e) => setSizeMax(e.target.value)}
+            aria-label="Maximum seconds"
+            className={`${inputClasses} w-16`}
+          />
+          s
+        </label>
+        <button type="submit" className={addButtonClasses}>
+          Add
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default DwellRulesEditor;
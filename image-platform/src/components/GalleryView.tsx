@@ -0,0 +1,402 @@
+import { useState, useEffect, useMemo, useRef, useCallback, FC } from 'react';
+import { ImageMetadata, imageApi } from '../services/api';
+import { useVirtualGrid } from '../hooks/useVirtualGrid';
+import { useEmbeddedMetadata } from '../hooks/useEmbeddedMetadata';
+import { EmbeddedMetadataStore, embeddedMetadataStore } from '../services/embeddedMetadataStore';
+import Lightbox from './Lightbox';
+import {
+  ImageFilter,
+  ImageSort,
+  SortField,
+  EMPTY_FILTER,
+  DEFAULT_SORT,
+  EMBEDDED_SORT_FIELDS,
+  filterImages,
+  sortImages,
+  getMimeTypes
+} from '../utils/imageQuery';
+import { downloadImage } from '../utils/download';
+import { formatFileSize } from '../utils/format';
+
+interface GalleryViewProps {
+  images: ImageMetadata[];
+  onDelete?: (id: string) => Promise<void>;
+  /** Filter and sort to show; when left out, the gallery keeps its own */
+  filter?: ImageFilter;
+  sort?: ImageSort;
+  onFilterChange?: (filter: ImageFilter) => void;
+  onSortChange?: (sort: ImageSort) => void;
+  /** Where embedded metadata is read from, for filtering and sorting by it */
+  metadataStore?: EmbeddedMetadataStore;
+}
+
+const TILE_MIN_WIDTH = 180;
+const TILE_HEIGHT = 200;
+const TILE_GAP = 16;
+
+const SORT_FIELDS: { value: SortField; label: string }[] = [
+  { value: 'uploadedAt', label: 'Upload date' },
+  { value: 'name', label: 'Name' },
+  { value: 'size', label: 'Size' },
+  { value: 'mimeType', label: 'Type' },
+  { value: 'capturedAt', label: 'Capture date' },
+  { value: 'device', label: 'Device' },
+  { value: 'exposureTime', label: 'Exposure' },
+  { value: 'iso', label: 'ISO' }
+];
+
+export const GalleryView: FC<GalleryViewProps> = ({
+  images,
+  onDelete,
+  filter: filterProp,
+  sort: sortProp,
+  onFilterChange,
+  onSortChange,
+  metadataStore = embeddedMetadataStore
+}) => {
+  const [ownFilter, setOwnFilter] = useState<ImageFilter>(EMPTY_FILTER);
+  const [ownSort, setOwnSort] = useState<ImageSort>(DEFAULT_SORT);
+  const filter = filterProp ?? ownFilter;
+  const sort = sortProp ?? ownSort;
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  // Image open in the lightbox, which steps through the visible images
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const closeDetails = useCallback(() => setDetailId(null), []);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const embedded = useEmbeddedMetadata(metadataStore);
+  const mimeTypes = useMemo(() => getMimeTypes(images), [images]);
+  const visibleImages = useMemo(
+    () => sortImages(filterImages(images, filter, embedded), sort, embedded),
+    [images, filter, sort, embedded]
+  );
+  const needsMetadata = filter.metadata.trim() !== '' || EMBEDDED_SORT_FIELDS.includes(sort.field);
+
+  // Images are only fetched and read once filtering or sorting needs them
+  useEffect(() => {
+    if (needsMetadata) metadataStore.request(images);
+  }, [metadataStore, needsMetadata, images]);
+
+  // Images removed from the stream, or hidden by the filter, drop out of the selection automatically
+  const selectedImages = useMemo(
+    () => visibleImages.filter(image => selectedIds.has(image.id)),
+    [visibleImages, selectedIds]
+  );
+
+  const grid = useVirtualGrid(scrollRef, {
+    itemCount: visibleImages.length,
+    minItemWidth: TILE_MIN_WIDTH,
+    rowHeight: TILE_HEIGHT,
+    gap: TILE_GAP
+  });
+
+  const setFilter = (next: ImageFilter) => {
+    setOwnFilter(next);
+    onFilterChange?.(next);
+  };
+
+  const setSort = (next: ImageSort) => {
+    setOwnSort(next);
+    onSortChange?.(next);
+  };
+
+  const updateFilter = (changes: Partial<ImageFilter>) => {
+    setFilter({ ...filter, ...changes });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allVisibleSelected = visibleImages.length > 0 && visibleImages.every(image => selectedIds.has(image.id));
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleImages.map(image => image.id)));
+  };
+
+  const handleBulkDelete = async () => {
+    if (!onDelete) return;
+    setConfirmingDelete(false);
+    setIsBusy(true);
+    setActionError(null);
+
+    const targets = selectedImages;
+    const results = await Promise.allSettled(targets.map(image => onDelete(image.id)));
+    const failed = targets.filter((_, index) => results[index].status === 'rejected');
+
+    setSelectedIds(new Set(failed.map(image => image.id)));
+    if (failed.length > 0) {
+      setActionError(`Failed to delete ${failed.length} of ${targets.length} images: ${failed.map(image => image.name).join(', ')}`);
+    }
+    setIsBusy(false);
+  };
+
+  const handleBulkDownload = async () => {
+    setIsBusy(true);
+    setActionError(null);
+    const failed: string[] = [];
+
+    // Sequential downloads so the browser does not block them as a popup burst
+    for (const image of selectedImages) {
+      try {
+        await downloadImage(image);
+      } catch (err) {
+        console.error('Error downloading image:', err);
+        failed.push(image.name);
+      }
+    }
+
+    if (failed.length > 0) {
+      setActionError(`Failed to download: ${failed.join(', ')}`);
+    }
+    setIsBusy(false);
+  };
+
+  const renderToolbar = () => (
+    <div className="flex flex-wrap items-end gap-4 bg-gray-800/50 rounded-lg px-4 py-3">
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Name
+        <input
+          type="search"
+          value={filter.name}
+          onChange={(e) => updateFilter({ name: e.target.value })}
+          placeholder="Filter by name"
+          className="bg-gray-700 rounded px-2 py-1 text-sm text-white placeholder-gray-400"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Type
+        <select
+          value={filter.mimeType}
+          onChange={(e) => updateFilter({ mimeType: e.target.value })}
+          className="bg-gray-700 rounded px-2 py-1 text-sm text-white"
+        >
+          <option value="">All types</option>
+          {mimeTypes.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Uploaded from
+        <input
+          type="date"
+          value={filter.uploadedFrom}
+          onChange={(e) => updateFilter({ uploadedFrom: e.target.value })}
+          className="bg-gray-700 rounded px-2 py-1 text-sm text-white"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Uploaded to
+        <input
+          type="date"
+          value={filter.uploadedTo}
+          onChange={(e) => updateFilter({ uploadedTo: e.target.value })}
+          className="bg-gray-700 rounded px-2 py-1 text-sm text-white"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Embedded metadata
+        <input
+          type="search"
+          value={filter.metadata}
+          onChange={(e) => updateFilter({ metadata: e.target.value })}
+          placeholder="e.g. Canon or ISO 400"
+          className="bg-gray-700 rounded px-2 py-1 text-sm text-white placeholder-gray-400"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Sort by
+        <select
+          value={sort.field}
+          onChange={(e) => setSort({ ...sort, field: e.target.value as SortField })}
+          className="bg-gray-700 rounded px-2 py-1 text-sm text-white"
+        >
+          {SORT_FIELDS.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </label>
+      <button
+        onClick={() => setSort({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+        aria-label={sort.direction === 'asc' ? 'Sort ascending' : 'Sort descending'}
+        className="px-3 py-1 rounded text-sm font-medium bg-gray-700 text-gray-300 hover:bg-gray-600"
+      >
+        {sort.direction === 'asc' ? '↑ Asc' : '↓ Desc'}
+      </button>
+      <button
+        onClick={() => setFilter(EMPTY_FILTER)}
+        className="px-3 py-1 rounded text-sm font-medium bg-gray-700 text-gray-300 hover:bg-gray-600"
+      >
+        Reset
+      </button>
+    </div>
+  );
+
+  const renderSelectionBar = () => (
+    <div className="flex flex-wrap items-center gap-4 mt-4">
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={allVisibleSelected}
+          onChange={toggleSelectAll}
+          disabled={visibleImages.length === 0}
+        />
+        Select all
+      </label>
+      <span className="text-sm text-gray-400">
+        {selectedImages.length} selected · {visibleImages.length} of {images.length} shown
+      </span>
+      <div className="flex gap-2 ml-auto">
+        <button
+          onClick={handleBulkDownload}
+          disabled={selectedImages.length === 0 || isBusy}
+          className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+            selectedImages.length === 0 || isBusy
+              ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+              : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+          }`}
+        >
+          Download
+        </button>
+        {onDelete && (
+          <button
+            onClick={() => setConfirmingDelete(true)}
+            disabled={selectedImages.length === 0 || isBusy}
+            className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+              selectedImages.length === 0 || isBusy
+                ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                : 'bg-red-600 text-white hover:bg-red-500'
+            }`}
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderTile = (image: ImageMetadata) => {
+    const isSelected = selectedIds.has(image.id);
+    return (
+      <div
+        key={image.id}
+        data-testid="gallery-tile"
+        style={{ width: grid.itemWidth, height: TILE_HEIGHT }}
+        className={`relative bg-gray-800/30 rounded-lg overflow-hidden shadow-lg cursor-pointer ring-2 transition-colors ${
+          isSelected ? 'ring-[#7F5AF0]' : 'ring-transparent hover:ring-gray-600'
+        }`}
+        onClick={() => toggleSelected(image.id)}
+      >
+        <img
+          src={imageApi.getImageUrl(image.id)}
+          alt={image.name}
+          loading="lazy"
+          className="w-full h-[140px] object-cover"
+        />
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={() => toggleSelected(image.id)}
+          onClick={(e) => e.stopPropagation()}
+          aria-label={`Select ${image.name}`}
+          className="absolute top-2 left-2"
+        />
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setDetailId(image.id);
+          }}
+          aria-label={`View details of ${image.name}`}
+          className="absolute top-2 right-2 p-1.5 rounded bg-black/60 text-gray-300 hover:bg-black/80 hover:text-white"
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4h4M20 8V4h-4M4 16v4h4M20 16v4h-4" />
+          </svg>
+        </button>
+        <div className="px-3 py-2">
+          <p className="text-sm text-gray-200 truncate">{image.name}</p>
+          <p className="text-xs text-gray-400">
+            {formatFileSize(image.size)} · {image.uploadedAt.toLocaleDateString()}
+          </p>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto px-4 pb-8">
+      {renderToolbar()}
+      {renderSelectionBar()}
+
+      {confirmingDelete && (
+        <div role="alertdialog" aria-label="Confirm delete" className="mt-4 flex items-center gap-4 bg-red-900/20 border-l-4 border-red-500 p-4 rounded">
+          <p className="text-sm text-red-300">Delete {selectedImages.length} selected images?</p>
+          <button
+            onClick={handleBulkDelete}
+            className="px-3 py-1 rounded text-sm font-medium bg-red-600 text-white hover:bg-red-500"
+          >
+            Confirm Delete
+          </button>
+          <button
+            onClick={() => setConfirmingDelete(false)}
+            className="px-3 py-1 rounded text-sm font-medium bg-gray-700 text-gray-300 hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {actionError && (
+        <p role="alert" className="mt-4 text-sm text-red-400">{actionError}</p>
+      )}
+
+      <div
+        ref={scrollRef}
+        onScroll={grid.handleScroll}
+        data-testid="gallery-scroll"
+        className="mt-4 h-[70vh] overflow-y-auto"
+      >
+        {visibleImages.length === 0 ? (
+          <div className="bg-gray-800/30 rounded-lg p-8 text-center border-2 border-dashed border-gray-700">
+            <p className="text-sm text-gray-400">
+              {images.length === 0 ? 'No images available' : 'No images match the current filters'}
+            </p>
+          </div>
+        ) : (
+          <div className="relative" style={{ height: grid.totalHeight }}>
+            <div
+              className="absolute left-0 right-0 flex flex-wrap"
+              style={{ top: grid.offsetTop, gap: TILE_GAP }}
+            >
+              {visibleImages.slice(grid.startIndex, grid.endIndex).map(renderTile)}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {detailId && (
+        <Lightbox
+          images={visibleImages}
+          imageId={detailId}
+          onImageChange={setDetailId}
+          onClose={closeDetails}
+          metadataStore={metadataStore}
+        />
+      )}
+    </div>
+  );
+};
+
+export default GalleryView;
@@ -0,0 +1,201 @@
+import { useState, FC } from 'react';
+import {
+  Colormap,
+  COLORMAPS,
+  COLORMAP_LABELS,
+  DEFAULT_ADJUSTMENTS,
+  Histogram,
+  ImageAdjustments,
+  Levels,
+  MIN_GAMMA,
+  MAX_GAMMA
+} from '../utils/imageAdjust';
+
+type HistogramChannels = 'luminance' | 'rgb';
+
+interface ImageAdjustmentsPanelProps {
+  adjustments: ImageAdjustments;
+  /** Levels in effect, which auto-stretching computes per image */
+  levels: Levels;
+  /** Histogram of the image shown, null while its pixels load */
+  histogram: Histogram | null;
+  /** Why the pixels could not be read, if they could not */
+  error: string | null;
+  onChange: (adjustments: ImageAdjustments) => void;
+  onExport: () => void;
+}
+
+const HISTOGRAM_HEIGHT = 100;
+
+const CHANNEL_COLOURS: { channel: keyof Histogram; colour: string }[] = [
+  { channel: 'red', colour: '#ef4444' },
+  { channel: 'green', colour: '#22c55e' },
+  { channel: 'blue', colour: '#3b82f6' }
+];
+
+const inputClasses = 'bg-gray-700 rounded px-2 py-1 text-sm text-white';
+const buttonClasses = 'px-3 py-1 rounded text-sm font-medium bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:text-gray-500';
+
+/**
+ * Returns an SVG path outlining pixel counts, scaled so the tallest fills
+ * the histogram's height
+ */
+const getHistogramPath = (counts: Uint32Array, max: number) => {
+  const points = Array.from(counts, (count, value) =>
+    `L${value},${(HISTOGRAM_HEIGHT * (1 - count / max)).toFixed(1)}`);
+  return `M0,${HISTOGRAM_HEIGHT} ${points.join(' ')} L255,${HISTOGRAM_HEIGHT} Z`;
+};
+
+/**
+ * Histogram of the image shown, with its black and white levels marked, and
+ * the controls of the canvas rendering path: levels, gamma, auto-stretch,
+ * the colormap and exporting the adjusted image.
+ */
+export const ImageAdjustmentsPanel: FC<ImageAdjustmentsPanelProps> = ({
+  adjustments,
+  levels,
+  histogram,
+  error,
+  onChange,
+  onExport
+}) => {
+  const [channels, setChannels] = useState<HistogramChannels>('luminance');
+  const update = (changes: Partial<ImageAdjustments>) => onChange({ ...adjustments, ...changes });
+
+  const renderHistogram = () => {
+    if (error) return <p role="alert" className="text-xs text-red-400">Could not read the image: {error}</p>;
+    if (!histogram) return <p className="text-xs text-gray-400">Reading pixels…</p>;
+    const shown = channels === 'luminance'
+      ? [{ channel: 'luminance' as const, colour: '#d1d5db' }]
+      : CHANNEL_COLOURS;
+    const max = Math.max(1, ...shown.flatMap(({ channel }) => Array.from(histogram[channel])));
+
+    return (
+      <svg
+        role="img"
+        aria-label={channels === 'luminance' ? 'Luminance histogram' : 'RGB histogram'}
+        viewBox={`0 0 255 ${HISTOGRAM_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-24 bg-black/40 rounded"
+      >
+        {shown.map(({ channel, colour }) => (
+          <path key={channel} d={getHistogramPath(histogram[channel], max)} fill={colour} fillOpacity={0.6} />
+        ))}
+        {[levels.black, levels.white].map((level, index) => (
+          <line
+            key={index}
+            x1={level}
+            x2={level}
+            y1={0}
+            y2={HISTOGRAM_HEIGHT}
+            stroke="#7F5AF0"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-gray-300">
+      <div className="flex items-center justify-between gap-2">
+        <span>Histogram</span>
+        <div className="flex gap-1" role="group" aria-label="Histogram channels">
+          {(['luminance', 'rgb'] as HistogramChannels[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setChannels(option)}
+              aria-pressed={channels === option}
+              className={`px-2 py-0.5 rounded text-xs ${
+                channels === option ? 'bg-[#7F5AF0] text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {option === 'luminance' ? 'Luminance' : 'RGB'}
+            </button>
+          ))}
+        </div>
+      </div>
+      {renderHistogram()}
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={adjustments.autoStretch}
+          onChange={(e) => update({ autoStretch: e.target.checked })}
+          className="accent-[#7F5AF0]"
+        />
+        Auto-stretch each image
+      </label>
+      <label className="flex items-center gap-2">
+        <span className="w-12">Black</span>
+        <input
+          type="range"
+          min={0}
+          max={254}
+          value={levels.black}
+          onChange={(e) => {
+            const black = Number(e.target.value);
+            update({ black, white: Math.max(adjustments.white, black + 1) });
+          }}
+          disabled={adjustments.autoStretch}
+          aria-label="Black level"
+          className="flex-1 accent-[#7F5AF0]"
+        />
+        <span className="w-8 text-right">{levels.black}</span>
+      </label>
+      <label className="flex items-center gap-2">
+        <span className="w-12">White</span>
+        <input
+          type="range"
+          min={1}
+          max={255}
+          value={levels.white}
+          onChange={(e) => {
+            const white = Number(e.target.value);
+            update({ white, black: Math.min(adjustments.black, white - 1) });
+          }}
+          disabled={adjustments.autoStretch}
+          aria-label="White level"
+          className="flex-1 accent-[#7F5AF0]"
+        />
+        <span className="w-8 text-right">{levels.white}</span>
+      </label>
+      <label className="flex items-center gap-2">
+        <span className="w-12">Gamma</span>
+        <input
+          type="range"
+          min={MIN_GAMMA}
+          max={MAX_GAMMA}
+          step={0.05}
+          value={adjustments.gamma}
+          onChange={(e) => update({ gamma: Number(e.target.value) })}
+          aria-label="Gamma"
+          className="flex-1 accent-[#7F5AF0]"
+        />
+        <span className="w-8 text-right">{adjustments.gamma.toFixed(2)}</span>
+      </label>
+      <label className="flex items-center gap-2">
+        Colormap
+        <select
+          value={adjustments.colormap}
+          onChange={(e) => update({ colormap: e.target.value as Colormap })}
+          className={`${inputClasses} flex-1`}
+        >
+          {COLORMAPS.map(colormap => (
+            <option key={colormap} value={colormap}>{COLORMAP_LABELS[colormap]}</option>
+          ))}
+        </select>
+      </label>
+      <div className="flex gap-2">
+        <button onClick={() => onChange(DEFAULT_ADJUSTMENTS)} className={buttonClasses}>
+          Reset
+        </button>
+        <button onClick={onExport} disabled={!histogram} className={buttonClasses}>
+          Export PNG
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImageAdjustmentsPanel;
@@ -1,5 +1,23 @@
-import { useState, useEffect, FC } from 'react';
-import { ImageMetadata } from '../services/api';
+import { useState, useEffect, useMemo, useRef, useCallback, FC, KeyboardEvent } from 'react';
+import { ImageMetadata, imageApi } from '../services/api';
+import { AnnotationStore, annotationStore } from '../services/annotationStore';
+import {
+  useCarouselNavigation,
+  getKeyboardAction,
+  NavigationAction,
+  NavigationCommand
+} from '../hooks/useCarouselNavigation';
+import { useCachedImageUrl } from '../hooks/useCachedImageUrl';
+import { useImagePreloader } from '../hooks/useImagePreloader';
+import ImageTransition from './ImageTransition';
+import Lightbox from './Lightbox';
+import ImageAdjustmentsPanel from './ImageAdjustmentsPanel';
+import AnnotationLayer from './AnnotationLayer';
+import { useImageAdjustments } from '../hooks/useImageAdjustments';
+import { useAnnotations } from '../hooks/useAnnotations';
+import { DEFAULT_ADJUSTMENTS } from '../utils/imageAdjust';
+import { DwellRule, getDwellTime } from '../utils/dwellRules';
+import { TransitionMode, DEFAULT_TRANSITION_DURATION } from '../utils/transitions';
 
 interface ImageCarouselProps {
   images: ImageMetadata[];
@@ -9,8 +27,32 @@ interface ImageCarouselProps {
   startIndex?: number;
   compact?: boolean;
   cycleInterval?: number;
+  /** Rules giving images their own time on screen; others get the cycle interval */
+  dwellRules?: DwellRule[];
+  /** Longest time in ms to wait for the next image to decode before showing it anyway */
+  readyTimeout?: number;
+  transition?: TransitionMode;
+  /** Length of each transition in ms, capped at half the cycle interval */
+  transitionDuration?: number;
+  onDelete?: (id: string) => Promise<void>;
+  /** Command broadcast by the viewer, applied relative to startIndex */
+  command?: NavigationCommand | null;
+  /** When set, local controls and shortcuts are forwarded here instead of applied */
+  onNavigate?: (action: NavigationAction) => void;
+  onFocus?: () => void;
+  /** Compares the shown image with the one before it, offered by a button and the C key */
+  onCompare?: (previous: ImageMetadata, current: ImageMetadata) => void;
+  /** Fills its container and hides every control, for wall displays */
+  kiosk?: boolean;
+  /** Where the annotations drawn over the shown image come from */
+  annotationStore?: AnnotationStore;
 }
 
+const NO_DWELL_RULES: DwellRule[] = [];
+
+// Elements that handle their own keys, so shortcuts must not fire from them
+const INTERACTIVE_TAGS = ['INPUT', 'SELECT', 'TEXTAREA', 'BUTTON'];
+
 export const ImageCarousel: FC<ImageCarouselProps> = ({
   images,
   error,
@@ -18,37 +60,126 @@ export const ImageCarousel: FC<ImageCarouselProps> = ({
   isConnected,
   startIndex = 0,
   compact = false,
-  cycleInterval = 3000
+  cycleInterval = 3000,
+  dwellRules = NO_DWELL_RULES,
+  readyTimeout,
+  transition = 'none',
+  transitionDuration = DEFAULT_TRANSITION_DURATION,
+  onDelete,
+  command,
+  onNavigate,
+  onFocus,
+  onCompare,
+  kiosk = false,
+  annotationStore: store = annotationStore
 }) => {
-  // Initialize currentIndex with startIndex
-  const [currentIndex, setCurrentIndex] = useState(startIndex);
+  // Image awaiting delete confirmation; cycling pauses while it is set
+  const [deleteCandidate, setDeleteCandidate] = useState<ImageMetadata | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  // Image open in the lightbox; cycling pauses while it is set too
+  const [detailId, setDetailId] = useState<string | null>(null);
+  // Whether the image due on screen, or its adjusted pixels, is still loading; the frame's schedule holds until it is shown
+  const [isAwaitingImage, setIsAwaitingImage] = useState(false);
+  // While the server is unreachable, keep cycling the last known images
+  const isShowingCached = error !== null && !isLoading && images.length > 0;
+  // Without rules every image gets the cycle interval, keeping frames in lockstep
+  const getDwell = useMemo(
+    () => dwellRules.length > 0
+      ? (image: ImageMetadata) => getDwellTime(image, dwellRules, cycleInterval)
+      : undefined,
+    [dwellRules, cycleInterval]
+  );
+  const { currentIndex, isPaused, applyAction } = useCarouselNavigation({
+    images,
+    startIndex,
+    cycleInterval,
+    isActive: (isConnected || isShowingCached) && !deleteCandidate && !detailId && !isAwaitingImage,
+    getDwell
+  });
+  // The previous image stays up until the current one is decoded
+  const { displayIndex, isWaiting } = useImagePreloader({ images, currentIndex, cycleInterval, readyTimeout });
+  // Online, show the network URL the preloader decoded rather than a copy
+  const imageUrl = useCachedImageUrl(
+    images.length > 0 ? images[displayIndex % images.length].id : null,
+    isShowingCached
+  );
+  // Canvas rendering path with levels and a colormap, while adjusting. The
+  // canvas keeps the previous image until the next one's pixels are ready.
+  const adjuster = useImageAdjustments(
+    images.length > 0 ? images[displayIndex % images.length] : null,
+    { holdWhileLoading: true }
+  );
+  useEffect(() => {
+    setIsAwaitingImage(isWaiting || adjuster.isLoading);
+  }, [isWaiting, adjuster.isLoading]);
+  const { adjustments, pixels } = adjuster;
+  const annotations = useAnnotations(store);
 
-  // Update currentIndex when images array changes
+  // Apply each broadcast command once. Jumps are shifted by startIndex
+  // so frames keep their relative offsets when driven together.
+  // A command already present at mount predates this frame and is skipped.
+  const appliedCommandRef = useRef<number | null>(command?.id ?? null);
   useEffect(() => {
-    if (images.length === 0) {
-      setCurrentIndex(0);
+    if (!command || command.id === appliedCommandRef.current) return;
+    appliedCommandRef.current = command.id;
+
+    const { action } = command;
+    const length = images.length;
+    if (action.type === 'goto' || action.type === 'first' || action.type === 'last') {
+      const base = action.type === 'goto' ? action.index : action.type === 'first' ? 0 : length - 1;
+      if (base < length) {
+        applyAction({ type: 'goto', index: (base + startIndex) % length });
+      }
     } else {
-      // When images change, maintain the offset pattern by using startIndex
-      setCurrentIndex(startIndex % images.length);
+      applyAction(action);
     }
-  }, [images.length, startIndex]);
+  }, [command, images.length, startIndex, applyAction]);
 
-  // Handle automatic image cycling while maintaining the offset
-  useEffect(() => {
-    if (images.length <= 1 || !isConnected) return;
+  const navigate = (action: NavigationAction) => {
+    if (onNavigate) {
+      onNavigate(action);
+    } else {
+      applyAction(action);
+    }
+  };
+
+  const canCompare = onCompare !== undefined && images.length > 1;
 
-    const interval = setInterval(() => {
-      setCurrentIndex(current => {
-        // Calculate next index while maintaining the same relative position
-        const nextIndex = (current + 1) % images.length;
-        return nextIndex;
-      });
-    }, cycleInterval);
+  /** Compares the shown image with the one before it in the sequence */
+  const compareWithPrevious = () => {
+    const index = displayIndex % images.length;
+    onCompare?.(images[(index - 1 + images.length) % images.length], images[index]);
+  };
 
-    return () => clearInterval(interval);
-  }, [images.length, isConnected, cycleInterval]);
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (INTERACTIVE_TAGS.includes((e.target as HTMLElement).tagName)) return;
+    if (canCompare && (e.key === 'c' || e.key === 'C')) {
+      e.preventDefault();
+      compareWithPrevious();
+      return;
+    }
+    const action = getKeyboardAction(e.key);
+    if (!action) return;
+    e.preventDefault();
+    navigate(action);
+  };
+
+  const closeDetails = useCallback(() => setDetailId(null), []);
+
+  const handleConfirmDelete = async () => {
+    if (!deleteCandidate || !onDelete) return;
+    const { id, name } = deleteCandidate;
+    setDeleteCandidate(null);
+    setDeleteError(null);
+    try {
+      await onDelete(id);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'Unknown error';
+      setDeleteError(`Failed to delete ${name}: ${reason}`);
+    }
+  };
 
-  const containerClasses = compact
+  const containerClasses = compact || kiosk
     ? "w-full h-full"
     : "w-full";
 
@@ -64,7 +195,7 @@ export const ImageCarousel: FC<ImageCarouselProps> = ({
     return 'text-emerald-300/80';
   };
 
-  if (error) {
+  if (error && !isShowingCached) {
     return (
       <div className={containerClasses}>
         <div className="bg-red-900/20 border-l-4 border-red-500 p-4 rounded">
@@ -86,7 +217,7 @@ export const ImageCarousel: FC<ImageCarouselProps> = ({
     );
   }
 
-  if (!isConnected) {
+  if (!isConnected && !isShowingCached) {
     return (
       <div className={containerClasses}>
         <div className="bg-yellow-900/20 border-l-4 border-yellow-500 p-4 rounded">
@@ -134,35 +265,240 @@ export const ImageCarousel: FC<ImageCarouselProps> = ({
     );
   }
 
-  // Ensure currentIndex is valid
-  const safeCurrentIndex = currentIndex % images.length;
+  // Ensure the displayed index is valid
+  const safeCurrentIndex = displayIndex % images.length;
   const currentImage = images[safeCurrentIndex];
-  const imageUrl = `/api/images/${currentImage.id}`;
+
+  const currentAnnotations = annotations[currentImage.id];
+
+  const controlButtonClasses = `${compact ? 'p-1' : 'p-1.5'} rounded bg-white/10 text-gray-200 hover:bg-white/20 transition-colors`;
+
+  const renderPlaybackControls = () => (
+    <div className="flex items-center gap-1">
+      <button onClick={() => navigate({ type: 'prev' })} aria-label="Previous image" className={controlButtonClasses}>
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+      </button>
+      <button
+        onClick={() => navigate({ type: 'toggle' })}
+        aria-label={isPaused ? 'Play' : 'Pause'}
+        className={controlButtonClasses}
+      >
+        {isPaused ? (
+          <svg className="h-4 w-4" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M8 5v14l11-7z" />
+          </svg>
+        ) : (
+          <svg className="h-4 w-4" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+          </svg>
+        )}
+      </button>
+      <button onClick={() => navigate({ type: 'next' })} aria-label="Next image" className={controlButtonClasses}>
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+      </button>
+      <button
+        onClick={() => setDetailId(currentImage.id)}
+        aria-label={`View details of ${currentImage.name}`}
+        className={controlButtonClasses}
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4h4M20 8V4h-4M4 16v4h4M20 16v4h-4" />
+        </svg>
+      </button>
+      <button
+        onClick={() => adjuster.setAdjustments(adjustments ? null : DEFAULT_ADJUSTMENTS)}
+        aria-label="Adjust levels and colours"
+        aria-pressed={adjustments !== null}
+        className={`${controlButtonClasses} ${adjustments ? 'ring-1 ring-[#7F5AF0]' : ''}`}
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16M9 4v4M15 10v4M7 16v4" />
+        </svg>
+      </button>
+      {canCompare && (
+        <button
+          onClick={compareWithPrevious}
+          aria-label={`Compare ${currentImage.name} with the previous image`}
+          title="Compare with the previous image (C)"
+          className={controlButtonClasses}
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v18M4 6h5v12H4zM15 6h5v12h-5z" />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+
+  const renderThumbnailStrip = () => (
+    <div className="flex gap-2 mt-3 overflow-x-auto pb-2" aria-label="Image thumbnails">
+      {images.map((image, index) => (
+        <button
+          key={image.id}
+          onClick={() => navigate({ type: 'goto', index })}
+          aria-label={`Jump to ${image.name}`}
+          aria-current={index === safeCurrentIndex}
+          className={`flex-shrink-0 w-20 h-12 rounded overflow-hidden ring-2 transition-colors ${
+            index === safeCurrentIndex ? 'ring-[#7F5AF0]' : 'ring-transparent hover:ring-gray-500'
+          }`}
+        >
+          {/* Decorative: the button label already names the image */}
+          <img src={imageApi.getImageUrl(image.id)} alt="" aria-hidden="true" loading="lazy" className="w-full h-full object-cover" />
+        </button>
+      ))}
+    </div>
+  );
 
   return (
-    <div className={containerClasses}>
+    <div
+      className={containerClasses}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      onFocus={onFocus}
+      aria-label={`Image carousel${isPaused ? ' (paused)' : ''}`}
+    >
       <div className="relative aspect-video bg-gray-800/30 rounded-lg overflow-hidden shadow-lg h-full">
-        <img
-          src={imageUrl}
+        <ImageTransition
+          src={imageUrl ?? undefined}
           alt={currentImage.name}
-          className="w-full h-full object-cover"
+          mode={transition}
+          duration={Math.min(transitionDuration, cycleInterval / 2)}
+          displayDuration={getDwell ? getDwell(currentImage) : cycleInterval}
           onError={(e) => {
             e.currentTarget.src = 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" width="100%" height="100%" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" ry="2"/><circle cx="8.5" cy="8.5" r="1.5"/><polyline points="21 15 16 10 5 21"/></svg>';
-            e.currentTarget.className = "w-full h-full object-contain p-8 text-gray-600";
+            e.currentTarget.className = "absolute inset-0 w-full h-full object-contain p-8 text-gray-600";
           }}
         />
+        {adjustments && pixels && (
+          <canvas
+            ref={adjuster.canvasRef}
+            width={pixels.width}
+            height={pixels.height}
+            aria-label={`${currentImage.name}, adjusted`}
+            className="absolute inset-0 w-full h-full object-cover"
+          />
+        )}
+        {/* A Ken Burns pan would slide the image out from under its annotations */}
+        {currentAnnotations && transition !== 'kenburns' && (
+          <AnnotationLayer
+            width={currentAnnotations.width}
+            height={currentAnnotations.height}
+            annotations={currentAnnotations.annotations}
+            fit="slice"
+            className="absolute inset-0 w-full h-full"
+          />
+        )}
+        {isShowingCached && (
+          <div
+            role="status"
+            title={error ?? undefined}
+            className="absolute top-2 left-2 flex items-center gap-1.5 px-2 py-1 rounded bg-black/70 text-xs text-amber-300"
+          >
+            <span className="w-2 h-2 rounded-full bg-amber-400" aria-hidden="true" />
+            Offline — showing cached images
+          </div>
+        )}
+        {onDelete && !deleteCandidate && !kiosk && (
+          <button
+            onClick={() => setDeleteCandidate(currentImage)}
+            aria-label={`Delete ${currentImage.name}`}
+            className="absolute top-2 right-2 p-2 rounded-lg bg-black/60 text-gray-300 hover:bg-red-600 hover:text-white transition-colors"
+          >
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        )}
+        {deleteCandidate && (
+          <div
+            role="alertdialog"
+            aria-label="Confirm delete"
+            className="absolute inset-0 flex items-center justify-center bg-black/60"
+          >
+            <div className="bg-gray-900 rounded-lg p-4 text-center shadow-lg">
+              <p className="text-sm text-gray-200">Delete {deleteCandidate.name}?</p>
+              <div className="mt-3 flex justify-center gap-2">
+                <button
+                  onClick={handleConfirmDelete}
+                  className="px-3 py-1 rounded text-sm font-medium bg-red-600 text-white hover:bg-red-500"
+                >
+                  Delete
+                </button>
+                <button
+                  onClick={() => setDeleteCandidate(null)}
+                  className="px-3 py-1 rounded text-sm font-medium bg-gray-700 text-gray-300 hover:bg-gray-600"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+        {deleteError && (
+          <div role="alert" className="absolute top-0 left-0 right-0 flex items-start justify-between gap-2 bg-red-900/90 p-2">
+            <p className="text-xs text-red-200">{deleteError}</p>
+            <button
+              onClick={() => setDeleteError(null)}
+              className="text-xs text-red-200 hover:text-white"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
         <div className="absolute bottom-0 left-0 right-0 bg-black/70 backdrop-blur-sm text-white p-4">
-          <h3 className={`${compact ? 'text-sm' : 'text-lg'} font-semibold`}>{currentImage.name}</h3>
-          <p className={`${compact ? 'text-xs' : 'text-sm'} text-gray-300`}>
-            Frame {safeCurrentIndex + 1} of {images.length}
-          </p>
-          {!compact && (
-            <p className="text-xs text-gray-400">
-              Captured at {new Date(currentImage.uploadedAt).toLocaleString()}
-            </p>
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <h3 className={`${compact ? 'text-sm' : 'text-lg'} font-semibold`}>{currentImage.name}</h3>
+              <p className={`${compact ? 'text-xs' : 'text-sm'} text-gray-300`}>
+                Frame {safeCurrentIndex + 1} of {images.length}
+              </p>
+              {!compact && (
+                <p className="text-xs text-gray-400">
+                  Captured at {currentImage.uploadedAt.toLocaleString()}
+                </p>
+              )}
+            </div>
+            {!kiosk && renderPlaybackControls()}
+          </div>
+          {compact && !kiosk && images.length > 1 && (
+            <input
+              type="range"
+              min={0}
+              max={images.length - 1}
+              value={safeCurrentIndex}
+              onChange={(e) => navigate({ type: 'goto', index: Number(e.target.value) })}
+              aria-label="Jump to image"
+              className="w-full mt-2 accent-[#7F5AF0]"
+            />
           )}
         </div>
       </div>
+      {!compact && !kiosk && images.length > 1 && renderThumbnailStrip()}
+      {adjustments && adjuster.levels && !kiosk && (
+        <section aria-label="Levels and colours" className="mt-3 bg-gray-800/50 rounded-lg p-4">
+          <ImageAdjustmentsPanel
+            adjustments={adjustments}
+            levels={adjuster.levels}
+            histogram={adjuster.histogram}
+            error={adjuster.error}
+            onChange={adjuster.setAdjustments}
+            onExport={adjuster.exportPng}
+          />
+        </section>
+      )}
+      {detailId && (
+        <Lightbox
+          images={images}
+          imageId={detailId}
+          onImageChange={setDetailId}
+          onClose={closeDetails}
+          annotationStore={store}
+        />
+      )}
     </div>
   );
 };
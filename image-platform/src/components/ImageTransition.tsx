@@ -0,0 +1,105 @@
+import { useState, useEffect, CSSProperties, FC, SyntheticEvent } from 'react';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { TransitionMode, DEFAULT_TRANSITION_DURATION } from '../utils/transitions';
+
+interface ImageTransitionProps {
+  src: string | undefined;
+  alt: string;
+  mode: TransitionMode;
+  /** Length of the change from one image to the next, in ms */
+  duration?: number;
+  /** Time each image stays on screen, which a Ken Burns pan spans */
+  displayDuration: number;
+  onError?: (e: SyntheticEvent<HTMLImageElement>) => void;
+}
+
+interface Layer {
+  src: string | undefined;
+  /** Increases with every image, so each one mounts its own element */
+  key: number;
+}
+
+const LAYER_CLASSES = 'absolute inset-0 w-full h-full object-cover';
+
+/**
+ * Returns the animation for the image being shown, or, with `outgoing`
+ * set, for the image it replaces. Ken Burns pans alternate direction.
+ */
+const getAnimation = (mode: TransitionMode, layer: Layer, outgoing: boolean, duration: number, displayDuration: number) => {
+  switch (mode) {
+    case 'none':
+      return undefined;
+    case 'crossfade':
+      // The outgoing image stays put underneath the one fading in
+      return outgoing ? undefined : `image-fade-in ${duration}ms ease-in-out both`;
+    case 'slide':
+      return `${outgoing ? 'image-slide-out' : 'image-slide-in'} ${duration}ms ease-in-out both`;
+    case 'kenburns': {
+      // Unchanged once outgoing, so its pan carries on while it fades out
+      const pan = layer.key % 2 === 0 ? 'image-ken-burns-in' : 'image-ken-burns-out';
+      return `image-fade-in ${duration}ms ease-in-out both, ${pan} ${displayDuration + duration}ms linear both`;
+    }
+  }
+};
+
+/**
+ * Double-buffered image: when `src` changes, the previous image stays
+ * mounted underneath while the new one transitions in, then is dropped.
+ * Slides and Ken Burns pans become crossfades when the user prefers
+ * reduced motion.
+ */
+export const ImageTransition: FC<ImageTransitionProps> = ({
+  src,
+  alt,
+  mode,
+  duration = DEFAULT_TRANSITION_DURATION,
+  displayDuration,
+  onError
+}) => {
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const effectiveMode = prefersReducedMotion && mode !== 'none' ? 'crossfade' : mode;
+  const [current, setCurrent] = useState<Layer>({ src, key: 0 });
+  const [previous, setPrevious] = useState<Layer | null>(null);
+
+  // Swap buffers as soon as the image changes, rather than a render later
+  if (src !== current.src) {
+    setPrevious(effectiveMode === 'none' ? null : current);
+    setCurrent({ src, key: current.key + 1 });
+  }
+
+  useEffect(() => {
+    if (!previous) return;
+    const timeout = setTimeout(() => setPrevious(null), duration);
+    return () => clearTimeout(timeout);
+  }, [previous, duration]);
+
+  const getStyle = (layer: Layer, outgoing: boolean): CSSProperties => ({
+    animation: getAnimation(effectiveMode, layer, outgoing, duration, displayDuration)
+  });
+
+  return (
+    <>
+      {previous && (
+        <img
+          key={previous.key}
+          src={previous.src}
+          alt=""
+          aria-hidden="true"
+          data-testid="outgoing-image"
+          className={LAYER_CLASSES}
+          style={getStyle(previous, true)}
+        />
+      )}
+      <img
+        key={current.key}
+        src={current.src}
+        alt={alt}
+        className={LAYER_CLASSES}
+        style={getStyle(current, false)}
+        onError={onError}
+      />
+    </>
+  );
+};
+
+export default ImageTransition;
@@ -1,40 +1,196 @@
-import { useState, FC } from 'react';
+import { useState, useRef, useEffect, useMemo, FC } from 'react';
 import ImageCarousel from './ImageCarousel';
+import GalleryView from './GalleryView';
+import PlaybackControls from './PlaybackControls';
+import ConnectionDiagnosticsPanel from './ConnectionDiagnosticsPanel';
+import DwellRulesEditor from './DwellRulesEditor';
+import PlaylistEditor from './PlaylistEditor';
+import CompareView from './CompareView';
+import { TransitionMode, TRANSITION_MODES, TRANSITION_LABELS } from '../utils/transitions';
 import { useImageStream } from '../hooks/useImageStream';
+import { useViewerSettings } from '../hooks/useViewerSettings';
+import { usePlaylists } from '../hooks/usePlaylists';
+import { useStreamAutoRecovery } from '../hooks/useKioskMode';
+import { NavigationAction, NavigationCommand } from '../hooks/useCarouselNavigation';
+import { PlaybackClockContext } from '../hooks/usePlaybackClock';
+import { PlaybackClock } from '../services/playbackClock';
+import { ImageMetadata } from '../services/api';
+import { resolvePlaylist } from '../services/playlistStore';
+import {
+  CycleSpeed,
+  CYCLE_SPEEDS,
+  CYCLE_INTERVALS,
+  MIN_CYCLE_INTERVAL,
+  MAX_CYCLE_INTERVAL,
+  TRANSITION_DURATIONS,
+  READY_TIMEOUTS,
+  MIN_FRAMES,
+  MAX_FRAMES
+} from '../services/viewerSettings';
 
-type ViewMode = 'single' | 'multi';
-type CycleSpeed = 'slow' | 'normal' | 'fast';
+// The slider covers the usual intervals finely; longer ones up to
+// MAX_CYCLE_INTERVAL are typed into the number input
+const SLIDER_MAX_CYCLE_INTERVAL = 30000;
 
-const MIN_FRAMES = 1;
-const MAX_FRAMES = 10;
-const DEFAULT_FRAMES = 4;
+type ControlScope = 'focused' | 'all';
 
-const CYCLE_INTERVALS: Record<CycleSpeed, number> = {
-  slow: 5000,    // 5 seconds
-  normal: 3000,  // 3 seconds
-  fast: 1000     // 1 second
-};
+interface FrameCommand extends NavigationCommand {
+  /** Frame index the command is meant for, or every frame */
+  target: number | 'all';
+}
+
+interface ImageViewerProps {
+  /** Shows only the frames, without any controls */
+  kiosk?: boolean;
+  /** In kiosk mode, reload the page after the stream has been down this long, in ms */
+  reloadAfter?: number;
+}
+
+export const ImageViewer: FC<ImageViewerProps> = ({ kiosk = false, reloadAfter = 0 }) => {
+  // Layout and playback settings, kept across reloads and in the URL
+  const [settings, updateSettings] = useViewerSettings();
+  const {
+    frameCount,
+    cycleInterval,
+    dwellRules,
+    transition,
+    transitionDuration,
+    readyTimeout,
+    frameTransitions,
+    framePlaylists
+  } = settings;
+  // The gallery and comparisons are interactive, so kiosks show the single frame instead
+  const viewMode = kiosk && (settings.viewMode === 'gallery' || settings.viewMode === 'compare')
+    ? 'single'
+    : settings.viewMode;
+  const isPlayingFrames = viewMode === 'single' || viewMode === 'multi';
+  const [controlScope, setControlScope] = useState<ControlScope>('focused');
+  const [focusedFrame, setFocusedFrame] = useState(0);
+  const [frameCommand, setFrameCommand] = useState<FrameCommand | null>(null);
+  const [isEditingPlaylists, setIsEditingPlaylists] = useState(false);
+  const commandIdRef = useRef(0);
+  // Single clock driving every frame, so frames cannot drift apart
+  const [clock] = useState(() => new PlaybackClock({ interval: cycleInterval }));
+  const {
+    images,
+    error,
+    isLoading,
+    isConnected,
+    transport,
+    diagnostics,
+    deleteImage,
+    reconnectNow
+  } = useImageStream();
+  const playlists = usePlaylists();
+
+  // Resolved once per change, so frames get the same array on every render
+  const playlistImages = useMemo(
+    () => new Map(playlists.map(playlist => [playlist.id, resolvePlaylist(playlist, images)])),
+    [playlists, images]
+  );
+
+  useEffect(() => {
+    clock.setInterval(cycleInterval);
+  }, [clock, cycleInterval]);
+
+  useStreamAutoRecovery(isConnected, reloadAfter, kiosk);
+
+  const sendFrameCommand = (action: NavigationAction, target: number | 'all') => {
+    commandIdRef.current += 1;
+    setFrameCommand({ id: commandIdRef.current, action, target });
+  };
+
+  /**
+   * Applies an action to every frame. Steps and pausing go through the shared
+   * clock; jumps are broadcast so each frame keeps its own offset.
+   */
+  const applyToAllFrames = (action: NavigationAction) => {
+    // With dwell rules, clock steps no longer line up with images
+    if (dwellRules.length > 0 && (action.type === 'next' || action.type === 'prev')) {
+      return sendFrameCommand(action, 'all');
+    }
+    switch (action.type) {
+      case 'next': return clock.step(1);
+      case 'prev': return clock.step(-1);
+      case 'toggle': return clock.toggle();
+      case 'pause': return clock.pause();
+      case 'play': return clock.play();
+      default: return sendFrameCommand(action, 'all');
+    }
+  };
+
+  const navigateFrames = (action: NavigationAction) => {
+    if (controlScope === 'all') {
+      applyToAllFrames(action);
+    } else {
+      sendFrameCommand(action, focusedFrame);
+    }
+  };
+
+  const getFrameCommand = (index: number) =>
+    frameCommand && (frameCommand.target === 'all' || frameCommand.target === index)
+      ? frameCommand
+      : null;
+
+  /**
+   * Returns the per-frame transitions with one frame's changed, or with
+   * null removed so the frame uses the shared transition again
+   */
+  const withFrameTransition = (index: number, mode: TransitionMode | null) => {
+    const next = { ...frameTransitions };
+    delete next[index];
+    return mode ? { ...next, [index]: mode } : next;
+  };
+
+  /**
+   * Returns the per-frame playlists with one frame's changed, or with null
+   * removed so the frame plays every image again
+   */
+  const withFramePlaylist = (index: number, id: string | null) => {
+    const next = { ...framePlaylists };
+    delete next[index];
+    return id ? { ...next, [index]: id } : next;
+  };
 
-export const ImageViewer: FC = () => {
-  const [viewMode, setViewMode] = useState<ViewMode>('single');
-  const [frameCount, setFrameCount] = useState(DEFAULT_FRAMES);
-  const [cycleSpeed, setCycleSpeed] = useState<CycleSpeed>('normal');
-  const { images, error, isLoading, isConnected } = useImageStream();
+  /**
+   * Returns the images a frame plays: its playlist's, or every image when it
+   * has none or its playlist was deleted
+   */
+  const getFrameImages = (index: number) => {
+    const id = framePlaylists[index];
+    return (id !== undefined && playlistImages.get(id)) || images;
+  };
 
   const handleAddFrame = () => {
     if (frameCount < MAX_FRAMES) {
-      setFrameCount(prev => prev + 1);
+      updateSettings({ frameCount: frameCount + 1 });
     }
   };
 
   const handleRemoveFrame = () => {
     if (frameCount > MIN_FRAMES) {
-      setFrameCount(prev => prev - 1);
+      updateSettings({
+        frameCount: frameCount - 1,
+        frameTransitions: withFrameTransition(frameCount - 1, null),
+        framePlaylists: withFramePlaylist(frameCount - 1, null)
+      });
+      setFocusedFrame(prev => Math.min(prev, frameCount - 2));
     }
   };
 
+  /** Opens compare mode on two images, e.g. a frame's current image and the one before it */
+  const handleCompare = (first: ImageMetadata, second: ImageMetadata) => {
+    updateSettings({ viewMode: 'compare', compare: { ...settings.compare, firstId: first.id, secondId: second.id } });
+  };
+
   const handleSpeedChange = (speed: CycleSpeed) => {
-    setCycleSpeed(speed);
+    updateSettings({ cycleInterval: CYCLE_INTERVALS[speed] });
+  };
+
+  const handleIntervalChange = (seconds: number) => {
+    if (!Number.isFinite(seconds)) return;
+    const interval = Math.round(seconds * 1000);
+    updateSettings({ cycleInterval: Math.min(MAX_CYCLE_INTERVAL, Math.max(MIN_CYCLE_INTERVAL, interval)) });
   };
 
   const getConnectionStatusText = () => {
@@ -87,15 +243,22 @@ export const ImageViewer: FC = () => {
           Add Frame
         </button>
       </div>
+      {renderCycleControls()}
+      {renderNavigationControls()}
+    </div>
+  );
+
+  const renderCycleControls = () => (
+    <>
       <div className="flex items-center gap-6 bg-gray-800/50 rounded-lg px-6 py-3">
         <span className="text-sm text-gray-300">Cycle Speed:</span>
         <div className="flex gap-2">
-          {(['slow', 'normal', 'fast'] as CycleSpeed[]).map((speed) => (
+          {CYCLE_SPEEDS.map((speed) => (
             <button
               key={speed}
               onClick={() => handleSpeedChange(speed)}
               className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
-                cycleSpeed === speed
+                cycleInterval === CYCLE_INTERVALS[speed]
                   ? 'bg-[#7F5AF0] text-white'
                   : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
               }`}
@@ -104,16 +267,171 @@ export const ImageViewer: FC = () => {
             </button>
           ))}
         </div>
+        <input
+          type="range"
+          min={MIN_CYCLE_INTERVAL / 1000}
+          max={SLIDER_MAX_CYCLE_INTERVAL / 1000}
+          step={0.5}
+          value={Math.min(SLIDER_MAX_CYCLE_INTERVAL, cycleInterval) / 1000}
+          onChange={(e) => handleIntervalChange(Number(e.target.value))}
+          aria-label="Cycle interval slider"
+          className="w-32 accent-[#7F5AF0]"
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="number"
+            min={MIN_CYCLE_INTERVAL / 1000}
+            max={MAX_CYCLE_INTERVAL / 1000}
+            step={0.5}
+            value={cycleInterval / 1000}
+            onChange={(e) => handleIntervalChange(e.target.valueAsNumber)}
+            aria-label="Cycle interval in seconds"
+            className="w-16 bg-gray-700 rounded px-2 py-1 text-sm text-white"
+          />
+          s
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          Wait for slow images
+          <select
+            value={readyTimeout}
+            onChange={(e) => updateSettings({ readyTimeout: Number(e.target.value) })}
+            className="bg-gray-700 rounded px-2 py-1 text-sm text-white"
+          >
+            {READY_TIMEOUTS.map(timeout => (
+              <option key={timeout} value={timeout}>{timeout / 1000} s</option>
+            ))}
+          </select>
+        </label>
       </div>
+      {renderTransitionControls()}
+      <DwellRulesEditor rules={dwellRules} onChange={rules => updateSettings({ dwellRules: rules })} />
+    </>
+  );
+
+  const renderTransitionControls = () => (
+    <div className="flex items-center gap-6 bg-gray-800/50 rounded-lg px-6 py-3">
+      <span className="text-sm text-gray-300">Transition:</span>
+      <div className="flex gap-2">
+        {TRANSITION_MODES.map((mode) => (
+          <button
+            key={mode}
+            onClick={() => updateSettings({ transition: mode })}
+            className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+              transition === mode
+                ? 'bg-[#7F5AF0] text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {TRANSITION_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        Duration
+        <select
+          value={transitionDuration}
+          onChange={(e) => updateSettings({ transitionDuration: Number(e.target.value) })}
+          disabled={transition === 'none'}
+          className="bg-gray-700 rounded px-2 py-1 text-sm text-white disabled:text-gray-400"
+        >
+          {TRANSITION_DURATIONS.map(duration => (
+            <option key={duration} value={duration}>{duration} ms</option>
+          ))}
+        </select>
+      </label>
     </div>
   );
 
+  const renderPlaylistSelect = (index: number, label: string, className: string) => (
+    <select
+      value={framePlaylists[index] !== undefined && playlistImages.has(framePlaylists[index]) ? framePlaylists[index] : ''}
+      onChange={(e) => updateSettings({ framePlaylists: withFramePlaylist(index, e.target.value || null) })}
+      aria-label={label}
+      className={className}
+    >
+      <option value="">All images</option>
+      {playlists.map(playlist => (
+        <option key={playlist.id} value={playlist.id}>{playlist.name || 'Untitled'}</option>
+      ))}
+    </select>
+  );
+
+  const renderPlaylistControls = () => (
+    <>
+      <div className="flex items-center gap-6 bg-gray-800/50 rounded-lg px-6 py-3">
+        {viewMode === 'single' && (
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            Playlist:
+            {renderPlaylistSelect(0, 'Playlist', 'bg-gray-700 rounded px-2 py-1 text-sm text-white')}
+          </label>
+        )}
+        <button
+          onClick={() => setIsEditingPlaylists(prev => !prev)}
+          aria-expanded={isEditingPlaylists}
+          className="px-3 py-1 rounded text-sm font-medium bg-gray-700 text-gray-300 hover:bg-gray-600"
+        >
+          {isEditingPlaylists ? 'Done Editing Playlists' : 'Edit Playlists'}
+        </button>
+      </div>
+      {isEditingPlaylists && <PlaylistEditor images={images} />}
+    </>
+  );
+
+  const renderNavigationControls = () => {
+    const targetLabel = controlScope === 'all' ? 'all frames' : `frame ${focusedFrame + 1}`;
+
+    return (
+      <div className="flex items-center gap-6 bg-gray-800/50 rounded-lg px-6 py-3">
+        <span className="text-sm text-gray-300">Controls apply to:</span>
+        <div className="flex gap-2">
+          {(['focused', 'all'] as ControlScope[]).map((scope) => (
+            <button
+              key={scope}
+              onClick={() => setControlScope(scope)}
+              className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                controlScope === scope
+                  ? 'bg-[#7F5AF0] text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {scope === 'focused' ? 'Focused Frame' : 'All Frames'}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => navigateFrames({ type: 'prev' })}
+            aria-label={`Previous image in ${targetLabel}`}
+            className="px-3 py-1 rounded text-sm bg-gray-700 text-gray-300 hover:bg-gray-600"
+          >
+            ◀
+          </button>
+          <button
+            onClick={() => navigateFrames({ type: 'toggle' })}
+            aria-label={`Toggle playback in ${targetLabel}`}
+            className="px-3 py-1 rounded text-sm bg-gray-700 text-gray-300 hover:bg-gray-600"
+          >
+            ⏯
+          </button>
+          <button
+            onClick={() => navigateFrames({ type: 'next' })}
+            aria-label={`Next image in ${targetLabel}`}
+            className="px-3 py-1 rounded text-sm bg-gray-700 text-gray-300 hover:bg-gray-600"
+          >
+            ▶
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   const renderModeSelector = () => (
     <div className="flex flex-col items-center gap-4 mb-8">
       {renderConnectionStatus()}
+      <ConnectionDiagnosticsPanel diagnostics={diagnostics} transport={transport} onReconnect={reconnectNow} />
       <div className="flex justify-center gap-4">
         <button
-          onClick={() => setViewMode('single')}
+          onClick={() => updateSettings({ viewMode: 'single' })}
           disabled={!isConnected}
           className={`px-6 py-2 rounded-lg font-medium transition-colors ${
             !isConnected
@@ -126,7 +444,7 @@ export const ImageViewer: FC = () => {
           Single Frame
         </button>
         <button
-          onClick={() => setViewMode('multi')}
+          onClick={() => updateSettings({ viewMode: 'multi' })}
           disabled={!isConnected}
           className={`px-6 py-2 rounded-lg font-medium transition-colors ${
             !isConnected
@@ -138,20 +456,56 @@ export const ImageViewer: FC = () => {
         >
           Multi-Frame
         </button>
+        <button
+          onClick={() => updateSettings({ viewMode: 'gallery' })}
+          disabled={!isConnected}
+          className={`px-6 py-2 rounded-lg font-medium transition-colors ${
+            !isConnected
+              ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+              : viewMode === 'gallery'
+              ? 'bg-[#7F5AF0] text-white'
+              : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+          }`}
+        >
+          Gallery
+        </button>
+        <button
+          onClick={() => updateSettings({ viewMode: 'compare' })}
+          disabled={!isConnected}
+          className={`px-6 py-2 rounded-lg font-medium transition-colors ${
+            !isConnected
+              ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+              : viewMode === 'compare'
+              ? 'bg-[#7F5AF0] text-white'
+              : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+          }`}
+        >
+          Compare
+        </button>
       </div>
       
+      {isPlayingFrames && <PlaybackControls clock={clock} />}
+      {isPlayingFrames && renderPlaylistControls()}
+      {viewMode === 'single' && renderCycleControls()}
       {viewMode === 'multi' && renderFrameControls()}
     </div>
   );
 
   const renderSingleFrame = () => (
-    <div className="max-w-5xl mx-auto px-4">
+    <div className={kiosk ? 'h-screen' : 'max-w-5xl mx-auto px-4'}>
       <ImageCarousel
-        images={images}
+        images={getFrameImages(0)}
         error={error}
         isLoading={isLoading}
         isConnected={isConnected}
-        cycleInterval={CYCLE_INTERVALS[cycleSpeed]}
+        cycleInterval={cycleInterval}
+        dwellRules={dwellRules}
+        transition={transition}
+        transitionDuration={transitionDuration}
+        readyTimeout={readyTimeout}
+        onDelete={deleteImage}
+        onCompare={kiosk ? undefined : handleCompare}
+        kiosk={kiosk}
       />
     </div>
   );
@@ -159,16 +513,44 @@ export const ImageViewer: FC = () => {
   const renderMultiFrame = () => {
     // Generate frames with distributed offsets
     const frames = Array.from({ length: frameCount }, (_, index) => (
-      <div key={`frame-${index}`} className="aspect-video">
-        <ImageCarousel
-          images={images}
-          error={error}
-          isLoading={isLoading}
-          isConnected={isConnected}
-          startIndex={index}
-          cycleInterval={CYCLE_INTERVALS[cycleSpeed]}
-          compact
-        />
+      <div key={`frame-${index}`}>
+        {!kiosk && <div className="flex justify-end gap-2 mb-1">
+          {renderPlaylistSelect(index, `Playlist for frame ${index + 1}`, 'bg-gray-800 rounded px-2 py-0.5 text-xs text-gray-300')}
+          <select
+            value={frameTransitions[index] ?? ''}
+            onChange={(e) => updateSettings({
+              frameTransitions: withFrameTransition(index, (e.target.value || null) as TransitionMode | null)
+            })}
+            aria-label={`Transition for frame ${index + 1}`}
+            className="bg-gray-800 rounded px-2 py-0.5 text-xs text-gray-300"
+          >
+            <option value="">Shared ({TRANSITION_LABELS[transition]})</option>
+            {TRANSITION_MODES.map(mode => (
+              <option key={mode} value={mode}>{TRANSITION_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>}
+        <div className="aspect-video">
+          <ImageCarousel
+            images={getFrameImages(index)}
+            error={error}
+            isLoading={isLoading}
+            isConnected={isConnected}
+            startIndex={index}
+            cycleInterval={cycleInterval}
+            dwellRules={dwellRules}
+            transition={frameTransitions[index] ?? transition}
+            transitionDuration={transitionDuration}
+            readyTimeout={readyTimeout}
+            onDelete={deleteImage}
+            command={getFrameCommand(index)}
+            onNavigate={controlScope === 'all' ? applyToAllFrames : undefined}
+            onFocus={() => setFocusedFrame(index)}
+            onCompare={kiosk ? undefined : handleCompare}
+            kiosk={kiosk}
+            compact
+          />
+        </div>
       </div>
     ));
 
@@ -176,19 +558,49 @@ export const ImageViewer: FC = () => {
     const gridCols = frameCount <= 4 ? 'md:grid-cols-2' : 'md:grid-cols-3';
 
     return (
-      <div className="container mx-auto px-4 pb-8">
-        <div className={`grid grid-cols-1 ${gridCols} gap-6`}>
+      <div className={kiosk ? 'p-4' : 'container mx-auto px-4 pb-8'}>
+        <div className={`grid grid-cols-1 ${gridCols} ${kiosk ? 'gap-4' : 'gap-6'}`}>
           {frames}
         </div>
       </div>
     );
   };
 
+  const renderGallery = () => (
+    <GalleryView
+      images={images}
+      onDelete={deleteImage}
+      filter={settings.filter}
+      sort={settings.sort}
+      onFilterChange={filter => updateSettings({ filter })}
+      onSortChange={sort => updateSettings({ sort })}
+    />
+  );
+
+  const renderCompare = () => (
+    <CompareView
+      images={images}
+      settings={settings.compare}
+      onChange={changes => updateSettings({ compare: { ...settings.compare, ...changes } })}
+    />
+  );
+
+  const renderView = () => {
+    switch (viewMode) {
+      case 'single': return renderSingleFrame();
+      case 'multi': return renderMultiFrame();
+      case 'gallery': return renderGallery();
+      case 'compare': return renderCompare();
+    }
+  };
+
   return (
-    <div className="py-8">
-      {renderModeSelector()}
-      {viewMode === 'single' ? renderSingleFrame() : renderMultiFrame()}
-    </div>
+    <PlaybackClockContext.Provider value={clock}>
+      <div className={kiosk ? '' : 'py-8'}>
+        {!kiosk && renderModeSelector()}
+        {renderView()}
+      </div>
+    </PlaybackClockContext.Provider>
   );
 };
 
@@ -0,0 +1,329 @@
+import { useState, useEffect, useRef, FC, KeyboardEvent } from 'react';
+import { createPortal } from 'react-dom';
+import { ImageMetadata, imageApi } from '../services/api';
+import { EmbeddedMetadataStore, embeddedMetadataStore } from '../services/embeddedMetadataStore';
+import { AnnotationStore, annotationStore } from '../services/annotationStore';
+import { FitMode, Size, useZoomPan } from '../hooks/useZoomPan';
+import { useEmbeddedMetadata } from '../hooks/useEmbeddedMetadata';
+import { useImageAdjustments } from '../hooks/useImageAdjustments';
+import { useAnnotations } from '../hooks/useAnnotations';
+import ImageAdjustmentsPanel from './ImageAdjustmentsPanel';
+import AnnotationLayer from './AnnotationLayer';
+import AnnotationsPanel from './AnnotationsPanel';
+import { DEFAULT_ADJUSTMENTS } from '../utils/imageAdjust';
+import { AnnotationShape, AnnotationTool, ANNOTATION_TOOL_LABELS } from '../utils/annotations';
+import { describeEmbeddedMetadata } from '../utils/embeddedMetadata';
+import { formatFileSize } from '../utils/format';
+
+interface LightboxProps {
+  /** Sequence the lightbox steps through, e.g. a frame's images or the gallery's visible ones */
+  images: ImageMetadata[];
+  /** Image shown; the lightbox closes if it leaves the sequence */
+  imageId: string;
+  onImageChange: (id: string) => void;
+  onClose: () => void;
+  /** Where the image's embedded metadata, such as EXIF tags, is read from */
+  metadataStore?: EmbeddedMetadataStore;
+  /** Where the region-of-interest annotations of images are kept */
+  annotationStore?: AnnotationStore;
+}
+
+const FIT_MODES: { mode: FitMode; label: string }[] = [
+  { mode: 'fit', label: 'Fit' },
+  { mode: 'fill', label: 'Fill' },
+  { mode: 'actual', label: '1:1' }
+];
+
+// Elements that handle their own keys, which only Escape is taken from
+const INPUT_TAGS = ['INPUT', 'SELECT', 'TEXTAREA'];
+
+// Zoom factor of the zoom buttons and keys
+const ZOOM_STEP = 1.25;
+
+const buttonClasses = 'px-3 py-1 rounded text-sm font-medium transition-colors';
+
+/**
+ * Full-screen view of one image, zoomed with the mouse wheel, a pinch or
+ * the +/- keys and panned by dragging, with a side panel listing its
+ * metadata, the pixel size of the decoded image and the metadata embedded
+ * in the file. Adjusting shows the image on a canvas, with levels and a
+ * colormap applied. Regions of interest are annotated over the image, in
+ * its pixel coordinates. ←/→ step through the sequence it was opened from
+ * and Escape closes it.
+ */
+export const Lightbox: FC<LightboxProps> = ({
+  images,
+  imageId,
+  onImageChange,
+  onClose,
+  metadataStore = embeddedMetadataStore,
+  annotationStore: store = annotationStore
+}) => {
+  const index = images.findIndex(image => image.id === imageId);
+  const image = index >= 0 ? images[index] : null;
+  const [dimensions, setDimensions] = useState<{ id: string; size: Size } | null>(null);
+  const [copyStatus, setCopyStatus] = useState<string | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const imageSize = dimensions?.id === imageId ? dimensions.size : null;
+  const { mode, transform, setMode, zoomBy, pointerHandlers } = useZoomPan(stageRef, imageSize);
+  const embedded = useEmbeddedMetadata(metadataStore);
+  const adjuster = useImageAdjustments(image);
+  const { adjustments, pixels } = adjuster;
+  const annotationsByImage = useAnnotations(store);
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool | null>(null);
+  const [annotationLabel, setAnnotationLabel] = useState('');
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+
+  // Deleted while open, e.g. from another tab
+  useEffect(() => {
+    if (!image) onClose();
+  }, [image, onClose]);
+
+  // Take focus for the keyboard, and give it back on close
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    dialogRef.current?.focus();
+    return () => previous?.focus?.();
+  }, []);
+
+  useEffect(() => {
+    setCopyStatus(null);
+  }, [imageId]);
+
+  useEffect(() => {
+    if (image) metadataStore.request([image]);
+  }, [image, metadataStore]);
+
+  if (!image) return null;
+
+  const step = (delta: number) => {
+    onImageChange(images[(index + delta + images.length) % images.length].id);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    // Keep keys from reaching a carousel the lightbox was opened from
+    e.stopPropagation();
+    if ((e.target as HTMLElement).tagName === 'BUTTON' && (e.key === 'Enter' || e.key === ' ')) return;
+    if (INPUT_TAGS.includes((e.target as HTMLElement).tagName) && e.key !== 'Escape') return;
+    switch (e.key) {
+      case 'Escape': onClose(); break;
+      case 'ArrowLeft': step(-1); break;
+      case 'ArrowRight': step(1); break;
+      case '+':
+      case '=': zoomBy(ZOOM_STEP); break;
+      case '-': zoomBy(1 / ZOOM_STEP); break;
+      default: return;
+    }
+    e.preventDefault();
+  };
+
+  const handleCopyId = () => {
+    if (!navigator.clipboard) {
+      setCopyStatus('Copying is not available');
+      return;
+    }
+    navigator.clipboard.writeText(image.id).then(
+      () => setCopyStatus('Copied'),
+      () => setCopyStatus('Copy failed')
+    );
+  };
+
+  const imageAnnotations = annotationsByImage[image.id];
+  // Annotations keep the coordinates of the size they were drawn at
+  const annotationSize = imageAnnotations ?? imageSize;
+
+  const handleDraw = (shape: AnnotationShape) => {
+    if (!annotationSize) return;
+    const label = annotationLabel.trim() || ANNOTATION_TOOL_LABELS[shape.type];
+    const added = store.add(image.id, annotationSize, shape, label);
+    if (added) setSelectedAnnotationId(added.id);
+  };
+
+  const imageTransform = `translate(-50%, -50%) translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`;
+
+  const renderField = (label: string, value: string) => (
+    <div key={label}>
+      <dt className="text-xs text-gray-400">{label}</dt>
+      <dd className="text-sm text-gray-200 break-all">{value}</dd>
+    </div>
+  );
+
+  const renderEmbeddedMetadata = () => {
+    if (!embedded.has(image.id)) return <p className="text-sm text-gray-400">Reading…</p>;
+    const metadata = embedded.get(image.id);
+    const fields = metadata ? describeEmbeddedMetadata(metadata) : [];
+    if (fields.length === 0) return <p className="text-sm text-gray-400">None found</p>;
+    return (
+      <dl className="flex flex-col gap-3">
+        {fields.map(([label, value]) => renderField(label, value))}
+      </dl>
+    );
+  };
+
+  return createPortal(
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Details of ${image.name}`}
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      className="fixed inset-0 z-50 flex bg-black/95 text-white outline-none"
+    >
+      <div className="relative flex-1 flex flex-col min-w-0">
+        <div className="flex items-center justify-between gap-4 p-3">
+          <div className="flex gap-2">
+            {FIT_MODES.map(({ mode: fitMode, label }) => (
+              <button
+                key={fitMode}
+                onClick={() => setMode(fitMode)}
+                aria-pressed={mode === fitMode}
+                className={`${buttonClasses} ${
+                  mode === fitMode ? 'bg-[#7F5AF0] text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+            <button onClick={() => zoomBy(1 / ZOOM_STEP)} aria-label="Zoom out" className={`${buttonClasses} bg-gray-700 text-gray-300 hover:bg-gray-600`}>
+              −
+            </button>
+            <button onClick={() => zoomBy(ZOOM_STEP)} aria-label="Zoom in" className={`${buttonClasses} bg-gray-700 text-gray-300 hover:bg-gray-600`}>
+              +
+            </button>
+            <span className="self-center text-sm text-gray-400" data-testid="zoom-level">
+              {Math.round(transform.scale * 100)}%
+            </span>
+            <button
+              onClick={() => adjuster.setAdjustments(adjustments ? null : DEFAULT_ADJUSTMENTS)}
+              aria-pressed={adjustments !== null}
+              className={`${buttonClasses} ${
+                adjustments ? 'bg-[#7F5AF0] text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              Adjust
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => step(-1)} aria-label="Show previous image" className={`${buttonClasses} bg-gray-700 text-gray-300 hover:bg-gray-600`}>
+              ◀
+            </button>
+            <span className="text-sm text-gray-400">{index + 1} of {images.length}</span>
+            <button onClick={() => step(1)} aria-label="Show next image" className={`${buttonClasses} bg-gray-700 text-gray-300 hover:bg-gray-600`}>
+              ▶
+            </button>
+            <button onClick={onClose} aria-label="Close" className={`${buttonClasses} bg-gray-700 text-gray-300 hover:bg-gray-600`}>
+              ✕
+            </button>
+          </div>
+        </div>
+        <div
+          ref={stageRef}
+          data-testid="lightbox-stage"
+          {...pointerHandlers}
+          className="relative flex-1 overflow-hidden cursor-grab active:cursor-grabbing touch-none select-none"
+        >
+          <img
+            key={image.id}
+            src={imageApi.getImageUrl(image.id)}
+            alt={image.name}
+            draggable={false}
+            onLoad={(e) => setDimensions({
+              id: image.id,
+              size: { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight }
+            })}
+            style={{
+              width: imageSize?.width,
+              height: imageSize?.height,
+              transform: imageTransform,
+              // Still decoded while adjusting, to size the view
+              visibility: adjustments && pixels ? 'hidden' : undefined
+            }}
+            className={`absolute left-1/2 top-1/2 max-w-none ${imageSize ? '' : 'opacity-0'}`}
+          />
+          {adjustments && pixels && (
+            <canvas
+              ref={adjuster.canvasRef}
+              width={pixels.width}
+              height={pixels.height}
+              aria-label={`${image.name}, adjusted`}
+              style={{
+                width: imageSize?.width ?? pixels.width,
+                height: imageSize?.height ?? pixels.height,
+                transform: imageTransform
+              }}
+              className="absolute left-1/2 top-1/2 max-w-none"
+            />
+          )}
+          {imageSize && annotationSize && (imageAnnotations || annotationTool) && (
+            <AnnotationLayer
+              width={annotationSize.width}
+              height={annotationSize.height}
+              annotations={imageAnnotations?.annotations ?? []}
+              selectedId={selectedAnnotationId}
+              tool={annotationTool}
+              onDraw={handleDraw}
+              style={{ width: imageSize.width, height: imageSize.height, transform: imageTransform }}
+              className="absolute left-1/2 top-1/2 max-w-none overflow-visible"
+            />
+          )}
+        </div>
+      </div>
+      <aside className="w-72 flex-shrink-0 bg-gray-900 p-4 overflow-y-auto" aria-label="Image metadata">
+        <h2 className="text-lg font-semibold break-words mb-4">{image.name}</h2>
+        <dl className="flex flex-col gap-3">
+          {renderField('Dimensions', imageSize ? `${imageSize.width} × ${imageSize.height} px` : 'Loading…')}
+          {renderField('Size', `${formatFileSize(image.size)} (${image.size.toLocaleString()} bytes)`)}
+          {renderField('Type', image.mimeType)}
+          {renderField('Uploaded', image.uploadedAt.toLocaleString())}
+          <div>
+            <dt className="text-xs text-gray-400">ID</dt>
+            <dd className="flex items-center gap-2">
+              <code className="text-sm text-gray-200 break-all">{image.id}</code>
+              <button onClick={handleCopyId} className="text-xs text-gray-400 hover:text-white flex-shrink-0">
+                Copy
+              </button>
+            </dd>
+            {copyStatus && <p role="status" className="text-xs text-gray-400 mt-1">{copyStatus}</p>}
+          </div>
+        </dl>
+        <section aria-label="Annotations" className="mt-6">
+          <h3 className="text-sm font-semibold text-gray-300 mb-3">Annotations</h3>
+          <AnnotationsPanel
+            image={image}
+            images={images}
+            annotations={imageAnnotations?.annotations ?? []}
+            store={store}
+            tool={annotationTool}
+            onToolChange={setAnnotationTool}
+            label={annotationLabel}
+            onLabelChange={setAnnotationLabel}
+            selectedId={selectedAnnotationId}
+            onSelect={setSelectedAnnotationId}
+          />
+        </section>
+        {adjustments && adjuster.levels && (
+          <section aria-label="Levels and colours" className="mt-6">
+            <h3 className="text-sm font-semibold text-gray-300 mb-3">Levels and colours</h3>
+            <ImageAdjustmentsPanel
+              adjustments={adjustments}
+              levels={adjuster.levels}
+              histogram={adjuster.histogram}
+              error={adjuster.error}
+              onChange={adjuster.setAdjustments}
+              onExport={adjuster.exportPng}
+            />
+          </section>
+        )}
+        <section aria-label="Embedded metadata" className="mt-6">
+          <h3 className="text-sm font-semibold text-gray-300 mb-3">Embedded metadata</h3>
+          {renderEmbeddedMetadata()}
+        </section>
+      </aside>
+    </div>,
+    document.body
+  );
+};
+
+export default Lightbox;
@@ -0,0 +1,61 @@
+import { FC } from 'react';
+import { PlaybackClock, PLAYBACK_SPEEDS } from '../services/playbackClock';
+import { usePlaybackClockState } from '../hooks/usePlaybackClock';
+
+interface PlaybackControlsProps {
+  clock: PlaybackClock;
+}
+
+/**
+ * Global transport for the shared playback clock: pausing, stepping or
+ * changing speed here drives every frame at once
+ */
+export const PlaybackControls: FC<PlaybackControlsProps> = ({ clock }) => {
+  const { isPlaying, speed } = usePlaybackClockState(clock);
+
+  return (
+    <div className="flex items-center gap-6 bg-gray-800/50 rounded-lg px-6 py-3">
+      <span className="text-sm text-gray-300">Playback:</span>
+      <div className="flex gap-2">
+        <button
+          onClick={() => clock.step(-1)}
+          aria-label="Step all frames back"
+          className="px-3 py-1 rounded text-sm bg-gray-700 text-gray-300 hover:bg-gray-600"
+        >
+          ⏮
+        </button>
+        <button
+          onClick={() => clock.toggle()}
+          className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+            isPlaying
+              ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              : 'bg-[#7F5AF0] text-white'
+          }`}
+        >
+          {isPlaying ? 'Pause All' : 'Play All'}
+        </button>
+        <button
+          onClick={() => clock.step(1)}
+          aria-label="Step all frames forward"
+          className="px-3 py-1 rounded text-sm bg-gray-700 text-gray-300 hover:bg-gray-600"
+        >
+          ⏭
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        Playback speed
+        <select
+          value={speed}
+          onChange={(e) => clock.setSpeed(Number(e.target.value))}
+          className="bg-gray-700 rounded px-2 py-1 text-sm text-white"
+        >
+          {PLAYBACK_SPEEDS.map(option => (
+            <option key={option} value={option}>{option}×</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default PlaybackControls;
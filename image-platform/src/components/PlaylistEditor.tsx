@@ -0,0 +1,258 @@
+import { useState, useMemo, FC, FormEvent, ChangeEvent, DragEvent } from 'react';
+import { ImageMetadata } from '../services/api';
+import { Playlist, PlaylistStore, playlistStore } from '../services/playlistStore';
+import { usePlaylists } from '../hooks/usePlaylists';
+import { parseNamePattern } from '../utils/dwellRules';
+import { getMimeTypes } from '../utils/imageQuery';
+import { saveBlob } from '../utils/download';
+
+interface PlaylistEditorProps {
+  /** Every image, to add to playlists and to show playlist entries by name */
+  images: ImageMetadata[];
+  store?: PlaylistStore;
+}
+
+const inputClasses = 'bg-gray-700 rounded px-2 py-1 text-sm text-white';
+const buttonClasses = 'px-3 py-1 rounded text-sm font-medium bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:text-gray-500';
+const addButtonClasses = 'px-3 py-1 rounded text-sm font-medium bg-[#7F5AF0] text-white hover:bg-[#6B46E0] disabled:bg-gray-700 disabled:text-gray-400';
+
+const describeRule = (playlist: Playlist) => {
+  const rule = playlist.autoInclude;
+  if (!rule) return null;
+  const parts = [
+    rule.pattern && `named like "${rule.pattern}"`,
+    rule.mimeType && `of type ${rule.mimeType}`
+  ].filter(Boolean);
+  return `Adds new uploads ${parts.join(' and ')}`;
+};
+
+/**
+ * Creates, renames and deletes playlists and edits the images of one,
+ * reordered by dragging them. Playlists can be exported to a JSON file and
+ * imported from one.
+ */
+export const PlaylistEditor: FC<PlaylistEditorProps> = ({ images, store = playlistStore }) => {
+  const playlists = usePlaylists(store);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [imageToAdd, setImageToAdd] = useState('');
+  const [rulePattern, setRulePattern] = useState('');
+  const [ruleMimeType, setRuleMimeType] = useState('');
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const selected = playlists.find(playlist => playlist.id === selectedId) ?? playlists[0] ?? null;
+  const imagesById = useMemo(() => new Map(images.map(image => [image.id, image])), [images]);
+  const mimeTypes = useMemo(() => getMimeTypes(images), [images]);
+  const isPatternValid = rulePattern === '' || parseNamePattern(rulePattern) !== null;
+
+  const handleCreate = (e: FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    setSelectedId(store.create(newName.trim()).id);
+    setNewName('');
+  };
+
+  const handleAddImage = (e: FormEvent) => {
+    e.preventDefault();
+    if (!selected || !imageToAdd) return;
+    store.addImages(selected.id, [imageToAdd]);
+    setImageToAdd('');
+  };
+
+  const handleSetRule = (e: FormEvent) => {
+    e.preventDefault();
+    if (!selected || !isPatternValid || (!rulePattern && !ruleMimeType)) return;
+    store.setAutoInclude(selected.id, { pattern: rulePattern, mimeType: ruleMimeType });
+    setRulePattern('');
+    setRuleMimeType('');
+  };
+
+  const handleDrop = (e: DragEvent<HTMLLIElement>, index: number) => {
+    e.preventDefault();
+    if (selected && draggedIndex !== null) {
+      store.moveImage(selected.id, draggedIndex, index);
+    }
+    setDraggedIndex(null);
+  };
+
+  const handleExport = () => {
+    saveBlob(new Blob([store.exportJson()], { type: 'application/json' }), 'playlists.json');
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still triggers a change
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = store.importJson(await file.text());
+      setImportMessage(`Imported ${count} playlist${count === 1 ? '' : 's'}`);
+    } catch (err) {
+      setImportMessage(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  const renderPlaylist = (playlist: Playlist) => {
+    const available = images.filter(image => !playlist.imageIds.includes(image.id));
+    const rule = describeRule(playlist);
+
+    return (
+      <div className="flex flex-col gap-3">
+        <div className="flex items-center gap-2">
+          <input
+            value={playlist.name}
+            onChange={(e) => store.rename(playlist.id, e.target.value)}
+            aria-label="Playlist name"
+            className={`${inputClasses} flex-1`}
+          />
+          <button onClick={() => store.remove(playlist.id)} className={`${buttonClasses} hover:text-red-400`}>
+            Delete Playlist
+          </button>
+        </div>
+        {playlist.imageIds.length > 0 ? (
+          <ol className="flex flex-col gap-1" aria-label={`Images in ${playlist.name}`}>
+            {playlist.imageIds.map((id, index) => (
+              <li
+                key={id}
+                draggable
+                onDragStart={() => setDraggedIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => handleDrop(e, index)}
+                onDragEnd={() => setDraggedIndex(null)}
+                className={`flex items-center justify-between gap-4 bg-gray-900/40 rounded px-3 py-1 cursor-move ${
+                  draggedIndex === index ? 'opacity-50' : ''
+                }`}
+              >
+                <span>{index + 1}. {imagesById.get(id)?.name ?? 'Unavailable image'}</span>
+                <button
+                  onClick={() => store.removeImage(playlist.id, id)}
+                  aria-label={`Remove image ${index + 1} from playlist`}
+                  className="text-xs text-gray-400 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-xs text-gray-400">No images yet. Frames playing this playlist show nothing.</p>
+        )}
+        <form onSubmit={handleAddImage} className="flex items-center gap-2">
+          <select
+            value={imageToAdd}
+            onChange={(e) => setImageToAdd(e.target.value)}
+            aria-label="Image to add"
+            className={`${inputClasses} flex-1`}
+          >
+            <option value="">Choose an image…</option>
+            {available.map(image => (
+              <option key={image.id} value={image.id}>{image.name}</option>
+            ))}
+          </select>
+          <button type="submit" disabled={!imageToAdd} aria-label="Add image to playlist" className={addButtonClasses}>
+            Add
+          </button>
+          <button
+            type="button"
+            onClick={() => store.addImages(playlist.id, available.map(image => image.id))}
+            disabled={available.length === 0}
+            className={buttonClasses}
+          >
+            Add All
+          </button>
+        </form>
+        {rule ? (
+          <div className="flex items-center justify-between gap-4">
+            <span>{rule}</span>
+            <button onClick={() => store.setAutoInclude(playlist.id, null)} className="text-xs text-gray-400 hover:text-red-400">
+              Stop Adding
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSetRule} className="flex items-center gap-2">
+            <label className="flex items-center gap-2">
+              Add new uploads named like
+              <input
+                value={rulePattern}
+                onChange={(e) => setRulePattern(e.target.value)}
+                placeholder="e.g. ^scan"
+                aria-invalid={!isPatternValid}
+                aria-label="Name pattern of uploads to add"
+                className={`${inputClasses} w-32 ${isPatternValid ? '' : 'ring-1 ring-red-500'}`}
+              />
+            </label>
+            <select
+              value={ruleMimeType}
+              onChange={(e) => setRuleMimeType(e.target.value)}
+              aria-label="Type of uploads to add"
+              className={inputClasses}
+            >
+              <option value="">of any type</option>
+              {mimeTypes.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={!isPatternValid || (!rulePattern && !ruleMimeType)}
+              className={addButtonClasses}
+            >
+              Set Rule
+            </button>
+          </form>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3 bg-gray-800/50 rounded-lg px-6 py-3 text-sm text-gray-300 w-full max-w-3xl">
+      <div className="flex items-center justify-between gap-4">
+        <span>Playlists:</span>
+        <div className="flex items-center gap-2">
+          <button onClick={handleExport} disabled={playlists.length === 0} className={buttonClasses}>
+            Export
+          </button>
+          <label className={`${buttonClasses} cursor-pointer`}>
+            Import
+            <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </label>
+        </div>
+      </div>
+      {importMessage && <p role="status" className="text-xs text-gray-400">{importMessage}</p>}
+      <form onSubmit={handleCreate} className="flex items-center gap-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New playlist name"
+          aria-label="New playlist name"
+          className={`${inputClasses} flex-1`}
+        />
+        <button type="submit" disabled={!newName.trim()} className={addButtonClasses}>
+          Create
+        </button>
+      </form>
+      {playlists.length > 0 && (
+        <div className="flex flex-wrap gap-2" role="tablist" aria-label="Playlists">
+          {playlists.map(playlist => (
+            <button
+              key={playlist.id}
+              role="tab"
+              aria-selected={playlist === selected}
+              onClick={() => setSelectedId(playlist.id)}
+              className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                playlist === selected ? 'bg-[#7F5AF0] text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {playlist.name || 'Untitled'} ({playlist.imageIds.length})
+            </button>
+          ))}
+        </div>
+      )}
+      {selected && renderPlaylist(selected)}
+    </div>
+  );
+};
+
+export default PlaylistEditor;
@@ -0,0 +1,38 @@
+import { useState, FC } from 'react';
+import { useServiceWorkerUpdate } from '../hooks/useServiceWorkerUpdate';
+import { ServiceWorkerClient } from '../services/serviceWorker';
+
+interface UpdatePromptProps {
+  /** Defaults to the page's service worker */
+  client?: ServiceWorkerClient;
+}
+
+export const UpdatePrompt: FC<UpdatePromptProps> = ({ client }) => {
+  const { isUpdateAvailable, applyUpdate } = useServiceWorkerUpdate(client);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  if (!isUpdateAvailable || isDismissed) return null;
+
+  return (
+    <div
+      role="alert"
+      className="fixed bottom-4 right-4 z-50 flex items-center gap-3 bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 shadow-lg"
+    >
+      <p className="text-sm text-gray-200">A new version is available.</p>
+      <button
+        onClick={applyUpdate}
+        className="px-3 py-1 rounded text-sm font-medium bg-[#7F5AF0] text-white hover:bg-[#6B46E0]"
+      >
+        Reload
+      </button>
+      <button
+        onClick={() => setIsDismissed(true)}
+        className="px-3 py-1 rounded text-sm font-medium bg-gray-800 text-gray-300 hover:bg-gray-700"
+      >
+        Later
+      </button>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,211 @@
+import { useState, useRef, FC, DragEvent, ChangeEvent } from 'react';
+import { useUploadQueue, UploadItem } from '../hooks/useUploadQueue';
+import { formatFileSize } from '../utils/format';
+
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export const UploadPanel: FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [customName, setCustomName] = useState('');
+  const [rejected, setRejected] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const {
+    items,
+    addFiles,
+    renameItem,
+    cancelItem,
+    retryItem,
+    removeItem,
+    clearCompleted
+  } = useUploadQueue();
+
+  const handleFiles = (files: File[]) => {
+    const accepted = files.filter(file => ACCEPTED_TYPES.includes(file.type));
+    setRejected(files.filter(file => !accepted.includes(file)).map(file => file.name));
+    addFiles(accepted, customName);
+    setCustomName('');
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleInputChange = (e: ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(e.target.files ?? []));
+    // Reset so picking the same file again still triggers a change
+    e.target.value = '';
+  };
+
+  const getStatusText = (item: UploadItem) => {
+    switch (item.status) {
+      case 'queued': return 'Waiting';
+      case 'uploading': return `${Math.round(item.progress * 100)}%`;
+      case 'done': return 'Uploaded';
+      case 'error': return item.error ?? 'Upload failed';
+      case 'cancelled': return 'Cancelled';
+    }
+  };
+
+  const getProgressColor = (item: UploadItem) => {
+    if (item.status === 'error') return 'bg-red-500';
+    if (item.status === 'cancelled') return 'bg-gray-500';
+    if (item.status === 'done') return 'bg-emerald-500';
+    return 'bg-[#7F5AF0]';
+  };
+
+  const renderItem = (item: UploadItem) => (
+    <li key={item.id} data-testid="upload-item" className="bg-gray-800/50 rounded-lg px-4 py-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0 flex-1">
+          {item.status === 'queued' ? (
+            <input
+              type="text"
+              value={item.name}
+              onChange={(e) => renameItem(item.id, e.target.value)}
+              placeholder={item.file.name}
+              aria-label={`Custom name for ${item.file.name}`}
+              className="w-full bg-gray-700 rounded px-2 py-1 text-sm text-white placeholder-gray-400"
+            />
+          ) : (
+            <p className="text-sm text-gray-200 truncate">{item.name || item.file.name}</p>
+          )}
+          <p className="text-xs text-gray-400">{formatFileSize(item.file.size)}</p>
+        </div>
+        <span className={`text-xs ${item.status === 'error' ? 'text-red-400' : 'text-gray-300'}`}>
+          {getStatusText(item)}
+        </span>
+        <div className="flex gap-2">
+          {(item.status === 'queued' || item.status === 'uploading') && (
+            <button
+              onClick={() => cancelItem(item.id)}
+              className="px-2 py-1 rounded text-xs bg-gray-700 text-gray-300 hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+          )}
+          {(item.status === 'error' || item.status === 'cancelled') && (
+            <button
+              onClick={() => retryItem(item.id)}
+              className="px-2 py-1 rounded text-xs bg-[#7F5AF0] text-white hover:bg-[#6B46E0]"
+            >
+              Retry
+            </button>
+          )}
+          {(item.status === 'done' || item.status === 'error' || item.status === 'cancelled') && (
+            <button
+              onClick={() => removeItem(item.id)}
+              aria-label={`Remove ${item.file.name}`}
+              className="px-2 py-1 rounded text-xs bg-gray-700 text-gray-300 hover:bg-gray-600"
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="mt-2 h-1 bg-gray-700 rounded overflow-hidden">
+        <div
+          role="progressbar"
+          aria-valuenow={Math.round(item.progress * 100)}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          className={`h-full transition-all ${getProgressColor(item)}`}
+          style={{ width: `${item.progress * 100}%` }}
+        />
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="px-4 pt-6">
+      <div className="flex justify-end">
+        <button
+          onClick={() => setIsOpen(open => !open)}
+          aria-expanded={isOpen}
+          className="px-4 py-1.5 rounded-lg font-medium transition-colors bg-gray-800 text-gray-300 hover:bg-gray-700"
+        >
+          {isOpen ? 'Hide Upload' : 'Upload Images'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 bg-gray-800/30 rounded-lg p-4">
+          <div
+            data-testid="upload-dropzone"
+            onDrop={handleDrop}
+            onDragOver={handleDragOver}
+            onDragLeave={() => setIsDragging(false)}
+            className={`rounded-lg p-8 text-center border-2 border-dashed transition-colors ${
+              isDragging ? 'border-[#7F5AF0] bg-[#7F5AF0]/10' : 'border-gray-700'
+            }`}
+          >
+            <p className="text-sm text-gray-300">Drag and drop images here, or</p>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="mt-2 px-4 py-1.5 rounded-lg text-sm font-medium bg-[#7F5AF0] text-white hover:bg-[#6B46E0]"
+            >
+              Choose Files
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ACCEPTED_TYPES.join(',')}
+              onChange={handleInputChange}
+              data-testid="upload-input"
+              className="hidden"
+            />
+            <p className="mt-2 text-xs text-gray-400">JPEG, PNG, GIF or WebP</p>
+          </div>
+
+          <div className="mt-4 flex items-center gap-3">
+            <label htmlFor="upload-custom-name" className="text-sm text-gray-300 whitespace-nowrap">
+              Custom name:
+            </label>
+            <input
+              id="upload-custom-name"
+              type="text"
+              value={customName}
+              onChange={(e) => setCustomName(e.target.value)}
+              placeholder="Optional, used when adding a single file"
+              className="flex-1 bg-gray-700 rounded px-2 py-1 text-sm text-white placeholder-gray-400"
+            />
+          </div>
+
+          {rejected.length > 0 && (
+            <p className="mt-3 text-xs text-red-400">
+              Skipped unsupported files: {rejected.join(', ')}
+            </p>
+          )}
+
+          {items.length > 0 && (
+            <>
+              <ul className="mt-4 flex flex-col gap-2">
+                {items.map(renderItem)}
+              </ul>
+              {items.some(item => item.status === 'done') && (
+                <div className="mt-3 flex justify-end">
+                  <button
+                    onClick={clearCompleted}
+                    className="text-xs text-gray-400 hover:text-gray-200"
+                  >
+                    Clear completed
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UploadPanel;
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { AnnotationStore, annotationStore } from '../services/annotationStore';
+
+/**
+ * Hook for the region-of-interest annotations. Changes go through the store
+ * itself, e.g. `annotationStore.add(imageId, size, shape, label)`.
+ * @returns The annotations of every annotated image, by image id
+ */
+export const useAnnotations = (store: AnnotationStore = annotationStore) =>
+  useSyncExternalStore(store.subscribe, store.getSnapshot);
@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { imageApi } from '../services/api';
+import { OfflineCache, offlineCache } from '../services/offlineCache';
+import { serviceWorkerClient } from '../services/serviceWorker';
+
+/**
+ * Hook returning a URL to show an image from, using its contents cached
+ * offline when `preferCached` is set so it still shows while the backend
+ * is down. Otherwise, and until the cached contents are read, when they are
+ * missing, and wherever IndexedDB is unavailable, the image's network URL
+ * is returned.
+ *
+ * Shown images are cached without downloading them a second time: the copy
+ * is taken from the service worker's cache, which loading the network URL
+ * filled. Without a service worker nothing new is cached.
+ */
+export const useCachedImageUrl = (id: string | null, preferCached = true) => {
+  const [cached, setCached] = useState<{ id: string; url: string } | null>(null);
+
+  useEffect(() => {
+    if (id === null || !OfflineCache.isSupported()) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    const load = async () => {
+      if (preferCached) {
+        const blob = await offlineCache.getBlob(id);
+        if (!blob || cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setCached({ id, url: objectUrl });
+      } else if (!(await offlineCache.touchBlob(id))) {
+        const blob = await serviceWorkerClient.getCachedImage(imageApi.getImageUrl(id));
+        if (blob && !cancelled) {
+          await offlineCache.putBlob(id, blob);
+        }
+      }
+    };
+    load().catch(err => console.log(`Could not cache image ${id}:`, err));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [id, preferCached]);
+
+  if (id === null) return null;
+  return preferCached && cached?.id === id ? cached.url : imageApi.getImageUrl(id);
+};
@@ -0,0 +1,263 @@
+import { useState, useEffect, useCallback, useMemo, useReducer, useRef } from 'react';
+import { ImageMetadata } from '../services/api';
+import { PlaybackClock } from '../services/playbackClock';
+import { useSharedPlaybackClock, usePlaybackClockState } from './usePlaybackClock';
+
+/**
+ * Navigation actions a carousel understands, from its own controls,
+ * keyboard shortcuts, or commands broadcast by the viewer
+ */
+export type NavigationAction =
+  | { type: 'next' }
+  | { type: 'prev' }
+  | { type: 'first' }
+  | { type: 'last' }
+  | { type: 'goto'; index: number }
+  | { type: 'toggle' }
+  | { type: 'pause' }
+  | { type: 'play' };
+
+/**
+ * A navigation action issued by the viewer. The id lets carousels apply each
+ * command exactly once even when the same action is sent repeatedly.
+ */
+export interface NavigationCommand {
+  id: number;
+  action: NavigationAction;
+}
+
+interface CarouselNavigationOptions {
+  images: ImageMetadata[];
+  startIndex: number;
+  cycleInterval: number;
+  /** Whether automatic cycling may run, e.g. false while disconnected */
+  isActive: boolean;
+  /** Time in ms each image stays on screen; without it every image gets the cycle interval */
+  getDwell?: (image: ImageMetadata) => number;
+}
+
+interface FramePosition {
+  /** Index the frame showed from `anchorProgress` on; later images follow in order */
+  anchorIndex: number;
+  /** Clock progress, in intervals, at which the anchor image appeared */
+  anchorProgress: number;
+  /** Index the frame is held on while paused or inactive, otherwise null */
+  heldIndex: number | null;
+}
+
+interface ScheduledImage {
+  /** Index of the image, not yet wrapped to the list length */
+  index: number;
+  /** Clock progress, in intervals, at which the image appeared and at which it gives way */
+  start: number;
+  end: number;
+}
+
+const wrapIndex = (index: number, length: number) => ((index % length) + length) % length;
+
+/**
+ * Finds the image on screen at a clock progress by walking the frame's
+ * schedule from its anchor. `dwells` holds each image's time on screen in
+ * intervals. Without them every image gets one interval and the anchor sits
+ * on a step, so all frames change images together on the clock's steps.
+ */
+const locateScheduledImage = (position: FramePosition, progress: number, dwells: number[] | null): ScheduledImage => {
+  const { anchorIndex, anchorProgress } = position;
+  if (!dwells) {
+    const elapsed = Math.floor(progress - anchorProgress);
+    return { index: anchorIndex + elapsed, start: anchorProgress + elapsed, end: anchorProgress + elapsed + 1 };
+  }
+
+  // Skip whole cycles first, which also brings a progress before the anchor forward
+  const cycle = dwells.reduce((sum, dwell) => sum + dwell, 0);
+  let start = anchorProgress + Math.floor((progress - anchorProgress) / cycle) * cycle;
+  let index = anchorIndex;
+  while (start + dwells[wrapIndex(index, dwells.length)] <= progress) {
+    start += dwells[wrapIndex(index, dwells.length)];
+    index++;
+  }
+  return { index, start, end: start + dwells[wrapIndex(index, dwells.length)] };
+};
+
+/**
+ * Maps a keyboard key to a navigation action:
+ * arrows step, space toggles playback, Home/End jump to the ends,
+ * and number keys 1-9 (0 for the tenth) jump to an image.
+ */
+export const getKeyboardAction = (key: string): NavigationAction | null => {
+  switch (key) {
+    case 'ArrowRight': return { type: 'next' };
+    case 'ArrowLeft': return { type: 'prev' };
+    case ' ': return { type: 'toggle' };
+    case 'Home': return { type: 'first' };
+    case 'End': return { type: 'last' };
+  }
+  if (/^[0-9]$/.test(key)) {
+    const digit = Number(key);
+    return { type: 'goto', index: digit === 0 ? 9 : digit - 1 };
+  }
+  return null;
+};
+
+/**
+ * Hook for a carousel's current position and playback state.
+ *
+ * The index follows the shared playback clock when one is provided, so frames
+ * stay in lockstep at their offsets; otherwise the carousel runs a private
+ * clock. With per-image dwell times, each image stays for its own share of
+ * clock time, so frames still pause and change speed together but no longer
+ * change images at the same moments. Frame-level navigation shifts this
+ * frame's offset against the clock, and a frame-level pause holds the frame
+ * while the clock keeps running. With a private clock, navigation and pausing
+ * drive the clock directly.
+ */
+export const useCarouselNavigation = ({
+  images,
+  startIndex,
+  cycleInterval,
+  isActive,
+  getDwell
+}: CarouselNavigationOptions) => {
+  const sharedClock = useSharedPlaybackClock();
+  const [privateClock] = useState(() => new PlaybackClock({ interval: cycleInterval }));
+  const clock = sharedClock ?? privateClock;
+  const ownsClock = sharedClock === null;
+  const clockState = usePlaybackClockState(clock);
+
+  const [position, setPosition] = useState<FramePosition>({ anchorIndex: startIndex, anchorProgress: 0, heldIndex: null });
+  const [isHeldByUser, setIsHeldByUser] = useState(false);
+  const [, wake] = useReducer((count: number) => count + 1, 0);
+
+  const length = images.length;
+  const hasDwells = getDwell !== undefined;
+  const dwells = useMemo(
+    () => (getDwell ? images.map(image => getDwell(image) / clockState.interval) : null),
+    [images, getDwell, clockState.interval]
+  );
+  const scheduled = length === 0 ? null : locateScheduledImage(position, clock.getProgress(), dwells);
+  const liveIndex = scheduled ? wrapIndex(scheduled.index, length) : 0;
+  const currentIndex = length === 0 ? 0 : wrapIndex(position.heldIndex ?? liveIndex, length);
+  const isHeld = isHeldByUser || !isActive;
+  const scheduledStart = scheduled?.start ?? 0;
+  const scheduledEnd = scheduled?.end ?? null;
+
+  /**
+   * Returns a position showing the given index from now on. Without dwell
+   * times it is anchored to the current step, so the frame keeps changing
+   * images together with the others; with them, the image gets its full dwell.
+   */
+  const anchorAt = useCallback((index: number): FramePosition => {
+    const progress = clock.getProgress();
+    return { anchorIndex: index, anchorProgress: hasDwells ? progress : Math.floor(progress), heldIndex: null };
+  }, [clock, hasDwells]);
+
+  // Keep the private clock in line with the requested interval
+  useEffect(() => {
+    if (ownsClock) {
+      privateClock.setInterval(cycleInterval);
+    }
+  }, [ownsClock, privateClock, cycleInterval]);
+
+  // Re-render when the current image's time is up
+  useEffect(() => {
+    if (isHeld || length <= 1 || scheduledEnd === null) return;
+    const delay = clock.getTimeUntilProgress(scheduledEnd);
+    if (delay === null) return;
+
+    const timeout = setTimeout(wake, Math.max(0, delay));
+    return () => clearTimeout(timeout);
+  }, [clock, clockState, isHeld, length, scheduledEnd, position]);
+
+  // Hold the frame on its current image while paused or inactive, and
+  // re-anchor on release so it resumes from that image
+  const currentIndexRef = useRef(currentIndex);
+  currentIndexRef.current = currentIndex;
+  const scheduledStartRef = useRef(scheduledStart);
+  scheduledStartRef.current = scheduledStart;
+  useEffect(() => {
+    if (isHeld) {
+      setPosition(prev => prev.heldIndex !== null ? prev : { ...prev, heldIndex: currentIndexRef.current });
+    } else {
+      setPosition(prev => prev.heldIndex === null ? prev : anchorAt(prev.heldIndex));
+    }
+  }, [isHeld, anchorAt]);
+
+  // Keep the displayed image on screen when images are added or removed
+  // elsewhere in the list, instead of letting the index shift under it.
+  // Dwell schedules depend on every image, so they are re-anchored on any change.
+  const displayedIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    const displayedId = displayedIdRef.current;
+    const newIndex = displayedId === null ? -1 : images.findIndex(image => image.id === displayedId);
+    if (newIndex !== -1 && (newIndex !== currentIndexRef.current || hasDwells)) {
+      setPosition(prev => prev.heldIndex === null
+        ? { anchorIndex: newIndex, anchorProgress: scheduledStartRef.current, heldIndex: null }
+        : { ...prev, heldIndex: newIndex });
+    }
+  }, [images, hasDwells]);
+  useEffect(() => {
+    displayedIdRef.current = images[currentIndex]?.id ?? null;
+  });
+
+  const isPaused = ownsClock ? !clockState.isPlaying : isHeldByUser || !clockState.isPlaying;
+
+  /**
+   * Moves this frame to an absolute index
+   */
+  const jumpTo = useCallback((index: number) => {
+    setPosition(prev => prev.heldIndex === null ? anchorAt(index) : { ...prev, heldIndex: index });
+  }, [anchorAt]);
+
+  /**
+   * Applies a navigation action to this carousel
+   */
+  const applyAction = useCallback((action: NavigationAction) => {
+    if (length === 0) return;
+
+    switch (action.type) {
+      case 'next':
+      case 'prev': {
+        const delta = action.type === 'next' ? 1 : -1;
+        // Clock steps only line up with images when every image gets one interval
+        if (ownsClock && !hasDwells) {
+          clock.step(delta);
+        } else {
+          jumpTo(currentIndexRef.current + delta);
+        }
+        break;
+      }
+      case 'first':
+        jumpTo(0);
+        break;
+      case 'last':
+        jumpTo(length - 1);
+        break;
+      case 'goto':
+        if (action.index >= 0 && action.index < length) {
+          jumpTo(action.index);
+        }
+        break;
+      case 'toggle':
+      case 'pause':
+      case 'play': {
+        const shouldPlay = action.type === 'toggle' ? isPaused : action.type === 'play';
+        if (ownsClock) {
+          if (shouldPlay) clock.play(); else clock.pause();
+        } else if (shouldPlay) {
+          // Resuming a frame while the shared clock is stopped restarts the clock
+          setIsHeldByUser(false);
+          clock.play();
+        } else {
+          setIsHeldByUser(true);
+        }
+        break;
+      }
+    }
+  }, [length, ownsClock, hasDwells, clock, jumpTo, isPaused]);
+
+  return {
+    currentIndex,
+    isPaused,
+    applyAction
+  };
+};
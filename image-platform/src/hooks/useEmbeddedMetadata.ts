@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { EmbeddedMetadataStore, embeddedMetadataStore } from '../services/embeddedMetadataStore';
+
+/**
+ * Hook for the embedded metadata read so far. Images are only read once
+ * asked for, e.g. `embeddedMetadataStore.request(images)`.
+ * @returns The metadata by image id, null for images without any
+ */
+export const useEmbeddedMetadata = (store: EmbeddedMetadataStore = embeddedMetadataStore) =>
+  useSyncExternalStore(store.subscribe, store.getSnapshot);
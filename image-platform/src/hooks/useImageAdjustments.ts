@@ -0,0 +1,100 @@
+import { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { ImageMetadata } from '../services/api';
+import { ImagePixels, loadImagePixels } from '../utils/imagePixels';
+import {
+  ImageAdjustments,
+  applyAdjustments,
+  computeHistogram,
+  getEffectiveLevels
+} from '../utils/imageAdjust';
+import { saveBlob } from '../utils/download';
+
+type LoadedPixels = { id: string; pixels: ImagePixels } | { id: string; error: string };
+
+interface ImageAdjustmentsOptions {
+  /**
+   * Keep returning the pixels of the previous image while the next one's
+   * load, so a host stepping through images keeps its canvas in between
+   */
+  holdWhileLoading: boolean;
+}
+
+/**
+ * Hook for the canvas rendering path of an image, which shows it with
+ * levels and a colormap applied. Adjusting starts switched off, showing
+ * the image as is; until it is switched on nothing is fetched.
+ *
+ * The host renders a canvas with `canvasRef`, sized to `pixels`, once they
+ * have loaded; the adjusted image is drawn into it. `isLoading` is set while
+ * the pixels of the image are on their way.
+ */
+export const useImageAdjustments = (
+  image: ImageMetadata | null,
+  { holdWhileLoading = false }: Partial<ImageAdjustmentsOptions> = {}
+) => {
+  // Null while adjusting is off
+  const [adjustments, setAdjustments] = useState<ImageAdjustments | null>(null);
+  const [loaded, setLoaded] = useState<LoadedPixels | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const id = adjustments && image ? image.id : null;
+
+  useEffect(() => {
+    if (id === null) return;
+    let cancelled = false;
+    loadImagePixels(id).then(
+      pixels => {
+        if (!cancelled) setLoaded({ id, pixels });
+      },
+      err => {
+        console.log(`Could not read the pixels of ${id}:`, err);
+        if (!cancelled) setLoaded({ id, error: err instanceof Error ? err.message : 'Unknown error' });
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const current = loaded?.id === id ? loaded : null;
+  const shown = id !== null && holdWhileLoading ? loaded : current;
+  const pixels = shown && 'pixels' in shown ? shown.pixels : null;
+  const histogram = useMemo(() => pixels && computeHistogram(pixels.data), [pixels]);
+  const levels = adjustments ? getEffectiveLevels(adjustments, histogram) : null;
+  const { black = 0, white = 255, gamma = 1 } = levels ?? {};
+  const colormap = adjustments?.colormap ?? 'none';
+  const adjusted = useMemo(
+    () => pixels && applyAdjustments(pixels.data, { black, white, gamma }, colormap),
+    [pixels, black, white, gamma, colormap]
+  );
+
+  // Drawn before the browser paints, as resizing the canvas clears it
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !adjusted) return;
+    const imageData = context.createImageData(canvas.width, canvas.height);
+    imageData.data.set(adjusted);
+    context.putImageData(imageData, 0, 0);
+  }, [adjusted]);
+
+  /** Saves the adjusted image as a PNG named after the original */
+  const exportPng = () => {
+    if (!image || current === null) return;
+    const fileName = `${image.name.replace(/\.[^.]+$/, '')}-adjusted.png`;
+    canvasRef.current?.toBlob(blob => {
+      if (blob) saveBlob(blob, fileName);
+    }, 'image/png');
+  };
+
+  return {
+    adjustments,
+    setAdjustments,
+    pixels,
+    error: current && 'error' in current ? current.error : null,
+    isLoading: id !== null && current === null,
+    histogram,
+    levels,
+    canvasRef,
+    exportPng
+  };
+};
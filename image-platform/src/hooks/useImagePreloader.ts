@@ -0,0 +1,85 @@
+import { useState, useEffect, useRef } from 'react';
+import { ImageMetadata, imageApi } from '../services/api';
+import { ImagePreloader, imagePreloader } from '../services/imagePreloader';
+
+// How far ahead to preload, in playback time
+const PRELOAD_LOOKAHEAD = 5000;
+const MAX_PRELOAD_WINDOW = 5;
+
+export const DEFAULT_READY_TIMEOUT = 2000;
+
+interface ImagePreloaderOptions {
+  images: ImageMetadata[];
+  /** Index the carousel wants to show */
+  currentIndex: number;
+  cycleInterval: number;
+  /** Longest time in ms to keep showing the previous image while the next one loads */
+  readyTimeout?: number;
+  preloader?: ImagePreloader;
+}
+
+/**
+ * Returns how many images ahead to preload: enough to cover the lookahead
+ * at the cycle interval, so faster cycling preloads further ahead
+ */
+export const getPreloadWindow = (cycleInterval: number) =>
+  Math.min(MAX_PRELOAD_WINDOW, Math.max(1, Math.ceil(PRELOAD_LOOKAHEAD / cycleInterval)));
+
+/**
+ * Hook that preloads the images after the current one and holds the
+ * display on the previous image until the current one is decoded, or until
+ * the ready timeout passes.
+ * @returns Index of the image to display, and whether the display is held
+ *   waiting for the current image, during which the caller should hold its
+ *   schedule so the image is not skipped
+ */
+export const useImagePreloader = ({
+  images,
+  currentIndex,
+  cycleInterval,
+  readyTimeout = DEFAULT_READY_TIMEOUT,
+  preloader = imagePreloader
+}: ImagePreloaderOptions) => {
+  // Target shown once it has loaded or waiting for it timed out
+  const [releasedId, setReleasedId] = useState<string | null>(null);
+  const shownIdRef = useRef<string | null>(null);
+  const length = images.length;
+  const targetId = length > 0 ? images[currentIndex % length].id : null;
+
+  // Preload the images that are coming up
+  useEffect(() => {
+    const count = Math.min(getPreloadWindow(cycleInterval), length - 1);
+    for (let ahead = 1; ahead <= count; ahead++) {
+      preloader.load(imageApi.getImageUrl(images[(currentIndex + ahead) % length].id));
+    }
+  }, [images, length, currentIndex, cycleInterval, preloader]);
+
+  // Keep the image on screen, or due on it, the last one the preloader drops
+  useEffect(() => {
+    if (targetId !== null) preloader.markUsed(imageApi.getImageUrl(targetId));
+  }, [targetId, releasedId, preloader]);
+
+  // Release the target once it is ready, or once waiting has taken too long
+  useEffect(() => {
+    if (targetId === null || preloader.isReady(imageApi.getImageUrl(targetId))) return;
+    let cancelled = false;
+    const release = () => setReleasedId(targetId);
+    const timeout = setTimeout(release, readyTimeout);
+    preloader.load(imageApi.getImageUrl(targetId)).then(() => {
+      if (!cancelled) release();
+    });
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [targetId, readyTimeout, preloader]);
+
+  let displayIndex = currentIndex;
+  if (targetId !== null && targetId !== releasedId && !preloader.isReady(imageApi.getImageUrl(targetId))) {
+    // Keep showing the previous image; with none, or once it is removed, show the target as it loads
+    const shownIndex = images.findIndex(image => image.id === shownIdRef.current);
+    if (shownIndex !== -1) displayIndex = shownIndex;
+  }
+  shownIdRef.current = length > 0 ? images[displayIndex % length].id : null;
+  return { displayIndex, isWaiting: shownIdRef.current !== targetId };
+};
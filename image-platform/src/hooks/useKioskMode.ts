@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ImageApi, imageApi } from '../services/api';
+
+// `?kiosk` turns kiosk mode on; `?kioskReloadAfter=<seconds>` tunes auto-recovery
+const KIOSK_PARAM = 'kiosk';
+const RELOAD_PARAM = 'kioskReloadAfter';
+
+const DEFAULT_CURSOR_HIDE_DELAY = 3000;
+const DEFAULT_RELOAD_AFTER = 2 * 60 * 1000;
+// Checking that the server responds before reloading, and backing off while it does not
+const SERVER_CHECK_TIMEOUT = 10000;
+const MAX_SERVER_CHECK_DELAY = 15 * 60 * 1000;
+
+interface KioskModeOptions {
+  /** Idle time in ms after which the cursor is hidden */
+  cursorHideDelay: number;
+}
+
+const isKioskRequested = () => new URLSearchParams(window.location.search).has(KIOSK_PARAM);
+
+/**
+ * Records kiosk mode in the URL, so reloads and bookmarks keep it
+ */
+const setKioskParam = (enabled: boolean) => {
+  const url = new URL(window.location.href);
+  if (enabled) {
+    url.searchParams.set(KIOSK_PARAM, '1');
+  } else {
+    url.searchParams.delete(KIOSK_PARAM);
+  }
+  window.history.replaceState(window.history.state, '', url);
+};
+
+/**
+ * Returns how long in ms the stream may stay down before a kiosk reloads
+ * itself, from the URL or the default. Zero turns reloading off.
+ */
+export const getKioskReloadAfter = (search = window.location.search) => {
+  const seconds = Number(new URLSearchParams(search).get(RELOAD_PARAM) ?? NaN);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : DEFAULT_RELOAD_AFTER;
+};
+
+/**
+ * Hook for kiosk mode, used on unattended wall displays. While it is on,
+ * the page is meant to show nothing but images: the cursor hides after a
+ * moment without movement and the screen is kept awake where the Wake
+ * Lock API is available. Turned on by the `kiosk` URL parameter or by
+ * `enter`, which also goes fullscreen; Escape or leaving fullscreen turns
+ * it off.
+ */
+export const useKioskMode = ({ cursorHideDelay = DEFAULT_CURSOR_HIDE_DELAY }: Partial<KioskModeOptions> = {}) => {
+  const [isKiosk, setIsKiosk] = useState(isKioskRequested);
+  const [isCursorIdle, setIsCursorIdle] = useState(false);
+
+  const enter = useCallback(() => {
+    setKioskParam(true);
+    setIsKiosk(true);
+    // Browsers only allow this from a user gesture, so a kiosk opened
+    // from its URL relies on the browser itself running fullscreen
+    document.documentElement.requestFullscreen?.()
+      .catch(err => console.log('Could not enter fullscreen:', err));
+  }, []);
+
+  const exit = useCallback(() => {
+    setKioskParam(false);
+    setIsKiosk(false);
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(err => console.log('Could not leave fullscreen:', err));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isKiosk) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') exit();
+    };
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) exit();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+    };
+  }, [isKiosk, exit]);
+
+  // Hide the cursor until the mouse moves again
+  useEffect(() => {
+    if (!isKiosk) return;
+    let timeout = setTimeout(() => setIsCursorIdle(true), cursorHideDelay);
+    const handleMouseMove = () => {
+      setIsCursorIdle(false);
+      clearTimeout(timeout);
+      timeout = setTimeout(() => setIsCursorIdle(true), cursorHideDelay);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    return () => {
+      clearTimeout(timeout);
+      window.removeEventListener('mousemove', handleMouseMove);
+      setIsCursorIdle(false);
+    };
+  }, [isKiosk, cursorHideDelay]);
+
+  // Keep the screen awake
+  useEffect(() => {
+    if (!isKiosk || !('wakeLock' in navigator)) return;
+    let cancelled = false;
+    let sentinel: WakeLockSentinel | null = null;
+
+    const acquire = async () => {
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (cancelled) {
+          await lock.release();
+        } else {
+          sentinel = lock;
+        }
+      } catch (err) {
+        console.log('Could not keep the screen awake:', err);
+      }
+    };
+    // The browser drops the lock whenever the page is hidden
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') acquire();
+    };
+
+    acquire();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      sentinel?.release().catch(() => {});
+    };
+  }, [isKiosk]);
+
+  return {
+    isKiosk,
+    isCursorHidden: isKiosk && isCursorIdle,
+    enter,
+    exit
+  };
+};
+
+/**
+ * Hook that reloads the page once the stream has been down for
+ * `reloadAfter` ms, so an unattended display recovers from states
+ * reconnecting cannot get it out of. It only reloads once the server
+ * answers the image list, as a page reloaded while the server is down
+ * would have nothing to show; until then it checks again at doubling
+ * intervals.
+ */
+export const useStreamAutoRecovery = (isConnected: boolean, reloadAfter: number, enabled = true, api: ImageApi = imageApi) => {
+  useEffect(() => {
+    if (!enabled || isConnected || reloadAfter <= 0) return;
+    const downSince = Date.now();
+    const controller = new AbortController();
+    let timeout: ReturnType<typeof setTimeout>;
+
+    const checkAfter = (delay: number) => {
+      timeout = setTimeout(async () => {
+        try {
+          await api.getImages({ signal: controller.signal, timeout: SERVER_CHECK_TIMEOUT });
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          const next = Math.min(delay * 2, MAX_SERVER_CHECK_DELAY);
+          console.log(`Stream down and the server not responding, checking again in ${next}ms:`, err);
+          checkAfter(next);
+          return;
+        }
+        console.log(`Stream down for ${Date.now() - downSince}ms, reloading`);
+        window.location.reload();
+      }, delay);
+    };
+
+    checkAfter(reloadAfter);
+    return () => {
+      controller.abort();
+      clearTimeout(timeout);
+    };
+  }, [isConnected, reloadAfter, enabled, api]);
+};
@@ -0,0 +1,86 @@
+import { useState, useEffect, useMemo } from 'react';
+import { loadImageElement, readImagePixels, diffPixels, PixelDifference } from '../utils/imagePixels';
+
+type LoadedPixels =
+  | { key: string; width: number; height: number; first: Uint8ClampedArray; second: Uint8ClampedArray; isScaled: boolean }
+  | { key: string; error: string };
+
+export type PixelDifferenceState =
+  | { status: 'idle' | 'loading' }
+  | { status: 'error'; error: string }
+  | (PixelDifference & {
+    status: 'ready';
+    width: number;
+    height: number;
+    /** Whether the second image was scaled to the first's size */
+    isScaled: boolean;
+  });
+
+/**
+ * Hook computing the per-pixel difference of two images, at the first
+ * image's size. Both are fetched and decoded once per pair, so changing
+ * the amplification only recomputes the difference.
+ * @param enabled Whether the difference is wanted; nothing is fetched until it is
+ */
+export const usePixelDifference = (
+  firstId: string | null,
+  secondId: string | null,
+  amplification: number,
+  enabled: boolean
+): PixelDifferenceState => {
+  const [pixels, setPixels] = useState<LoadedPixels | null>(null);
+  const key = `${firstId}/${secondId}`;
+
+  useEffect(() => {
+    if (!enabled || firstId === null || secondId === null) return;
+    let cancelled = false;
+
+    const load = async () => {
+      const [first, second] = await Promise.all([loadImageElement(firstId), loadImageElement(secondId)]);
+      const width = first.naturalWidth;
+      const height = first.naturalHeight;
+      const firstPixels = readImagePixels(first, width, height);
+      const secondPixels = readImagePixels(second, width, height);
+      if (!firstPixels || !secondPixels) {
+        throw new Error('This browser cannot read image pixels');
+      }
+      return {
+        key,
+        width,
+        height,
+        first: firstPixels,
+        second: secondPixels,
+        isScaled: second.naturalWidth !== width || second.naturalHeight !== height
+      };
+    };
+    load().then(
+      loaded => {
+        if (!cancelled) setPixels(loaded);
+      },
+      err => {
+        if (!cancelled) setPixels({ key, error: err instanceof Error ? err.message : 'Unknown error' });
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, firstId, secondId, key]);
+
+  const current = pixels?.key === key ? pixels : null;
+  const difference = useMemo(
+    () => current && 'first' in current ? diffPixels(current.first, current.second, amplification) : null,
+    [current, amplification]
+  );
+
+  if (!enabled || firstId === null || secondId === null) return { status: 'idle' };
+  if (!current) return { status: 'loading' };
+  if ('error' in current) return { status: 'error', error: current.error };
+  return {
+    status: 'ready',
+    ...difference!,
+    width: current.width,
+    height: current.height,
+    isScaled: current.isScaled
+  };
+};
@@ -0,0 +1,19 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { PlaybackClock } from '../services/playbackClock';
+
+/**
+ * Clock shared by every carousel frame rendered below the provider.
+ * Carousels rendered outside a provider run on a private clock.
+ */
+export const PlaybackClockContext = createContext<PlaybackClock | null>(null);
+
+/**
+ * Returns the shared playback clock, or null outside a provider
+ */
+export const useSharedPlaybackClock = () => useContext(PlaybackClockContext);
+
+/**
+ * Subscribes to a playback clock and returns its current state
+ */
+export const usePlaybackClockState = (clock: PlaybackClock) =>
+  useSyncExternalStore(clock.subscribe, clock.getSnapshot);
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { PlaylistStore, playlistStore } from '../services/playlistStore';
+
+/**
+ * Hook for the client-side playlists. Changes go through the store itself,
+ * e.g. `playlistStore.create(name)`.
+ * @returns The playlists, in the order they were created
+ */
+export const usePlaylists = (store: PlaylistStore = playlistStore) =>
+  useSyncExternalStore(store.subscribe, store.getSnapshot);
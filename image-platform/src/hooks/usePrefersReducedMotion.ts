@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from 'react';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+const getQuery = () => (typeof window !== 'undefined' && window.matchMedia ? window.matchMedia(QUERY) : null);
+
+const subscribe = (listener: () => void) => {
+  const query = getQuery();
+  query?.addEventListener('change', listener);
+  return () => query?.removeEventListener('change', listener);
+};
+
+const getSnapshot = () => getQuery()?.matches ?? false;
+
+/**
+ * Hook returning whether the user has asked the system to minimize motion
+ */
+export const usePrefersReducedMotion = () => useSyncExternalStore(subscribe, getSnapshot);
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { ServiceWorkerClient, serviceWorkerClient } from '../services/serviceWorker';
+
+/**
+ * Hook reporting whether a new app version is waiting to take over
+ * @returns Whether an update is available, and a function that applies it
+ */
+export const useServiceWorkerUpdate = (client: ServiceWorkerClient = serviceWorkerClient) => {
+  const { isUpdateAvailable } = useSyncExternalStore(client.subscribe, client.getSnapshot);
+  return { isUpdateAvailable, applyUpdate: client.applyUpdate };
+};
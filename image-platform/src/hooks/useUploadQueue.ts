@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { imageApi } from '../services/api';
+
+// Number of uploads allowed in flight at the same time
+const MAX_CONCURRENT_UPLOADS = 2;
+
+export type UploadStatus = 'queued' | 'uploading' | 'done' | 'error' | 'cancelled';
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  name: string;
+  status: UploadStatus;
+  progress: number;
+  error: string | null;
+}
+
+let nextUploadId = 0;
+
+/**
+ * Hook for managing a queue of image uploads.
+ * Files are uploaded in the order they were added, a few at a time, and each
+ * item tracks its own progress so it can be cancelled or retried on its own.
+ * Uploaded images are not added to any image list here: the backend broadcasts
+ * an UPLOAD event which `useImageStream` already handles.
+ */
+export const useUploadQueue = () => {
+  const [items, setItems] = useState<UploadItem[]>([]);
+
+  // Abort controllers for uploads that are currently in flight, keyed by item id
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  /**
+   * Uploads a single item and records the outcome on it
+   */
+  const startUpload = useCallback(async (item: UploadItem) => {
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    updateItem(item.id, { status: 'uploading', progress: 0, error: null });
+
+    try {
+      await imageApi.uploadImage(item.file, {
+        name: item.name,
+        signal: controller.signal,
+        onProgress: (progress) => updateItem(item.id, { progress })
+      });
+      updateItem(item.id, { status: 'done', progress: 1 });
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') {
+        updateItem(item.id, { status: 'cancelled' });
+      } else {
+        console.error(`Upload of ${item.file.name} failed:`, err);
+        updateItem(item.id, {
+          status: 'error',
+          error: err instanceof Error ? err.message : 'Upload failed'
+        });
+      }
+    } finally {
+      controllersRef.current.delete(item.id);
+    }
+  }, [updateItem]);
+
+  // Start queued uploads whenever a slot frees up
+  useEffect(() => {
+    const inFlight = items.filter(item => item.status === 'uploading').length;
+    const available = MAX_CONCURRENT_UPLOADS - inFlight;
+    if (available <= 0) return;
+
+    items
+      .filter(item => item.status === 'queued')
+      .slice(0, available)
+      .forEach(item => {
+        startUpload(item);
+      });
+  }, [items, startUpload]);
+
+  // Abort anything still in flight on unmount
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  /**
+   * Adds files to the end of the queue
+   * @param files Files picked or dropped by the user
+   * @param name Optional custom name, only applied when a single file is added
+   */
+  const addFiles = useCallback((files: File[], name?: string) => {
+    if (files.length === 0) return;
+    const customName = files.length === 1 ? name?.trim() ?? '' : '';
+
+    setItems(prev => [
+      ...prev,
+      ...files.map(file => ({
+        id: `upload-${++nextUploadId}`,
+        file,
+        name: customName,
+        status: 'queued' as const,
+        progress: 0,
+        error: null
+      }))
+    ]);
+  }, []);
+
+  /**
+   * Sets the custom name of an item that has not started uploading yet
+   */
+  const renameItem = useCallback((id: string, name: string) => {
+    setItems(prev => prev.map(item =>
+      item.id === id && item.status === 'queued' ? { ...item, name } : item
+    ));
+  }, []);
+
+  /**
+   * Cancels a queued or in-flight upload
+   */
+  const cancelItem = useCallback((id: string) => {
+    const controller = controllersRef.current.get(id);
+    if (controller) {
+      controller.abort();
+      return;
+    }
+    setItems(prev => prev.map(item =>
+      item.id === id && item.status === 'queued' ? { ...item, status: 'cancelled' } : item
+    ));
+  }, []);
+
+  /**
+   * Puts a failed or cancelled upload back into the queue
+   */
+  const retryItem = useCallback((id: string) => {
+    setItems(prev => prev.map(item =>
+      item.id === id && (item.status === 'error' || item.status === 'cancelled')
+        ? { ...item, status: 'queued', progress: 0, error: null }
+        : item
+    ));
+  }, []);
+
+  /**
+   * Removes a finished, failed or cancelled item from the list
+   */
+  const removeItem = useCallback((id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id || item.status === 'uploading' || item.status === 'queued'));
+  }, []);
+
+  /**
+   * Removes all successfully uploaded items from the list
+   */
+  const clearCompleted = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status !== 'done'));
+  }, []);
+
+  return {
+    items,
+    addFiles,
+    renameItem,
+    cancelItem,
+    retryItem,
+    removeItem,
+    clearCompleted
+  };
+};
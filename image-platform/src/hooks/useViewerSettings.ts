@@ -0,0 +1,21 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ViewerSettings, loadViewerSettings, saveViewerSettings } from '../services/viewerSettings';
+
+/**
+ * Hook for the viewer's settings, restored from the URL or the last visit
+ * and saved on every change
+ * @returns The settings and a function applying changes to them
+ */
+export const useViewerSettings = () => {
+  const [settings, setSettings] = useState(loadViewerSettings);
+
+  useEffect(() => {
+    saveViewerSettings(settings);
+  }, [settings]);
+
+  const updateSettings = useCallback((changes: Partial<ViewerSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  return [settings, updateSettings] as const;
+};
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback, RefObject, UIEvent } from 'react';
+
+// Viewport size assumed until the container has been measured
+const FALLBACK_WIDTH = 1024;
+const FALLBACK_HEIGHT = 640;
+// Extra rows rendered above and below the viewport to hide pop-in while scrolling
+const OVERSCAN_ROWS = 2;
+
+interface VirtualGridOptions {
+  itemCount: number;
+  minItemWidth: number;
+  rowHeight: number;
+  gap: number;
+}
+
+/**
+ * Hook for windowing a scrollable grid of fixed-height rows.
+ * Measures the container to derive the column count and returns the range of
+ * items that intersect the viewport, so only those need to be rendered.
+ */
+export const useVirtualGrid = (
+  containerRef: RefObject<HTMLElement>,
+  { itemCount, minItemWidth, rowHeight, gap }: VirtualGridOptions
+) => {
+  const [viewport, setViewport] = useState({ width: FALLBACK_WIDTH, height: FALLBACK_HEIGHT });
+  const [scrollTop, setScrollTop] = useState(0);
+
+  // Track container size; jsdom and older browsers have no ResizeObserver
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      setViewport({
+        width: container.clientWidth || FALLBACK_WIDTH,
+        height: container.clientHeight || FALLBACK_HEIGHT
+      });
+    };
+    measure();
+
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  const handleScroll = useCallback((e: UIEvent<HTMLElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  }, []);
+
+  const columns = Math.max(1, Math.floor((viewport.width + gap) / (minItemWidth + gap)));
+  const itemWidth = (viewport.width - gap * (columns - 1)) / columns;
+  const rowStride = rowHeight + gap;
+  const rowCount = Math.ceil(itemCount / columns);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / rowStride) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount, Math.ceil((scrollTop + viewport.height) / rowStride) + OVERSCAN_ROWS);
+
+  return {
+    columns,
+    itemWidth,
+    totalHeight: Math.max(0, rowCount * rowStride - gap),
+    startIndex: firstRow * columns,
+    endIndex: Math.min(itemCount, lastRow * columns),
+    offsetTop: firstRow * rowStride,
+    handleScroll
+  };
+};
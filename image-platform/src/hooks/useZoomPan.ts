@@ -0,0 +1,161 @@
+import { useState, useEffect, useRef, useCallback, RefObject, PointerEvent } from 'react';
+
+/**
+ * How an image is scaled when first shown:
+ * - `fit`: whole image visible
+ * - `fill`: container covered, cropping the image
+ * - `actual`: one image pixel per CSS pixel
+ */
+export type FitMode = 'fit' | 'fill' | 'actual';
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/** Scale of the image and offset of its centre from the container's, in CSS pixels */
+export interface ZoomTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 16;
+
+// Zoom factor per pixel of wheel movement
+const WHEEL_ZOOM_RATE = 0.002;
+
+/**
+ * Returns the scale at which an image is shown in a fit mode
+ */
+export const getFitScale = (mode: FitMode, image: Size, container: Size) => {
+  if (mode === 'actual' || !image.width || !image.height || !container.width || !container.height) return 1;
+  const scales = [container.width / image.width, container.height / image.height];
+  return mode === 'fit' ? Math.min(...scales) : Math.max(...scales);
+};
+
+/**
+ * Returns the transform zoomed by a factor around a point, given relative to
+ * the container's centre, so the image point under it stays in place
+ */
+export const zoomAt = (transform: ZoomTransform, factor: number, point: { x: number; y: number }): ZoomTransform => {
+  const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, transform.scale * factor));
+  const ratio = scale / transform.scale;
+  return {
+    scale,
+    x: point.x - (point.x - transform.x) * ratio,
+    y: point.y - (point.y - transform.y) * ratio
+  };
+};
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Hook for zooming and panning an image inside a container: the mouse wheel
+ * and pinching zoom around the pointer, dragging pans. Choosing a fit mode,
+ * or a new image size, resets the view.
+ * @param imageSize Natural size of the image, null until it has loaded
+ * @param panes Equal columns the container is split into, each showing an
+ * image with the same transform, e.g. to compare two images side by side
+ */
+export const useZoomPan = (containerRef: RefObject<HTMLElement>, imageSize: Size | null, panes = 1) => {
+  const [mode, setMode] = useState<FitMode>('fit');
+  // Read by resets, which should not rerun when only the mode changes
+  const modeRef = useRef<FitMode>('fit');
+  const [transform, setTransform] = useState<ZoomTransform>({ scale: 1, x: 0, y: 0 });
+  // Pointers currently down, by id, at their last position
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+
+  /** Returns the size of one pane */
+  const measure = useCallback((): Size => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return { width: (rect?.width ?? 0) / panes, height: rect?.height ?? 0 };
+  }, [containerRef, panes]);
+
+  /** Converts client coordinates to coordinates relative to the centre of the pane under them */
+  const toContainerPoint = useCallback((clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    const paneWidth = rect.width / panes;
+    const pane = paneWidth > 0 ? Math.min(panes - 1, Math.max(0, Math.floor((clientX - rect.left) / paneWidth))) : 0;
+    return { x: clientX - rect.left - (pane + 0.5) * paneWidth, y: clientY - rect.top - rect.height / 2 };
+  }, [containerRef, panes]);
+
+  const applyMode = useCallback((next: FitMode) => {
+    modeRef.current = next;
+    setMode(next);
+    setTransform({ scale: imageSize ? getFitScale(next, imageSize, measure()) : 1, x: 0, y: 0 });
+  }, [imageSize, measure]);
+
+  // A new image starts over in the current mode, as does a resized container
+  useEffect(() => {
+    const reset = () => applyMode(modeRef.current);
+    reset();
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(reset);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [applyMode, containerRef]);
+
+  // Registered natively, as React's wheel listeners are passive and cannot stop the page scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const point = toContainerPoint(e.clientX, e.clientY);
+      setTransform(prev => zoomAt(prev, Math.exp(-e.deltaY * WHEEL_ZOOM_RATE), point));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [containerRef, toContainerPoint]);
+
+  const zoomBy = useCallback((factor: number) => {
+    setTransform(prev => zoomAt(prev, factor, { x: 0, y: 0 }));
+  }, []);
+
+  const onPointerDown = (e: PointerEvent<HTMLElement>) => {
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+    const current = { x: e.clientX, y: e.clientY };
+    pointers.set(e.pointerId, current);
+
+    if (pointers.size === 1) {
+      const dx = current.x - previous.x;
+      const dy = current.y - previous.y;
+      setTransform(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+    } else if (pointers.size === 2) {
+      // Pinch: zoom by the change in distance between the two pointers
+      const other = [...pointers.entries()].find(([id]) => id !== e.pointerId)![1];
+      const before = distance(previous, other);
+      if (before === 0) return;
+      const middle = toContainerPoint((current.x + other.x) / 2, (current.y + other.y) / 2);
+      setTransform(prev => zoomAt(prev, distance(current, other) / before, middle));
+    }
+  };
+
+  const onPointerUp = (e: PointerEvent<HTMLElement>) => {
+    pointersRef.current.delete(e.pointerId);
+  };
+
+  return {
+    mode,
+    transform,
+    setMode: applyMode,
+    zoomBy,
+    pointerHandlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp
+    }
+  };
+};
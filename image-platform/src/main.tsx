@@ -2,6 +2,13 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { serviceWorkerClient } from './services/serviceWorker'
+
+// Only production builds emit the service worker
+if (import.meta.env.PROD) {
+  serviceWorkerClient.register()
+    .catch(err => console.error('Service worker registration failed:', err))
+}
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
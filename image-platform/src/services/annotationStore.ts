@@ -0,0 +1,230 @@
+import { ImageMetadata } from './api';
+import { PersistedStore, createId } from './persistedStore';
+import {
+  Annotation,
+  AnnotationShape,
+  ImageAnnotations,
+  LabelledShape,
+  MAX_LABEL_LENGTH,
+  fromCocoDataset,
+  scaleShape,
+  toCocoDataset,
+  validateLabelledShape
+} from '../utils/annotations';
+import { isRecord, parseJson } from '../utils/json';
+
+interface AnnotationStoreOptions {
+  /** localStorage key the annotations are persisted under */
+  storageKey: string;
+}
+
+/** Annotations of every annotated image, by image id */
+export type AnnotationsByImage = Record<string, ImageAnnotations>;
+
+const DEFAULT_STORAGE_KEY = 'image-platform:annotations';
+const EXPORT_VERSION = 1;
+const MAX_ANNOTATIONS_PER_IMAGE = 500;
+
+const isSize = (value: number) => Number.isFinite(value) && value > 0;
+
+/**
+ * Returns the valid annotations of an untrusted image entry, or null when
+ * the entry is not one at all
+ */
+const validateImageAnnotations = (value: unknown): ImageAnnotations | null => {
+  if (!isRecord(value) || !Array.isArray(value.annotations)) return null;
+  const { width, height } = value;
+  if (typeof width !== 'number' || typeof height !== 'number' || !isSize(width) || !isSize(height)) return null;
+  const annotations = value.annotations.slice(0, MAX_ANNOTATIONS_PER_IMAGE).flatMap(annotation => {
+    const labelled = validateLabelledShape(annotation);
+    if (!labelled || !isRecord(annotation)) return [];
+    return [{ ...labelled, id: typeof annotation.id === 'string' && annotation.id ? annotation.id : createId() }];
+  });
+  return { width, height, annotations };
+};
+
+/**
+ * Returns the valid entries of untrusted annotations by image id, or null
+ * when the value is not such a map at all
+ */
+const validateAnnotationsByImage = (value: unknown): AnnotationsByImage | null => {
+  if (!isRecord(value)) return null;
+  const valid: AnnotationsByImage = {};
+  for (const [imageId, entry] of Object.entries(value)) {
+    const annotations = validateImageAnnotations(entry);
+    if (annotations && annotations.annotations.length > 0) valid[imageId] = annotations;
+  }
+  return valid;
+};
+
+/**
+ * Region-of-interest annotations of images, persisted in localStorage by
+ * image id.
+ *
+ * Annotations are kept in the pixel coordinates of the image they mark,
+ * along with its size, so they can be drawn over it at any zoom and
+ * exported to other tools. A deleted image's annotations are dropped.
+ * Changes made in other tabs are picked up through storage events.
+ */
+export class AnnotationStore extends PersistedStore<AnnotationsByImage> {
+  constructor({ storageKey = DEFAULT_STORAGE_KEY }: Partial<AnnotationStoreOptions> = {}) {
+    super({ storageKey, empty: {}, validate: validateAnnotationsByImage, description: 'annotations' });
+  }
+
+  getAnnotations(imageId: string): ImageAnnotations | undefined {
+    return this.getSnapshot()[imageId];
+  }
+
+  /**
+   * Adds an annotation to an image, drawn on it at the given pixel size
+   * @returns The annotation, or null if the image has as many as it can hold
+   */
+  add(imageId: string, size: { width: number; height: number }, shape: AnnotationShape, label: string): Annotation | null {
+    const current = this.current;
+    const existing = current[imageId]?.annotations ?? [];
+    const labelled = validateLabelledShape({ ...shape, label });
+    if (!labelled || existing.length >= MAX_ANNOTATIONS_PER_IMAGE || !isSize(size.width) || !isSize(size.height)) {
+      return null;
+    }
+    const annotation: Annotation = { ...labelled, id: createId() };
+    this.save({
+      ...current,
+      [imageId]: { width: size.width, height: size.height, annotations: [...existing, annotation] }
+    });
+    return annotation;
+  }
+
+  relabel(imageId: string, id: string, label: string) {
+    this.updateImage(imageId, annotations => annotations.map(annotation =>
+      annotation.id === id ? { ...annotation, label: label.slice(0, MAX_LABEL_LENGTH) } : annotation
+    ));
+  }
+
+  remove(imageId: string, id: string) {
+    this.updateImage(imageId, annotations => annotations.filter(annotation => annotation.id !== id));
+  }
+
+  /**
+   * Removes every annotation of an image, e.g. once it is deleted
+   */
+  dropImage(imageId: string) {
+    const current = this.current;
+    if (!(imageId in current)) return;
+    const rest = { ...current };
+    delete rest[imageId];
+    this.save(rest);
+  }
+
+  /**
+   * Returns the annotations of the given images as a JSON document, for `importJson`
+   */
+  exportJson(imageIds: string[]) {
+    const annotations = this.getSnapshot();
+    const images: AnnotationsByImage = {};
+    for (const id of imageIds) {
+      if (annotations[id]) images[id] = annotations[id];
+    }
+    return JSON.stringify({ version: EXPORT_VERSION, images }, null, 2);
+  }
+
+  /**
+   * Returns the annotations of the given images as a COCO dataset, listing
+   * each image under its name
+   */
+  exportCoco(images: ImageMetadata[]) {
+    const entries = images.flatMap(image => {
+      const annotations = this.getAnnotations(image.id);
+      return annotations ? [{ fileName: image.name, annotations }] : [];
+    });
+    return JSON.stringify(toCocoDataset(entries), null, 2);
+  }
+
+  /**
+   * Adds the annotations of an exported document to the given images,
+   * matched by id. Annotations of other images are skipped, and imported
+   * ones are added alongside those already there.
+   * @returns The number of annotations imported
+   * @throws Error if the document is not an annotation export
+   */
+  importJson(json: string, images: ImageMetadata[]): number {
+    const parsed = parseJson(json);
+    const imported = isRecord(parsed) ? validateAnnotationsByImage(parsed.images) : null;
+    if (!imported) {
+      throw new Error('The file does not contain any annotations');
+    }
+    const known = new Set(images.map(image => image.id));
+    return this.merge(Object.entries(imported).flatMap(([imageId, { width, height, annotations }]) =>
+      known.has(imageId) ? [{ imageId, width, height, annotations }] : []
+    ));
+  }
+
+  /**
+   * Adds the annotations of a COCO dataset to the given images, matched by
+   * file name. Categories become labels.
+   * @returns The number of annotations imported
+   * @throws Error if the document is not a COCO dataset
+   */
+  importCoco(json: string, images: ImageMetadata[]): number {
+    const byName = new Map<string, string>();
+    // The first of several images sharing a name gets the annotations
+    for (const image of [...images].reverse()) byName.set(image.name, image.id);
+    return this.merge(fromCocoDataset(parseJson(json)).flatMap(({ fileName, width, height, annotations }) => {
+      // Other tools often list images by path
+      const imageId = byName.get(fileName) ?? byName.get(fileName.split('/').pop() ?? '');
+      return imageId ? [{ imageId, width, height, annotations }] : [];
+    }));
+  }
+
+  /**
+   * Imports a file in either format, telling a COCO dataset by its list of
+   * annotations
+   * @returns The number of annotations imported
+   * @throws Error if the document is neither format
+   */
+  importFile(json: string, images: ImageMetadata[]): number {
+    const parsed = parseJson(json);
+    return isRecord(parsed) && Array.isArray(parsed.annotations)
+      ? this.importCoco(json, images)
+      : this.importJson(json, images);
+  }
+
+  /**
+   * Appends imported annotations under new ids. An image that has
+   * annotations already keeps its size, and the imported ones are scaled
+   * to it from the size they were drawn at.
+   * @returns The number of annotations added
+   */
+  private merge(entries: { imageId: string; width: number; height: number; annotations: LabelledShape[] }[]) {
+    const next = { ...this.current };
+    let count = 0;
+    for (const { imageId, width, height, annotations } of entries) {
+      if (!isSize(width) || !isSize(height)) continue;
+      const existing = next[imageId] ?? { width, height, annotations: [] };
+      const scaleX = existing.width / width;
+      const scaleY = existing.height / height;
+      const added = annotations
+        .slice(0, MAX_ANNOTATIONS_PER_IMAGE - existing.annotations.length)
+        .map(annotation => ({ ...scaleShape(annotation, scaleX, scaleY), id: createId() }));
+      if (added.length === 0) continue;
+      next[imageId] = { ...existing, annotations: [...existing.annotations, ...added] };
+      count += added.length;
+    }
+    if (count > 0) this.save(next);
+    return count;
+  }
+
+  private updateImage(imageId: string, change: (annotations: Annotation[]) => Annotation[]) {
+    const current = this.current;
+    const entry = current[imageId];
+    if (!entry) return;
+    const annotations = change(entry.annotations);
+    if (annotations.length === 0) {
+      this.dropImage(imageId);
+      return;
+    }
+    this.save({ ...current, [imageId]: { ...entry, annotations } });
+  }
+}
+
+/** The annotations shared by everything in this tab */
+export const annotationStore = new AnnotationStore();
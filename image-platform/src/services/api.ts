@@ -1,13 +1,25 @@
+import {
+  ApiError,
+  ContentTypeError,
+  HttpError,
+  NetworkError,
+  SchemaError,
+  TimeoutError
+} from './apiErrors';
+import { Schema, array, isoDate, literal, number, object, optional, string } from './schema';
+
 export interface ImageMetadata {
   id: string;
   name: string;
   size: number;
   mimeType: string;
-  uploadedAt: string;
+  uploadedAt: Date;
 }
 
+/** Envelope of every JSON response from the backend */
 export interface ApiResponse<T> {
   data: T;
+  error?: string;
 }
 
 export interface ImageEvent {
@@ -16,45 +28,390 @@ export interface ImageEvent {
   image_name: string;
 }
 
-const API_BASE = '/api';
+/** An event as sent by the long-polling events endpoint; `id` is its cursor */
+export type ImageEventFrame = ImageEvent & { id?: string };
+
+export interface RequestOptions {
+  /** Aborts the request when signalled */
+  signal?: AbortSignal;
+  /** Time allowed for the whole request in ms, 0 for none; defaults to the client's timeout */
+  timeout?: number;
+}
+
+/**
+ * Result of a conditional request: the data, or `notModified` when it has
+ * not changed since the ETag sent with the request
+ */
+export type ConditionalResult<T> =
+  | { notModified: false; data: T; etag: string | null }
+  | { notModified: true };
+
+export interface UploadOptions extends RequestOptions {
+  /** Optional custom name, the backend defaults to the original filename */
+  name?: string;
+  /** Called with the fraction (0-1) of the request body sent so far */
+  onProgress?: (progress: number) => void;
+}
+
+export interface ApiClientOptions {
+  /** Prefix of every endpoint, e.g. `/api` or `https://images.example.com/api` */
+  baseUrl?: string;
+  /** Default request timeout in ms, 0 for none */
+  timeout?: number;
+}
+
+const DEFAULT_BASE_URL = '/api';
+const DEFAULT_TIMEOUT = 15000;
+
+const imageEventShape = {
+  type: literal('UPLOAD', 'DELETE', 'HEARTBEAT'),
+  image_id: string,
+  image_name: string
+};
+
+export const imageMetadataSchema: Schema<ImageMetadata> = object<ImageMetadata>({
+  id: string,
+  name: string,
+  size: number,
+  mimeType: string,
+  uploadedAt: isoDate
+});
+
+export const imageEventSchema: Schema<ImageEvent> = object<ImageEvent>(imageEventShape);
+
+export const imageEventFrameSchema: Schema<ImageEventFrame> = object<ImageEventFrame>({
+  ...imageEventShape,
+  id: optional(string)
+});
+
+/**
+ * Extracts the backend error message from an ApiResponse body, if present
+ */
+const parseErrorMessage = (body: string): string | null => {
+  try {
+    const { error } = JSON.parse(body) as Partial<ApiResponse<unknown>>;
+    return typeof error === 'string' ? error : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Checks a response body is a JSON ApiResponse and returns its validated data
+ */
+const parseResponse = <T>(contentType: string | null, body: string, schema: Schema<T>): T => {
+  if (!contentType || !contentType.includes('application/json')) {
+    throw new ContentTypeError('application/json', contentType);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    throw new SchemaError('body', 'is not valid JSON');
+  }
+  return object<{ data: T }>({ data: schema })(json, 'body').data;
+};
+
+const toHttpError = (status: number, body: string, notFoundMessage?: string) => {
+  const serverMessage = parseErrorMessage(body);
+  const message = status === 404 && notFoundMessage
+    ? notFoundMessage
+    : serverMessage ?? `Server error: ${status}`;
+  return new HttpError(message, status, serverMessage);
+};
+
+const LIST_NOT_FOUND_MESSAGE = 'Image service not found. Please check if the server is running.';
+
+const abortError = (message = 'Request cancelled') => new DOMException(message, 'AbortError');
+
+/**
+ * Creates a client for the image service. Every response is checked
+ * against its schema before it is returned, and failures are reported as
+ * ApiError subclasses: NetworkError (including TimeoutError), HttpError,
+ * ContentTypeError and SchemaError.
+ */
+export const createImageApi = ({ baseUrl = DEFAULT_BASE_URL, timeout: defaultTimeout = DEFAULT_TIMEOUT }: ApiClientOptions = {}) => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  /**
+   * Resolves an endpoint path, e.g. `/images/stream`, against the base URL
+   */
+  const url = (path: string) => `${root}${path}`;
 
-export const imageApi = {
   /**
-   * Fetches all images from the backend
-   * @returns Promise<ImageMetadata[]> Array of images
+   * Sends a request and reads its response, with the caller's signal and
+   * the timeout both able to abort it
+   * @param notFoundMessage Message for a 404, instead of the server's
    */
-  getImages: async (): Promise<ImageMetadata[]> => {
+  const request = async <T>(
+    path: string,
+    init: RequestInit,
+    { signal, timeout = defaultTimeout }: RequestOptions,
+    read: (response: Response) => Promise<T>,
+    notFoundMessage?: string
+  ): Promise<T> => {
+    if (signal?.aborted) {
+      throw abortError();
+    }
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    let timedOut = false;
+    const timer = timeout > 0
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout)
+      : null;
+    signal?.addEventListener('abort', abort);
+
     try {
-      const response = await fetch(`${API_BASE}/images`);
-      console.log('API Response status:', response.status);
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error('Image service not found. Please check if the server is running.');
-        }
-        throw new Error(`Server error: ${response.status}`);
+      const response = await fetch(url(path), { ...init, signal: controller.signal });
+      if (!response.ok && response.status !== 304) {
+        throw toHttpError(response.status, await response.text(), notFoundMessage);
+      }
+      return await read(response);
+    } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(timeout);
+      }
+      if (signal?.aborted) {
+        throw abortError();
+      }
+      if (error instanceof ApiError) {
+        throw error;
       }
+      throw new NetworkError(undefined, error);
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener('abort', abort);
+    }
+  };
 
-      const contentType = response.headers.get('content-type');
-      console.log('Content-Type:', contentType);
+  const readData = <T>(schema: Schema<T>) => async (response: Response) =>
+    parseResponse(response.headers.get('content-type'), await response.text(), schema);
 
-      if (!contentType || !contentType.includes('application/json')) {
-        throw new Error('Invalid response from server. Expected JSON.');
-      }
+  const imagePath = (id: string) => `/images/${encodeURIComponent(id)}`;
 
-      const responseText = await response.text();
-      console.log('Raw response:', responseText);
+  const checkImageType = (response: Response) => {
+    const contentType = response.headers.get('content-type');
+    if (!contentType || !contentType.startsWith('image/')) {
+      throw new ContentTypeError('an image', contentType);
+    }
+  };
 
-      const { data } = JSON.parse(responseText) as ApiResponse<ImageMetadata[]>;
-      console.log('Parsed images:', data);
+  /**
+   * Reads up to the first `length` bytes of a response body, then stops
+   * the download
+   */
+  const readStart = async (response: Response, length: number): Promise<ArrayBuffer> => {
+    if (!response.body) return (await response.arrayBuffer()).slice(0, length);
+    const reader = response.body.getReader();
+    const start = new Uint8Array(length);
+    let read = 0;
+    while (read < length) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, length - read);
+      start.set(chunk, read);
+      read += chunk.length;
+    }
+    // Not awaited: nothing more is read from it
+    reader.cancel().catch(() => {});
+    return start.buffer.slice(0, read);
+  };
 
-      return data;
-    } catch (error) {
-      console.error('Error in getImages:', error);
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new Error('Unable to connect to the server. Please check if it is running.');
-      }
-      throw error;
+  /**
+   * Fetches all images, conditionally when given the ETag of a previous response
+   * @param options.etag ETag of the list the caller holds, sent as `If-None-Match`
+   */
+  const getImageList = (
+    options: RequestOptions & { etag?: string | null } = {}
+  ): Promise<ConditionalResult<ImageMetadata[]>> => {
+    const headers: Record<string, string> = {};
+    if (options.etag) {
+      headers['If-None-Match'] = options.etag;
     }
-  }
-}; 
\ No newline at end of file
+    return request(
+      '/images',
+      { headers },
+      options,
+      async response => response.status === 304
+        ? { notModified: true }
+        : {
+          notModified: false,
+          data: await readData(array(imageMetadataSchema))(response),
+          etag: response.headers.get('etag')
+        },
+      LIST_NOT_FOUND_MESSAGE
+    );
+  };
+
+  return {
+    url,
+
+    /**
+     * Returns the URL an image's contents are served from, for `<img src>`
+     */
+    getImageUrl: (id: string) => url(imagePath(id)),
+
+    /**
+     * Fetches all images from the backend
+     * @returns Promise<ImageMetadata[]> Array of images
+     */
+    getImages: (options: RequestOptions = {}): Promise<ImageMetadata[]> =>
+      request(
+        '/images',
+        {},
+        options,
+        readData(array(imageMetadataSchema)),
+        LIST_NOT_FOUND_MESSAGE
+      ),
+
+    getImageList,
+
+    /**
+     * Fetches the metadata of a single image
+     */
+    getImageMetadata: (id: string, options: RequestOptions = {}): Promise<ImageMetadata> =>
+      request(
+        `${imagePath(id)}/metadata`,
+        {},
+        options,
+        readData(imageMetadataSchema),
+        'Image not found. It may have been deleted.'
+      ),
+
+    /**
+     * Downloads an image's contents
+     */
+    getImageBlob: (id: string, options: RequestOptions = {}): Promise<Blob> =>
+      request(
+        imagePath(id),
+        {},
+        options,
+        async response => {
+          checkImageType(response);
+          return response.blob();
+        },
+        'Image not found. It may have been deleted.'
+      ),
+
+    /**
+     * Downloads the start of an image's contents, e.g. to read the metadata
+     * embedded there. Only that range is requested, and should the server
+     * send the whole file anyway, the download stops once it has arrived.
+     * @param length Most bytes to download
+     */
+    getImageStart: (id: string, length: number, options: RequestOptions = {}): Promise<ArrayBuffer> =>
+      request(
+        imagePath(id),
+        { headers: { Range: `bytes=0-${length - 1}` } },
+        options,
+        async response => {
+          checkImageType(response);
+          return readStart(response, length);
+        },
+        'Image not found. It may have been deleted.'
+      ),
+
+    /**
+     * Long-polls for stream events after a cursor. The backend holds the
+     * request open until events arrive, so there is no timeout unless given.
+     */
+    getEvents: (options: RequestOptions & { lastEventId?: string | null } = {}): Promise<ImageEventFrame[]> => {
+      const query = options.lastEventId ? `?lastEventId=${encodeURIComponent(options.lastEventId)}` : '';
+      return request(
+        `/images/events${query}`,
+        {},
+        { timeout: 0, ...options },
+        readData(array(imageEventFrameSchema))
+      );
+    },
+
+    /**
+     * Uploads an image as multipart form data.
+     * Uses XMLHttpRequest rather than fetch so upload progress can be reported.
+     * The new image reaches the viewer through the UPLOAD stream event, so callers
+     * should not add the returned metadata to their own image lists.
+     * Large files can take a while, so there is no timeout unless given.
+     * @param file The image file to upload
+     * @param options Optional custom name, progress callback, abort signal and timeout
+     * @returns Promise<ImageMetadata> Metadata of the stored image
+     */
+    uploadImage: (file: File, options: UploadOptions = {}): Promise<ImageMetadata> => {
+      const { name, onProgress, signal, timeout = 0 } = options;
+
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(abortError('Upload cancelled'));
+          return;
+        }
+
+        const formData = new FormData();
+        formData.append('file', file);
+        if (name?.trim()) {
+          formData.append('name', name.trim());
+        }
+
+        const xhr = new XMLHttpRequest();
+        const handleAbort = () => xhr.abort();
+        const settle = (settleWith: () => void) => {
+          signal?.removeEventListener('abort', handleAbort);
+          settleWith();
+        };
+
+        xhr.upload.onprogress = (event) => {
+          if (event.lengthComputable && onProgress) {
+            onProgress(event.loaded / event.total);
+          }
+        };
+
+        xhr.onload = () => settle(() => {
+          if (xhr.status < 200 || xhr.status >= 300) {
+            const error = toHttpError(xhr.status, xhr.responseText);
+            reject(error.serverMessage ? error : new HttpError(`Upload failed: ${xhr.status}`, xhr.status));
+            return;
+          }
+          try {
+            const image = parseResponse(xhr.getResponseHeader('content-type'), xhr.responseText, imageMetadataSchema);
+            onProgress?.(1);
+            resolve(image);
+          } catch (error) {
+            reject(error);
+          }
+        });
+
+        xhr.onerror = () => settle(() => reject(new NetworkError()));
+        xhr.ontimeout = () => settle(() => reject(new TimeoutError(timeout)));
+        xhr.onabort = () => settle(() => reject(abortError('Upload cancelled')));
+
+        signal?.addEventListener('abort', handleAbort);
+        xhr.open('POST', url('/images'));
+        xhr.timeout = timeout;
+        xhr.send(formData);
+      });
+    },
+
+    /**
+     * Deletes an image. The backend broadcasts a DELETE event once it succeeds.
+     * @param id The ID of the image to delete
+     * @returns Promise<void> Resolves once the image has been deleted
+     */
+    deleteImage: (id: string, options: RequestOptions = {}): Promise<void> =>
+      request(
+        imagePath(id),
+        { method: 'DELETE' },
+        options,
+        async () => undefined,
+        'Image not found. It may already have been deleted.'
+      )
+  };
+};
+
+export type ImageApi = ReturnType<typeof createImageApi>;
+
+/** The client for the configured backend, shared by the whole app */
+export const imageApi = createImageApi({ baseUrl: import.meta.env.VITE_API_BASE_URL });
@@ -0,0 +1,66 @@
+/**
+ * Base class of every error thrown by the API client. Aborting a request
+ * is not an error here: aborted requests reject with the browser's
+ * `AbortError` DOMException, as `fetch` does.
+ */
+export class ApiError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * The server could not be reached
+ */
+export class NetworkError extends ApiError {
+  constructor(message = 'Unable to connect to the server. Please check if it is running.', cause?: unknown) {
+    super(message, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The server did not respond within the request's timeout
+ */
+export class TimeoutError extends NetworkError {
+  constructor(readonly timeout: number) {
+    super(`The server did not respond within ${Math.round(timeout / 1000)}s. Please try again.`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The server responded with a non-2xx status
+ */
+export class HttpError extends ApiError {
+  /**
+   * @param status The HTTP status code
+   * @param serverMessage The `error` of the response body, when there was one
+   */
+  constructor(message: string, readonly status: number, readonly serverMessage: string | null = null) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * The response was not of the expected content type
+ */
+export class ContentTypeError extends ApiError {
+  constructor(readonly expected: string, readonly contentType: string | null) {
+    super(`Invalid response from server. Expected ${expected === 'application/json' ? 'JSON' : expected}.`);
+    this.name = 'ContentTypeError';
+  }
+}
+
+/**
+ * The response body did not match the expected shape
+ * @param path Where in the body the mismatch is, e.g. `data[2].uploadedAt`
+ */
+export class SchemaError extends ApiError {
+  constructor(readonly path: string, readonly reason: string) {
+    super(`Invalid response from server: ${path} ${reason}`);
+    this.name = 'SchemaError';
+  }
+}
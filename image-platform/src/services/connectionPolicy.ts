@@ -0,0 +1,61 @@
+/**
+ * Tuning for how the image stream connects, detects a dead connection
+ * and recovers from one
+ */
+export interface ConnectionPolicy {
+  /** Upper bound of the first reconnect delay, in ms */
+  initialDelay: number;
+  /** Cap on the reconnect delay, in ms */
+  maxDelay: number;
+  /** Factor the delay bound grows by with each failed attempt */
+  backoffMultiplier: number;
+  /** Failed reconnect attempts before giving up; Infinity keeps trying */
+  maxAttempts: number;
+  /** How often to check that heartbeats are still arriving, in ms */
+  heartbeatCheckInterval: number;
+  /** Silence after which the stream is considered dead, in ms */
+  heartbeatTimeout: number;
+  /** How often to poll for changes while the stream is silent, in ms */
+  fallbackPollInterval: number;
+  /** Failed polls before falling back to reconnecting */
+  maxFailedPolls: number;
+  /** Hold reconnect attempts while the browser reports being offline */
+  pauseWhenOffline: boolean;
+  /** Hold reconnect attempts while the tab is hidden */
+  pauseWhenHidden: boolean;
+}
+
+export const DEFAULT_CONNECTION_POLICY: ConnectionPolicy = {
+  initialDelay: 2000,
+  maxDelay: 60000,
+  backoffMultiplier: 2,
+  maxAttempts: Infinity,
+  heartbeatCheckInterval: 1000,
+  heartbeatTimeout: 7000,
+  fallbackPollInterval: 5000,
+  maxFailedPolls: 3,
+  pauseWhenOffline: true,
+  pauseWhenHidden: true
+};
+
+/**
+ * Returns the delay before the given reconnect attempt (0 for the first),
+ * using exponential backoff with full jitter: a random delay between zero
+ * and the backoff bound, so clients that lost the backend at the same
+ * moment do not all come back at the same moment.
+ */
+export const getReconnectDelay = (
+  policy: ConnectionPolicy,
+  attempt: number,
+  random: () => number = Math.random
+) => {
+  const bound = Math.min(policy.maxDelay, policy.initialDelay * policy.backoffMultiplier ** attempt);
+  return Math.floor(random() * bound);
+};
+
+/**
+ * Whether reconnecting should wait for the network or for the tab to be shown
+ */
+export const shouldPauseReconnect = (policy: ConnectionPolicy) =>
+  (policy.pauseWhenOffline && typeof navigator !== 'undefined' && navigator.onLine === false) ||
+  (policy.pauseWhenHidden && typeof document !== 'undefined' && document.visibilityState === 'hidden');
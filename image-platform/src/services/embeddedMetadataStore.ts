@@ -0,0 +1,196 @@
+import { ImageMetadata, imageApi } from './api';
+import { EmbeddedMetadata, EMBEDDED_METADATA_TYPES, parseEmbeddedMetadata } from '../utils/embeddedMetadata';
+import type { ParseRequest, ParseResponse } from '../workers/embeddedMetadata.worker';
+
+interface EmbeddedMetadataStoreOptions {
+  /** Files fetched and parsed at the same time */
+  maxConcurrent: number;
+  /** Fetches the contents of an image, or as much of their start as holds its metadata */
+  fetchFile: (id: string) => Promise<ArrayBuffer>;
+  /**
+   * Parses the contents of an image. Rejecting with a `ParserFailedError`
+   * has the image read again rather than counted as having no metadata.
+   */
+  parse: (buffer: ArrayBuffer) => Promise<EmbeddedMetadata>;
+}
+
+type Listener = () => void;
+
+const DEFAULT_MAX_CONCURRENT = 2;
+// Metadata is read from the start of a file, where JPEG EXIF segments and PNG text chunks usually are
+const METADATA_BYTES = 128 * 1024;
+
+const fetchImageStart = (id: string) => imageApi.getImageStart(id, METADATA_BYTES);
+
+/**
+ * The parser stopped working while parsing a file, through no fault of the
+ * file, e.g. because its worker crashed
+ */
+export class ParserFailedError extends Error {
+  constructor(message = 'Embedded metadata worker failed') {
+    super(message);
+    this.name = 'ParserFailedError';
+  }
+}
+
+/**
+ * Returns a parser running in a Web Worker, or on the main thread where
+ * workers are unavailable or once the worker has failed. Files the worker
+ * was parsing when it failed are rejected with a `ParserFailedError`; their
+ * buffers went to the worker, so they have to be fetched again.
+ */
+const createWorkerParser = (): EmbeddedMetadataStoreOptions['parse'] => {
+  const parseHere = async (buffer: ArrayBuffer) => parseEmbeddedMetadata(buffer);
+  if (typeof Worker === 'undefined') return parseHere;
+
+  let worker: Worker | null = null;
+  let hasFailed = false;
+  let nextRequestId = 0;
+  const pending = new Map<number, { resolve: (metadata: EmbeddedMetadata) => void; reject: (err: unknown) => void }>();
+
+  const startWorker = () => {
+    const started = new Worker(new URL('../workers/embeddedMetadata.worker.ts', import.meta.url), { type: 'module' });
+    started.onmessage = (e: MessageEvent<ParseResponse>) => {
+      pending.get(e.data.requestId)?.resolve(e.data.metadata);
+      pending.delete(e.data.requestId);
+    };
+    started.onerror = (e) => {
+      console.log('Embedded metadata worker failed, parsing on the main thread:', e.message);
+      hasFailed = true;
+      started.terminate();
+      worker = null;
+      pending.forEach(({ reject }) => reject(new ParserFailedError()));
+      pending.clear();
+    };
+    return started;
+  };
+
+  return (buffer) => {
+    if (hasFailed) return parseHere(buffer);
+    worker ??= startWorker();
+    const requestId = nextRequestId++;
+    const request: ParseRequest = { requestId, buffer };
+    return new Promise((resolve, reject) => {
+      pending.set(requestId, { resolve, reject });
+      // Transferred rather than copied; the buffer is not used here again
+      worker!.postMessage(request, [buffer]);
+    });
+  };
+};
+
+/**
+ * Embedded metadata of images, such as EXIF tags, read in the background.
+ *
+ * Nothing is read until asked for: requested images are fetched and parsed
+ * a few at a time, most recently requested first, and each is read once.
+ * Images of types without readable metadata, and files that cannot be
+ * fetched or parsed, count as having none; those caught in a failure of the
+ * parser itself are read again. A deleted image's metadata is dropped.
+ */
+export class EmbeddedMetadataStore {
+  private entries = new Map<string, EmbeddedMetadata | null>();
+  private snapshot: ReadonlyMap<string, EmbeddedMetadata | null> = new Map();
+  private listeners = new Set<Listener>();
+  private queue: string[] = [];
+  private inFlight = new Set<string>();
+  // Images deleted while being read, whose results are discarded
+  private dropped = new Set<string>();
+  private readonly maxConcurrent: number;
+  private readonly fetchFile: EmbeddedMetadataStoreOptions['fetchFile'];
+  private readonly parse: EmbeddedMetadataStoreOptions['parse'];
+
+  constructor({
+    maxConcurrent = DEFAULT_MAX_CONCURRENT,
+    fetchFile = fetchImageStart,
+    parse = createWorkerParser()
+  }: Partial<EmbeddedMetadataStoreOptions> = {}) {
+    this.maxConcurrent = maxConcurrent;
+    this.fetchFile = fetchFile;
+    this.parse = parse;
+  }
+
+  /**
+   * Registers a listener called whenever metadata has been read
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Returns the metadata read so far, by image id. The map is replaced on
+   * every change, so it can be used as a `useSyncExternalStore` snapshot.
+   */
+  getSnapshot = () => this.snapshot;
+
+  /**
+   * Queues the images whose metadata has not been read yet, ahead of those
+   * requested before
+   */
+  request(images: ImageMetadata[]) {
+    const wanted: string[] = [];
+    let changed = false;
+    for (const image of images) {
+      if (this.entries.has(image.id) || this.inFlight.has(image.id)) continue;
+      if (EMBEDDED_METADATA_TYPES.includes(image.mimeType)) {
+        wanted.push(image.id);
+      } else {
+        this.entries.set(image.id, null);
+        changed = true;
+      }
+    }
+    if (changed) this.emit();
+
+    const wantedIds = new Set(wanted);
+    this.queue = [...wanted, ...this.queue.filter(id => !wantedIds.has(id))];
+    this.pump();
+  }
+
+  /**
+   * Forgets a deleted image's metadata, and stops reading it
+   */
+  dropImage(imageId: string) {
+    this.queue = this.queue.filter(id => id !== imageId);
+    if (this.inFlight.has(imageId)) this.dropped.add(imageId);
+    if (this.entries.delete(imageId)) this.emit();
+  }
+
+  private pump() {
+    while (this.inFlight.size < this.maxConcurrent && this.queue.length > 0) {
+      const id = this.queue.shift()!;
+      this.inFlight.add(id);
+      this.read(id).finally(() => {
+        this.inFlight.delete(id);
+        this.pump();
+      });
+    }
+  }
+
+  private async read(id: string) {
+    let metadata: EmbeddedMetadata | null = null;
+    try {
+      metadata = await this.parse(await this.fetchFile(id));
+    } catch (err) {
+      if (err instanceof ParserFailedError) {
+        // Read again next, by a parser that still works
+        if (!this.dropped.delete(id)) this.queue.unshift(id);
+        return;
+      }
+      console.log(`Could not read embedded metadata of ${id}:`, err);
+    }
+    if (this.dropped.delete(id)) return;
+    this.entries.set(id, metadata);
+    this.emit();
+  }
+
+  private emit() {
+    this.snapshot = new Map(this.entries);
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/** The metadata shared by everything showing images in this tab */
+export const embeddedMetadataStore = new EmbeddedMetadataStore();
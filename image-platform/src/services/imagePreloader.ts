@@ -0,0 +1,90 @@
+interface ImagePreloaderOptions {
+  /** Decoded images kept referenced, least recently used dropped first */
+  maxEntries: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 50;
+
+/**
+ * Fetches and decodes images ahead of display, so swapping an `<img src>`
+ * to a preloaded URL paints the full image at once instead of a blank or
+ * half-loaded frame. Loads are shared by URL, so any number of carousels
+ * asking for the same image cause one fetch and one decode.
+ */
+export class ImagePreloader {
+  private readonly maxEntries: number;
+  private pending = new Map<string, Promise<void>>();
+  // Settled loads, in least recently used order. Holding the element keeps
+  // the browser from discarding the decoded image.
+  private settled = new Map<string, HTMLImageElement>();
+
+  constructor({ maxEntries = DEFAULT_MAX_ENTRIES }: Partial<ImagePreloaderOptions> = {}) {
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Whether images can be decoded ahead of display. Where they cannot,
+   * every image counts as ready and is shown as soon as it is asked for.
+   */
+  static isSupported() {
+    return typeof HTMLImageElement !== 'undefined' && typeof HTMLImageElement.prototype.decode === 'function';
+  }
+
+  /**
+   * Whether the image has finished loading, successfully or not. Safe to
+   * call while rendering, as it changes nothing.
+   */
+  isReady(url: string) {
+    if (!ImagePreloader.isSupported()) return true;
+    return this.settled.has(url);
+  }
+
+  /**
+   * Marks a loaded image as recently used, so it is the last to be dropped
+   */
+  markUsed(url: string) {
+    const image = this.settled.get(url);
+    if (!image) return;
+    this.settled.delete(url);
+    this.settled.set(url, image);
+  }
+
+  /**
+   * Loads and decodes an image, sharing the load with any other caller.
+   * Resolves once it is ready to paint, and also when it fails to load,
+   * since waiting longer would not help.
+   */
+  load(url: string): Promise<void> {
+    if (this.isReady(url)) {
+      this.markUsed(url);
+      return Promise.resolve();
+    }
+
+    let pending = this.pending.get(url);
+    if (!pending) {
+      const image = new Image();
+      image.src = url;
+      pending = image.decode()
+        .catch(() => {
+          // Broken or missing images are shown as such rather than waited on
+        })
+        .then(() => {
+          this.pending.delete(url);
+          this.settle(url, image);
+        });
+      this.pending.set(url, pending);
+    }
+    return pending;
+  }
+
+  private settle(url: string, image: HTMLImageElement) {
+    this.settled.set(url, image);
+    while (this.settled.size > this.maxEntries) {
+      const oldest = this.settled.keys().next().value as string;
+      this.settled.delete(oldest);
+    }
+  }
+}
+
+/** The preloader shared by every carousel frame */
+export const imagePreloader = new ImagePreloader();
@@ -0,0 +1,239 @@
+import { ImageMetadata, imageApi } from './api';
+import { OfflineCache, offlineCache } from './offlineCache';
+import { mergeImageLists } from '../utils/imageDiff';
+
+interface ImageStoreOptions {
+  /** Where the list is persisted for when the backend cannot be reached */
+  offline: OfflineCache | null;
+}
+
+type Listener = () => void;
+
+/**
+ * Normalized client-side cache of image metadata.
+ *
+ * Images are held once each, keyed by id, with the list order kept
+ * separately, so everything showing images reads the same objects. Fetches
+ * are deduplicated: concurrent requests for the same image, or for the list,
+ * share one request. Once the list has been fetched, the cached one is shown
+ * straight away whenever the stream store starts, while it is revalidated.
+ * If a response carries an ETag, the next fetch of the list is conditional
+ * on it; image-service sends none, so in practice the list is always
+ * fetched in full. With an offline cache, the list is persisted on every
+ * change and can be restored from it while the backend is down.
+ */
+export class ImageStore {
+  private entities = new Map<string, ImageMetadata>();
+  private ids: string[] = [];
+  private snapshot: ImageMetadata[] = [];
+  private listeners = new Set<Listener>();
+  private readonly offline: OfflineCache | null;
+
+  // The list as last returned by the server, and its ETag if it had one
+  private serverList: ImageMetadata[] | null = null;
+  private etag: string | null = null;
+
+  private pendingList: Promise<ImageMetadata[]> | null = null;
+  // Bumped by clear() so requests from before it are not cached
+  private generation = 0;
+  private pendingImages = new Map<string, Promise<ImageMetadata>>();
+
+  constructor({ offline = null }: Partial<ImageStoreOptions> = {}) {
+    this.offline = offline;
+  }
+
+  /**
+   * Registers a listener called whenever the image list changes
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Returns the images in list order. The array is replaced on every
+   * change and unchanged images keep their objects, so it can be used as a
+   * `useSyncExternalStore` snapshot.
+   */
+  getSnapshot = () => this.snapshot;
+
+  /** Whether a list has been fetched, so there is something to show while revalidating */
+  get hasList() {
+    return this.serverList !== null;
+  }
+
+  getImage(id: string): ImageMetadata | undefined {
+    return this.entities.get(id);
+  }
+
+  /**
+   * Returns an image's metadata, fetching it unless it is already cached.
+   * Concurrent calls for the same image share one request.
+   */
+  fetchImage(id: string): Promise<ImageMetadata> {
+    const cached = this.entities.get(id);
+    if (cached) return Promise.resolve(cached);
+
+    let pending = this.pendingImages.get(id);
+    if (!pending) {
+      pending = imageApi.getImageMetadata(id)
+        .then(image => {
+          // The list may have brought the image in while this was in flight
+          const current = this.entities.get(image.id);
+          if (current) return current;
+          this.entities.set(image.id, image);
+          return image;
+        })
+        .finally(() => this.pendingImages.delete(id));
+      this.pendingImages.set(id, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Fetches the server's current list, without applying it. Sends the ETag
+   * of the last response, if it had one, so an unchanged list can be
+   * answered with a 304, and shares one request between concurrent callers.
+   */
+  fetchList(): Promise<ImageMetadata[]> {
+    if (!this.pendingList) {
+      const generation = this.generation;
+      this.pendingList = imageApi.getImageList({ etag: this.etag })
+        .then(result => {
+          if (!result.notModified || !this.serverList) {
+            if (result.notModified) {
+              // A 304 for a list this store never received; refetch unconditionally
+              this.etag = null;
+              return imageApi.getImages();
+            }
+            this.etag = result.etag;
+            return result.data;
+          }
+          return this.serverList;
+        })
+        .then(images => {
+          if (generation === this.generation) {
+            this.serverList = images;
+            this.offline?.reconcile(images)
+              .catch(err => console.log('Failed to reconcile the offline cache:', err));
+          }
+          return images;
+        })
+        .finally(() => {
+          if (generation === this.generation) {
+            this.pendingList = null;
+          }
+        });
+    }
+    return this.pendingList;
+  }
+
+  /**
+   * Fetches the server's list and merges it into the cached one
+   * @param excludedIds Images to leave out, e.g. ones with a delete in flight
+   */
+  async revalidateList(excludedIds: ReadonlySet<string> = new Set()) {
+    const images = await this.fetchList();
+    this.setList(images, excludedIds);
+    return this.snapshot;
+  }
+
+  /**
+   * Shows the persisted list when nothing has been loaded from the server,
+   * e.g. because the backend is down
+   * @returns Whether persisted images are now listed
+   */
+  async restoreOffline() {
+    if (this.hasList || this.ids.length > 0 || !this.offline) return this.ids.length > 0;
+    const images = await this.offline.loadImages();
+    // The server may have answered while the cache was being read
+    if (images && !this.hasList && this.ids.length === 0) {
+      this.setList(images);
+    }
+    return this.ids.length > 0;
+  }
+
+  /**
+   * Replaces the list with the given one, keeping the objects of images
+   * that did not change
+   * @param excludedIds Images to leave out, e.g. ones with a delete in flight
+   */
+  setList(images: ImageMetadata[], excludedIds: ReadonlySet<string> = new Set()) {
+    const merged = mergeImageLists(this.snapshot, images, excludedIds);
+    if (merged === this.snapshot) return;
+    const ids = merged.map(image => image.id);
+    const listed = new Set(ids);
+    this.ids.filter(id => !listed.has(id)).forEach(id => this.entities.delete(id));
+    merged.forEach(image => this.entities.set(image.id, image));
+    this.ids = ids;
+    this.emit();
+  }
+
+  /**
+   * Adds an image to the end of the list, unless it is already listed
+   */
+  add(image: ImageMetadata) {
+    if (this.ids.includes(image.id)) return;
+    this.entities.set(image.id, image);
+    this.ids = [...this.ids, image.id];
+    this.emit();
+  }
+
+  /**
+   * Puts an image back at a position, e.g. to roll back a failed delete
+   */
+  insert(image: ImageMetadata, index: number) {
+    if (this.ids.includes(image.id)) return;
+    this.entities.set(image.id, image);
+    const ids = [...this.ids];
+    ids.splice(Math.min(index, ids.length), 0, image.id);
+    this.ids = ids;
+    this.emit();
+  }
+
+  /**
+   * Removes an image from the list
+   * @returns The removed image and its position, or null if it was not listed
+   */
+  remove(id: string): { image: ImageMetadata; index: number } | null {
+    const index = this.ids.indexOf(id);
+    if (index === -1) return null;
+    const image = this.entities.get(id)!;
+    this.entities.delete(id);
+    this.ids = this.ids.filter(listedId => listedId !== id);
+    this.emit();
+    return { image, index };
+  }
+
+  /**
+   * Forgets everything, including the ETag, the cached list and anything
+   * persisted offline
+   */
+  clear() {
+    this.entities.clear();
+    this.ids = [];
+    this.serverList = null;
+    this.etag = null;
+    this.generation++;
+    this.pendingList = null;
+    this.pendingImages.clear();
+    this.snapshot = [];
+    this.listeners.forEach(listener => listener());
+    this.offline?.clear()
+      .catch(err => console.log('Failed to clear the offline cache:', err));
+  }
+
+  private emit() {
+    const snapshot = this.ids.map(id => this.entities.get(id)!);
+    this.snapshot = snapshot;
+    this.listeners.forEach(listener => listener());
+    this.offline?.saveImages(snapshot)
+      .catch(err => console.log('Failed to persist the image list:', err));
+  }
+}
+
+/** The cache shared by everything showing images in this tab */
+export const imageStore = new ImageStore({ offline: offlineCache });
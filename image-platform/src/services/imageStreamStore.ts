@@ -0,0 +1,822 @@
+import { ImageMetadata, ImageEvent, imageApi } from './api';
+import { ImageStore, imageStore } from './imageStore';
+import { PlaylistStore, playlistStore } from './playlistStore';
+import { AnnotationStore, annotationStore } from './annotationStore';
+import { EmbeddedMetadataStore, embeddedMetadataStore } from './embeddedMetadataStore';
+import { serviceWorkerClient } from './serviceWorker';
+import { TabLeaderElection } from './tabLeader';
+import {
+  ConnectionPolicy,
+  DEFAULT_CONNECTION_POLICY,
+  getReconnectDelay,
+  shouldPauseReconnect
+} from './connectionPolicy';
+import {
+  DEFAULT_TRANSPORT_ORDER,
+  ImageEventTransport,
+  TransportName,
+  createTransport,
+  getSupportedTransports,
+  parseTransportOrder
+} from './transports';
+import { diffImageLists, isEmptyDiff, toImageEvents } from '../utils/imageDiff';
+
+// Channels shared by the tabs of this origin
+const LEADER_CHANNEL = 'image-stream-leader';
+const EVENTS_CHANNEL = 'image-stream-events';
+
+/**
+ * Where the connection is in its lifecycle:
+ * - `idle`: nothing is subscribed
+ * - `loading`: fetching the initial image list
+ * - `following`: another tab holds the connection and relays its events
+ * - `connecting` / `connected`: opening or holding a transport
+ * - `polling`: connected, but heartbeats stopped so changes are polled for
+ * - `reconnecting`: waiting out the backoff delay before the next attempt
+ * - `paused`: reconnecting is held until the browser is online and the tab visible
+ * - `failed`: gave up after the policy's attempt limit
+ */
+export type ConnectionPhase =
+  | 'idle'
+  | 'loading'
+  | 'following'
+  | 'connecting'
+  | 'connected'
+  | 'polling'
+  | 'reconnecting'
+  | 'paused'
+  | 'failed';
+
+export interface ConnectionLogEntry {
+  /** Wall time of the transition, in ms */
+  at: number;
+  phase: ConnectionPhase;
+  message: string;
+}
+
+export interface ConnectionDiagnostics {
+  phase: ConnectionPhase;
+  /** Whether this tab holds the stream connection or follows another tab */
+  role: 'leader' | 'follower' | null;
+  /** Wall time the last heartbeat arrived, in ms */
+  lastHeartbeatAt: number | null;
+  /** Reconnect attempts made since the connection was last established */
+  reconnectAttempt: number;
+  /** Wall time of the next scheduled reconnect attempt, in ms */
+  nextReconnectAt: number | null;
+  eventCounts: Record<ImageEvent['type'], number>;
+  isFallbackPolling: boolean;
+  /** Recent phase transitions, newest first */
+  log: ConnectionLogEntry[];
+}
+
+export interface ImageStreamState {
+  images: ImageMetadata[];
+  error: string | null;
+  isLoading: boolean;
+  isConnected: boolean;
+  /** Transport the stream is currently received over, null before connecting */
+  transport: TransportName | null;
+  diagnostics: ConnectionDiagnostics;
+}
+
+interface ImageStreamStoreOptions {
+  /** Transports to try, most preferred first */
+  transports: TransportName[];
+  /** Reconnect and heartbeat tuning; unset fields use the defaults */
+  policy: Partial<ConnectionPolicy>;
+  /** Cache the images are kept in and read from */
+  images: ImageStore;
+  /** Playlists kept in step with uploads and deletes */
+  playlists: PlaylistStore | null;
+  /** Annotations dropped along with deleted images */
+  annotations: AnnotationStore | null;
+  /** Embedded metadata dropped along with deleted images */
+  embeddedMetadata: EmbeddedMetadataStore | null;
+}
+
+/** Messages the leader tab relays to the other tabs */
+type RelayMessage =
+  | { type: 'event'; event: ImageEvent }
+  | { type: 'status'; isConnected: boolean; error: string | null; transport: TransportName | null }
+  | { type: 'status-request' }
+  | { type: 'reconnect-request' };
+
+type Listener = () => void;
+
+const MAX_LOG_ENTRIES = 50;
+
+const INITIAL_DIAGNOSTICS: ConnectionDiagnostics = {
+  phase: 'idle',
+  role: null,
+  lastHeartbeatAt: null,
+  reconnectAttempt: 0,
+  nextReconnectAt: null,
+  eventCounts: { UPLOAD: 0, DELETE: 0, HEARTBEAT: 0 },
+  isFallbackPolling: false,
+  log: []
+};
+
+const INITIAL_STATE: ImageStreamState = {
+  images: [],
+  error: null,
+  isLoading: true,
+  isConnected: false,
+  transport: null,
+  diagnostics: INITIAL_DIAGNOSTICS
+};
+
+/**
+ * Shared connection to the backend image stream.
+ *
+ * Any number of subscribers share one set of images and one connection; the
+ * store connects when the first subscriber arrives and disconnects when the
+ * last one leaves. Across tabs, only the elected leader opens the SSE
+ * connection, and it relays stream events and its connection status to the
+ * other tabs. When the leader tab closes another tab takes over, resyncing
+ * from the last event it saw.
+ */
+export class ImageStreamStore {
+  private state: ImageStreamState = INITIAL_STATE;
+  private listeners = new Set<Listener>();
+  private election: TabLeaderElection | null = null;
+  private relay: BroadcastChannel | null = null;
+  private isRunning = false;
+  private readonly transportPreference: TransportName[];
+  private readonly images: ImageStore;
+  private readonly playlists: PlaylistStore | null;
+  private readonly annotations: AnnotationStore | null;
+  private readonly embeddedMetadata: EmbeddedMetadataStore | null;
+  private unsubscribeImages: (() => void) | null = null;
+  // Transports from the preference that this browser supports
+  private transportOrder: TransportName[] = [];
+
+  // Connection instances and intervals, only used while leading
+  private transport: ImageEventTransport | null = null;
+  private transportIndex = 0;
+  private transportOpened = false;
+  private policy: ConnectionPolicy;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Set while a reconnect waits for the browser to be online and the tab visible
+  private reconnectPaused = false;
+  private lastHeartbeat = Date.now();
+  private heartbeatChecker: ReturnType<typeof setInterval> | null = null;
+  private fallbackPolling: ReturnType<typeof setInterval> | null = null;
+  private failedPolls = 0;
+
+  // Optimistic deletes: ids awaiting a server response, and the subset
+  // whose DELETE event has already been echoed back by the stream
+  private pendingDeletes = new Set<string>();
+  private confirmedDeletes = new Set<string>();
+
+  // Whether this tab has seen stream events, from its own connection or
+  // relayed, so on taking over it knows it may have missed some since
+  private hasSeenEvents = false;
+
+  constructor({
+    transports = DEFAULT_TRANSPORT_ORDER,
+    policy = {},
+    images = new ImageStore(),
+    playlists = null,
+    annotations = null,
+    embeddedMetadata = null
+  }: Partial<ImageStreamStoreOptions> = {}) {
+    this.transportPreference = transports;
+    this.images = images;
+    this.playlists = playlists;
+    this.annotations = annotations;
+    this.embeddedMetadata = embeddedMetadata;
+    this.policy = { ...DEFAULT_CONNECTION_POLICY, ...policy };
+  }
+
+  /**
+   * Changes the given fields of the connection policy, keeping the others.
+   * The policy is shared by everything using this store, and takes effect
+   * from the next reconnect or connection.
+   */
+  configure = (policy: Partial<ConnectionPolicy>) => {
+    this.policy = { ...this.policy, ...policy };
+  };
+
+  /**
+   * Registers a listener called on every state change. The first
+   * subscriber starts the connection and the last one to leave stops it.
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.start();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  };
+
+  /**
+   * Returns the current state. The object is replaced on every change,
+   * so it can be used as a `useSyncExternalStore` snapshot.
+   */
+  getSnapshot = () => this.state;
+
+  /**
+   * Deletes an image, removing it from the list before the server responds.
+   * The removal is rolled back if the request fails, and the error is rethrown
+   * so the caller can report it.
+   */
+  deleteImage = async (id: string) => {
+    const removed = this.images.remove(id);
+    this.pendingDeletes.add(id);
+
+    try {
+      await imageApi.deleteImage(id);
+    } catch (err) {
+      // The stream already confirmed the delete, so there is nothing to restore
+      if (!this.confirmedDeletes.has(id) && removed) {
+        this.images.insert(removed.image, removed.index);
+      }
+      throw err;
+    } finally {
+      this.pendingDeletes.delete(id);
+      this.confirmedDeletes.delete(id);
+    }
+  };
+
+  /**
+   * Drops any pending backoff and reconnects straight away, even while
+   * reconnecting is paused. A follower tab asks the leader to reconnect.
+   */
+  reconnectNow = () => {
+    if (!this.isRunning) return;
+    if (this.election && !this.election.isLeader) {
+      this.transition(this.state.diagnostics.phase, 'Asked the leader tab to reconnect');
+      this.postRelay({ type: 'reconnect-request' });
+      this.attemptReconnect({ force: true });
+      return;
+    }
+
+    this.transition('connecting', 'Manual reconnect requested');
+    this.cleanupConnections();
+    this.reconnectAttempt = 0;
+    this.transportIndex = 0;
+    this.attemptReconnect({ force: true });
+  };
+
+  private start() {
+    this.isRunning = true;
+    // Show what is cached straight away, the initial load revalidates it
+    this.state = { ...INITIAL_STATE, images: this.images.getSnapshot(), isLoading: !this.images.hasList };
+    this.unsubscribeImages = this.images.subscribe(() => this.setState({ images: this.images.getSnapshot() }));
+    this.transition('loading', 'Loading images');
+    this.transportOrder = getSupportedTransports(this.transportPreference);
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.relay = new BroadcastChannel(EVENTS_CHANNEL);
+      this.relay.onmessage = (event: MessageEvent<RelayMessage>) => this.handleRelayMessage(event.data);
+    }
+    this.election = new TabLeaderElection(LEADER_CHANNEL, {
+      onChange: isLeader => this.handleLeadershipChange(isLeader)
+    });
+    window.addEventListener('online', this.resumeReconnect);
+    document.addEventListener('visibilitychange', this.resumeReconnect);
+
+    this.loadInitialImages().then(() => {
+      if (this.isRunning) {
+        this.election?.start();
+      }
+    });
+  }
+
+  private stop() {
+    this.isRunning = false;
+    this.unsubscribeImages?.();
+    this.unsubscribeImages = null;
+    this.election?.stop();
+    this.election = null;
+    this.relay?.close();
+    this.relay = null;
+    window.removeEventListener('online', this.resumeReconnect);
+    document.removeEventListener('visibilitychange', this.resumeReconnect);
+    this.cleanupConnections();
+    this.reconnectAttempt = 0;
+    this.transportIndex = 0;
+    this.hasSeenEvents = false;
+    this.state = INITIAL_STATE;
+  }
+
+  private handleLeadershipChange(isLeader: boolean) {
+    if (!this.isRunning) return;
+    if (isLeader) {
+      console.log('This tab now owns the image stream connection');
+      this.setDiagnostics({ role: 'leader' });
+      // Catch up on anything missed between the old leader leaving and now
+      if (this.hasSeenEvents) {
+        this.resyncImages()
+          .catch(err => console.log('Resync failed, backend may still be unavailable:', err))
+          .finally(() => this.connectTransport());
+      } else {
+        this.connectTransport();
+      }
+    } else {
+      console.log('Another tab owns the image stream connection');
+      this.cleanupConnections();
+      this.setDiagnostics({ role: 'follower' });
+      this.transition('following', 'Another tab holds the stream connection');
+      this.postRelay({ type: 'status-request' });
+    }
+  }
+
+  private handleRelayMessage(message: RelayMessage) {
+    const isLeader = this.election?.isLeader ?? false;
+    switch (message.type) {
+      case 'event':
+        if (!isLeader) {
+          this.handleImageEvent(message.event);
+        }
+        break;
+      case 'status':
+        if (!isLeader) {
+          this.setState({ isConnected: message.isConnected, error: message.error, transport: message.transport });
+        }
+        break;
+      case 'status-request':
+        if (isLeader) {
+          this.broadcastStatus();
+        }
+        break;
+      case 'reconnect-request':
+        if (isLeader) {
+          this.reconnectNow();
+        }
+        break;
+    }
+  }
+
+  private postRelay(message: RelayMessage) {
+    this.relay?.postMessage(message);
+  }
+
+  private broadcastStatus() {
+    const { isConnected, error, transport } = this.state;
+    this.postRelay({ type: 'status', isConnected, error, transport });
+  }
+
+  private setState(changes: Partial<ImageStreamState>) {
+    const changed = (Object.keys(changes) as (keyof ImageStreamState)[])
+      .some(key => changes[key] !== this.state[key]);
+    if (!changed) return;
+
+    this.state = { ...this.state, ...changes };
+    if (this.election?.isLeader && ('isConnected' in changes || 'error' in changes || 'transport' in changes)) {
+      this.broadcastStatus();
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  private setDiagnostics(changes: Partial<ConnectionDiagnostics>) {
+    this.setState({ diagnostics: { ...this.state.diagnostics, ...changes } });
+  }
+
+  /**
+   * Moves to a phase and records why in the rolling connection log
+   */
+  private transition(phase: ConnectionPhase, message: string) {
+    const entry: ConnectionLogEntry = { at: Date.now(), phase, message };
+    this.setDiagnostics({
+      phase,
+      log: [entry, ...this.state.diagnostics.log].slice(0, MAX_LOG_ENTRIES)
+    });
+  }
+
+  /**
+   * Cleans up all active connections and intervals
+   */
+  private cleanupConnections() {
+    if (this.transport) {
+      console.log('Closing existing image stream connection');
+      this.transport.close();
+      this.transport = null;
+      this.transportOpened = false;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectPaused = false;
+    this.setDiagnostics({ nextReconnectAt: null, isFallbackPolling: false });
+    if (this.heartbeatChecker) {
+      clearInterval(this.heartbeatChecker);
+      this.heartbeatChecker = null;
+    }
+    if (this.fallbackPolling) {
+      clearInterval(this.fallbackPolling);
+      this.fallbackPolling = null;
+    }
+  }
+
+  /**
+   * Schedules the next reconnect attempt after a backoff delay. Attempts are
+   * held while the browser is offline or the tab hidden, and stop for good
+   * once the policy's attempt limit is reached.
+   */
+  private scheduleReconnect() {
+    if (!this.isRunning || this.reconnectTimer || this.reconnectPaused) return;
+
+    if (this.reconnectAttempt >= this.policy.maxAttempts) {
+      console.error('Max reconnect attempts reached, giving up');
+      this.setState({
+        isConnected: false,
+        error: 'Unable to connect to image stream. Please check if the server is running.'
+      });
+      this.transition('failed', `Gave up after ${this.reconnectAttempt} reconnect attempts`);
+      return;
+    }
+    if (shouldPauseReconnect(this.policy)) {
+      this.pauseReconnect();
+      return;
+    }
+
+    const delay = getReconnectDelay(this.policy, this.reconnectAttempt);
+    this.reconnectAttempt++;
+    console.log(`Reconnect attempt ${this.reconnectAttempt} in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.setDiagnostics({ nextReconnectAt: null });
+      this.attemptReconnect();
+    }, delay);
+    this.setDiagnostics({ reconnectAttempt: this.reconnectAttempt, nextReconnectAt: Date.now() + delay });
+    this.transition('reconnecting', `Reconnect attempt ${this.reconnectAttempt} in ${Math.round(delay / 1000)}s`);
+  }
+
+  private pauseReconnect() {
+    console.log('Reconnect paused until the browser is online and the tab is visible');
+    this.reconnectPaused = true;
+    this.setDiagnostics({ nextReconnectAt: null });
+    this.transition('paused', navigator.onLine === false
+      ? 'Waiting for the network to come back'
+      : 'Waiting for the tab to be visible');
+  }
+
+  /**
+   * Reconnects straight away when the browser comes back online or the tab
+   * is shown, instead of waiting out the backoff delay
+   */
+  private resumeReconnect = () => {
+    if (!this.reconnectPaused && !this.reconnectTimer) return;
+    if (shouldPauseReconnect(this.policy)) return;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectPaused = false;
+    this.attemptReconnect();
+  };
+
+  /**
+   * Polls the image list while the stream is silent, turning any changes
+   * into UPLOAD/DELETE events so the images stay current while degraded
+   */
+  private async pollForChanges() {
+    try {
+      const fetchedImages = await this.images.fetchList();
+      // Reset failed polls count on successful check
+      this.failedPolls = 0;
+      this.setState({ isConnected: true, error: null });
+
+      // Images with a delete in flight are still on the server, but not new
+      const current = [
+        ...this.images.getSnapshot(),
+        ...fetchedImages.filter(image => this.pendingDeletes.has(image.id))
+      ];
+      const diff = diffImageLists(current, fetchedImages);
+      const fetchedById = new Map(fetchedImages.map(image => [image.id, image]));
+      toImageEvents(diff).forEach(event => this.dispatchEvent(event, fetchedById.get(event.image_id)));
+      return true;
+    } catch (err) {
+      this.failedPolls++;
+      console.log(`Fallback poll failed (${this.failedPolls}/${this.policy.maxFailedPolls})`);
+
+      if (this.failedPolls >= this.policy.maxFailedPolls) {
+        this.setState({ isConnected: false, error: 'Connection lost. Please check if the server is running.' });
+        this.transition('reconnecting', `${this.failedPolls} fallback polls failed`);
+        // Stop polling after max failures
+        this.stopFallbackPolling();
+        // Trigger reconnection if not already trying
+        this.scheduleReconnect();
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Starts fallback polling when heartbeats are missing
+   */
+  private startFallbackPolling() {
+    if (this.fallbackPolling) return; // Already polling
+
+    console.log('Starting fallback polling');
+    this.failedPolls = 0;
+    this.setDiagnostics({ isFallbackPolling: true });
+    this.transition('polling', 'Heartbeats missing, polling for changes');
+    this.fallbackPolling = setInterval(() => this.pollForChanges(), this.policy.fallbackPollInterval);
+    // Poll immediately
+    this.pollForChanges();
+  }
+
+  /**
+   * Stops fallback polling (called when heartbeats resume)
+   */
+  private stopFallbackPolling() {
+    if (this.fallbackPolling) {
+      console.log('Stopping fallback polling');
+      clearInterval(this.fallbackPolling);
+      this.fallbackPolling = null;
+      this.setDiagnostics({ isFallbackPolling: false });
+    }
+    this.failedPolls = 0;
+  }
+
+  /**
+   * Checks for missing heartbeats and manages fallback polling
+   */
+  private checkHeartbeat() {
+    if (!this.isRunning) return;
+
+    const timeSinceLastHeartbeat = Date.now() - this.lastHeartbeat;
+    if (timeSinceLastHeartbeat > this.policy.heartbeatTimeout) {
+      // Start fallback polling if heartbeat is missing
+      this.startFallbackPolling();
+    }
+  }
+
+  /**
+   * Applies an event received or synthesized by this tab, and relays it to the other tabs
+   */
+  private dispatchEvent(event: ImageEvent, metadata?: ImageMetadata) {
+    this.handleImageEvent(event, metadata);
+    this.postRelay({ type: 'event', event });
+  }
+
+  /**
+   * Handles incoming image events (upload/delete/heartbeat), whether from
+   * this tab's own connection or relayed by the leader
+   * @param metadata The uploaded image's metadata, when already known
+   */
+  private async handleImageEvent(event: ImageEvent, metadata?: ImageMetadata) {
+    this.hasSeenEvents = true;
+    // Playlists and annotations are shared by every tab through storage, so only the leader changes them
+    const isLeader = this.election?.isLeader ?? false;
+    const { diagnostics } = this.state;
+    this.setDiagnostics({
+      eventCounts: { ...diagnostics.eventCounts, [event.type]: diagnostics.eventCounts[event.type] + 1 }
+    });
+
+    try {
+      if (event.type === 'HEARTBEAT') {
+        this.lastHeartbeat = Date.now();
+        this.setDiagnostics({ lastHeartbeatAt: this.lastHeartbeat });
+        if (this.fallbackPolling) {
+          this.stopFallbackPolling();
+          this.transition('connected', 'Heartbeats resumed');
+        }
+        return;
+      }
+
+      if (event.type === 'UPLOAD') {
+        try {
+          // Fetch full metadata for newly uploaded image
+          const uploaded = metadata ?? await this.images.fetchImage(event.image_id);
+          this.images.add(uploaded);
+          if (isLeader) {
+            this.playlists?.includeUpload(uploaded);
+          }
+        } catch (err) {
+          console.error('Error fetching image metadata:', err);
+        }
+      } else if (event.type === 'DELETE') {
+        // Image contents are cached by id, and a deleted id's contents are gone for good
+        serviceWorkerClient.purgeImage(event.image_id);
+        this.embeddedMetadata?.dropImage(event.image_id);
+        if (isLeader) {
+          this.dropImageReferences(event.image_id);
+        }
+        // Our own optimistic delete already removed the image, so the echo is a no-op
+        if (this.pendingDeletes.has(event.image_id)) {
+          this.confirmedDeletes.add(event.image_id);
+          return;
+        }
+        this.images.remove(event.image_id);
+      }
+    } catch (err) {
+      console.error('Error handling image event:', err);
+    }
+  }
+
+  /**
+   * Removes a deleted image from the persisted stores that refer to it
+   */
+  private dropImageReferences(imageId: string) {
+    this.playlists?.dropImage(imageId);
+    this.annotations?.dropImage(imageId);
+  }
+
+  /**
+   * Refetches the image list after a gap in the stream and merges it into
+   * the current list, so only images that were added, removed or reordered
+   * during the gap change. Images with a delete in flight stay removed, and
+   * the removed ones are dropped from the other stores: the persisted ones
+   * by the leader alone.
+   *
+   * The backend neither numbers nor replays events, so the full list is the
+   * only way to learn what was missed.
+   */
+  private async resyncImages() {
+    const fetchedImages = await this.images.fetchList();
+    const diff = diffImageLists(this.images.getSnapshot(), fetchedImages);
+    if (!isEmptyDiff(diff)) {
+      console.log(
+        `Resynced images: ${diff.added.length} added, ${diff.removed.length} removed, ` +
+        `${diff.updated.length} updated${diff.reordered ? ', reordered' : ''}`
+      );
+    }
+    this.images.setList(fetchedImages, this.pendingDeletes);
+    diff.removed.forEach(image => this.embeddedMetadata?.dropImage(image.id));
+    if (this.election?.isLeader) {
+      diff.removed.forEach(image => this.dropImageReferences(image.id));
+    }
+  }
+
+  /**
+   * Connects with the preferred transport for real-time updates.
+   * A transport that fails before it ever connects is skipped for the next
+   * one in the preference order; a connection that drops is retried on the
+   * same transport.
+   */
+  private connectTransport() {
+    if (!this.isRunning || !this.election?.isLeader) return;
+
+    // Keep an established connection
+    if (this.transport && this.transportOpened) {
+      this.setState({ isConnected: true, error: null });
+      return;
+    }
+
+    this.cleanupConnections();
+
+    const name = this.transportOrder[this.transportIndex];
+    if (!name) {
+      console.error('No supported transport for the image stream');
+      this.setState({
+        error: 'Unable to connect to image stream. Please check if the server is running.',
+        isConnected: false
+      });
+      this.transition('failed', 'No supported transport');
+      return;
+    }
+
+    console.log(`Connecting to image stream over ${name}...`);
+    this.transition('connecting', `Connecting over ${name}`);
+    const transport = createTransport(name);
+    this.transport = transport;
+    this.transportOpened = false;
+
+    const markOpen = () => {
+      if (this.transportOpened) return;
+      this.transportOpened = true;
+      this.reconnectAttempt = 0;
+      this.setState({ isConnected: true, error: null, transport: name });
+      this.setDiagnostics({ reconnectAttempt: 0 });
+      this.transition('connected', `Connected over ${name}`);
+    };
+
+    transport.connect({
+      onOpen: () => {
+        if (this.transport !== transport) return;
+        console.log(`Image stream connected over ${name}`);
+        markOpen();
+
+        // Start heartbeat checking
+        this.lastHeartbeat = Date.now();
+        if (this.heartbeatChecker) {
+          clearInterval(this.heartbeatChecker);
+        }
+        this.heartbeatChecker = setInterval(() => this.checkHeartbeat(), this.policy.heartbeatCheckInterval);
+      },
+      onEvent: (imageEvent) => {
+        if (this.transport !== transport) return;
+        // Any valid event shows the connection works
+        markOpen();
+        this.dispatchEvent(imageEvent);
+      },
+      onError: (e) => {
+        if (this.transport !== transport) return;
+        console.error(`Image stream error over ${name}:`, e);
+        this.handleTransportError(name);
+      }
+    });
+  }
+
+  private handleTransportError(name: TransportName) {
+    const wasOpen = this.transportOpened;
+    this.transport = null;
+    this.transportOpened = false;
+    this.setState({ isConnected: false, transport: null });
+
+    // Reconnect attempts take over from heartbeat monitoring
+    if (this.heartbeatChecker) {
+      clearInterval(this.heartbeatChecker);
+      this.heartbeatChecker = null;
+    }
+    this.stopFallbackPolling();
+
+    // A transport that never connected is probably blocked on this network
+    this.transition(this.state.diagnostics.phase, wasOpen ? `Connection over ${name} lost` : `Could not connect over ${name}`);
+    if (!wasOpen && this.transportIndex < this.transportOrder.length - 1) {
+      this.transportIndex++;
+      console.log(`Falling back to ${this.transportOrder[this.transportIndex]}`);
+      this.connectTransport();
+      return;
+    }
+
+    this.setState({ error: 'Connection lost. Reconnecting...' });
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Attempts to reconnect to the backend after connection loss
+   * First verifies backend availability, catching up on anything missed
+   * during the gap, then renegotiates the transport
+   */
+  private async attemptReconnect({ force = false } = {}) {
+    if (!this.isRunning) return;
+    // The network or visibility may have changed while the attempt was scheduled
+    if (!force && shouldPauseReconnect(this.policy)) {
+      this.pauseReconnect();
+      return;
+    }
+    console.log('Attempting to reconnect...');
+
+    try {
+      await this.resyncImages();
+      console.log('Successfully resynced images, attempting to restore connection');
+
+      if (this.election?.isLeader) {
+        // The network may have changed, so start again from the preferred transport
+        this.transportIndex = 0;
+        this.connectTransport();
+      } else {
+        // Followers only needed the list; the leader owns the connection
+        this.reconnectAttempt = 0;
+        this.setState({ isConnected: true, error: null });
+        this.setDiagnostics({ reconnectAttempt: 0 });
+        this.transition('following', 'Resynced with the server');
+      }
+    } catch (err) {
+      console.log('Backend still unavailable');
+      this.setState({ isConnected: false, error: 'Unable to connect to server. Retrying...' });
+      this.scheduleReconnect();
+    }
+  }
+
+  private async loadInitialImages() {
+    try {
+      console.log('Fetching initial images...');
+      await this.images.revalidateList(this.pendingDeletes);
+      if (!this.isRunning) return;
+      this.setState({
+        isLoading: false,
+        isConnected: true,
+        error: null
+      });
+    } catch (err) {
+      if (!this.isRunning) return;
+      console.error('Failed to fetch initial images:', err);
+      // Keep displays running on the last images persisted offline
+      const restored = await this.images.restoreOffline().catch(() => false);
+      if (!this.isRunning) return;
+      if (restored) {
+        this.transition('loading', 'Showing cached images while the server is unreachable');
+      }
+      this.setState({
+        error: 'Unable to load images. Please check if the server is running.',
+        isLoading: false,
+        isConnected: false
+      });
+      this.scheduleReconnect();
+    }
+  }
+}
+
+/** The store shared by every `useImageStream` in this tab */
+export const imageStreamStore = new ImageStreamStore({
+  transports: parseTransportOrder(import.meta.env.VITE_STREAM_TRANSPORTS),
+  images: imageStore,
+  playlists: playlistStore,
+  annotations: annotationStore,
+  embeddedMetadata: embeddedMetadataStore
+});
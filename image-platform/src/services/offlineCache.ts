@@ -0,0 +1,223 @@
+import { ImageMetadata } from './api';
+
+const DB_NAME = 'image-platform-offline';
+const DB_VERSION = 1;
+const LIST_STORE = 'lists';
+const ENTRY_STORE = 'entries';
+const BLOB_STORE = 'blobs';
+const LIST_KEY = 'images';
+const LAST_USED_INDEX = 'lastUsedAt';
+
+const DEFAULT_MAX_BYTES = 200 * 1024 * 1024;
+
+/**
+ * An image's contents. Stored as bytes rather than a Blob, which some
+ * browsers cannot keep in IndexedDB.
+ */
+interface CachedBlob {
+  id: string;
+  data: ArrayBuffer;
+  type: string;
+}
+
+/**
+ * Bookkeeping of a cached blob, kept apart from it so eviction and LRU
+ * updates never have to read image contents
+ */
+interface CacheEntry {
+  id: string;
+  size: number;
+  /** Wall time the blob was last stored or used, for LRU eviction */
+  lastUsedAt: number;
+}
+
+interface OfflineCacheOptions {
+  /** Total size of cached image contents before the least recently used are evicted */
+  maxBytes: number;
+  dbName: string;
+}
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readBytes = (blob: Blob) =>
+  new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Persists the last known image list and image contents in IndexedDB, so
+ * displays can keep cycling through images while the backend is down.
+ * Image contents are bounded in total size, evicting the least recently
+ * used first. Where IndexedDB is unavailable every method is a no-op.
+ */
+export class OfflineCache {
+  private readonly maxBytes: number;
+  private readonly dbName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor({ maxBytes = DEFAULT_MAX_BYTES, dbName = DB_NAME }: Partial<OfflineCacheOptions> = {}) {
+    this.maxBytes = maxBytes;
+    this.dbName = dbName;
+  }
+
+  static isSupported() {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Replaces the persisted image list
+   */
+  async saveImages(images: ImageMetadata[]) {
+    const db = await this.open();
+    if (!db) return;
+    const transaction = db.transaction(LIST_STORE, 'readwrite');
+    transaction.objectStore(LIST_STORE).put(images, LIST_KEY);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Returns the persisted image list, or null if none was saved
+   */
+  async loadImages(): Promise<ImageMetadata[] | null> {
+    const db = await this.open();
+    if (!db) return null;
+    const images = await toPromise(db.transaction(LIST_STORE).objectStore(LIST_STORE).get(LIST_KEY));
+    return (images as ImageMetadata[] | undefined) ?? null;
+  }
+
+  /**
+   * Returns an image's cached contents, marking them as recently used
+   */
+  async getBlob(id: string): Promise<Blob | null> {
+    const db = await this.open();
+    if (!db) return null;
+    const transaction = db.transaction([ENTRY_STORE, BLOB_STORE], 'readwrite');
+    const entries = transaction.objectStore(ENTRY_STORE);
+    const [entry, blob] = await Promise.all([
+      toPromise(entries.get(id)) as Promise<CacheEntry | undefined>,
+      toPromise(transaction.objectStore(BLOB_STORE).get(id)) as Promise<CachedBlob | undefined>
+    ]);
+    if (!entry || !blob) return null;
+    entries.put({ ...entry, lastUsedAt: Date.now() });
+    await transactionDone(transaction);
+    return new Blob([blob.data], { type: blob.type });
+  }
+
+  /**
+   * Marks an image's cached contents as recently used, without reading them
+   * @returns Whether the image's contents are cached
+   */
+  async touchBlob(id: string): Promise<boolean> {
+    const db = await this.open();
+    if (!db) return false;
+    const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+    const entries = transaction.objectStore(ENTRY_STORE);
+    const entry = await toPromise(entries.get(id)) as CacheEntry | undefined;
+    if (!entry) return false;
+    entries.put({ ...entry, lastUsedAt: Date.now() });
+    await transactionDone(transaction);
+    return true;
+  }
+
+  /**
+   * Caches an image's contents, then evicts the least recently used
+   * contents until the cache fits its size limit
+   */
+  async putBlob(id: string, blob: Blob) {
+    const db = await this.open();
+    if (!db) return;
+    const data = await readBytes(blob);
+    const cached: CachedBlob = { id, data, type: blob.type };
+    const entry: CacheEntry = { id, size: data.byteLength, lastUsedAt: Date.now() };
+    const transaction = db.transaction([ENTRY_STORE, BLOB_STORE], 'readwrite');
+    transaction.objectStore(BLOB_STORE).put(cached);
+    transaction.objectStore(ENTRY_STORE).put(entry);
+    await transactionDone(transaction);
+    await this.evict(db);
+  }
+
+  /**
+   * Brings the cache in line with the server's list: saves the list and
+   * drops the contents of images that are no longer on the server
+   */
+  async reconcile(images: ImageMetadata[]) {
+    const db = await this.open();
+    if (!db) return;
+    const listed = new Set(images.map(image => image.id));
+    const transaction = db.transaction([LIST_STORE, ENTRY_STORE, BLOB_STORE], 'readwrite');
+    transaction.objectStore(LIST_STORE).put(images, LIST_KEY);
+    const entries = transaction.objectStore(ENTRY_STORE);
+    const blobs = transaction.objectStore(BLOB_STORE);
+    const ids = await toPromise(entries.getAllKeys()) as string[];
+    for (const id of ids.filter(id => !listed.has(id))) {
+      entries.delete(id);
+      blobs.delete(id);
+    }
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Removes everything this cache has stored
+   */
+  async clear() {
+    const db = await this.open();
+    if (!db) return;
+    const transaction = db.transaction([LIST_STORE, ENTRY_STORE, BLOB_STORE], 'readwrite');
+    transaction.objectStore(LIST_STORE).clear();
+    transaction.objectStore(ENTRY_STORE).clear();
+    transaction.objectStore(BLOB_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  private async evict(db: IDBDatabase) {
+    const transaction = db.transaction([ENTRY_STORE, BLOB_STORE], 'readwrite');
+    const store = transaction.objectStore(ENTRY_STORE);
+    const blobs = transaction.objectStore(BLOB_STORE);
+    // Oldest first; only the bookkeeping is read, never the contents
+    const entries = await toPromise(store.index(LAST_USED_INDEX).getAll()) as CacheEntry[];
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries) {
+      if (total <= this.maxBytes) break;
+      store.delete(entry.id);
+      blobs.delete(entry.id);
+      total -= entry.size;
+    }
+    await transactionDone(transaction);
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!OfflineCache.isSupported()) return Promise.resolve(null);
+    if (!this.db) {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(LIST_STORE);
+        db.createObjectStore(BLOB_STORE, { keyPath: 'id' });
+        db.createObjectStore(ENTRY_STORE, { keyPath: 'id' }).createIndex(LAST_USED_INDEX, 'lastUsedAt');
+      };
+      this.db = toPromise(request);
+      // Let a later call try again, e.g. after private browsing blocked it
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+}
+
+/** The cache shared by the whole app */
+export const offlineCache = new OfflineCache();
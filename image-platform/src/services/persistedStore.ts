@@ -0,0 +1,103 @@
+interface PersistedStoreOptions<T> {
+  /** localStorage key the value is persisted under */
+  storageKey: string;
+  /** Value while nothing valid is stored */
+  empty: T;
+  /** Returns the valid part of an untrusted stored value, or null when it is not one at all */
+  validate: (value: unknown) => T | null;
+  /** What is stored, for the log when saving fails */
+  description: string;
+}
+
+type Listener = () => void;
+
+let nextId = 0;
+
+/**
+ * Returns a new id for an item of a persisted store, unique in this tab and
+ * in practice across tabs
+ */
+export const createId = () => `${Date.now().toString(36)}-${(nextId++).toString(36)}`;
+
+/**
+ * Value persisted in localStorage as JSON and validated whenever it is read,
+ * which stores of user data build on.
+ *
+ * While anything is subscribed, changes made in other tabs are picked up
+ * through storage events. Without subscribers nothing listens for them, so
+ * the value is read again before being changed or subscribed to.
+ */
+export class PersistedStore<T> {
+  private value: T;
+  private listeners = new Set<Listener>();
+  private readonly options: PersistedStoreOptions<T>;
+
+  constructor(options: PersistedStoreOptions<T>) {
+    this.options = options;
+    this.value = this.read() ?? options.empty;
+  }
+
+  /**
+   * Registers a listener called whenever the value changes
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: Listener) => {
+    if (this.listeners.size === 0) {
+      this.value = this.read() ?? this.value;
+      window.addEventListener('storage', this.handleStorage);
+    }
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        window.removeEventListener('storage', this.handleStorage);
+      }
+    };
+  };
+
+  /**
+   * Returns the value. It is replaced on every change, so it can be used as
+   * a `useSyncExternalStore` snapshot.
+   */
+  getSnapshot = () => this.value;
+
+  /**
+   * The value to base a change on, including other tabs' changes
+   */
+  protected get current(): T {
+    if (this.listeners.size === 0) {
+      this.value = this.read() ?? this.value;
+    }
+    return this.value;
+  }
+
+  protected save(value: T) {
+    this.value = value;
+    this.listeners.forEach(listener => listener());
+    try {
+      localStorage.setItem(this.options.storageKey, JSON.stringify(value));
+    } catch (err) {
+      console.log(`Could not save ${this.options.description}:`, err);
+    }
+  }
+
+  /**
+   * Returns the stored value, or null when storage is unavailable or the
+   * entry corrupt, to keep what is in memory
+   */
+  private read(): T | null {
+    const { storageKey, empty, validate } = this.options;
+    try {
+      const stored = localStorage.getItem(storageKey);
+      return stored === null ? empty : validate(JSON.parse(stored));
+    } catch {
+      return null;
+    }
+  }
+
+  private handleStorage = (e: StorageEvent) => {
+    if (e.key !== this.options.storageKey) return;
+    this.value = this.read() ?? this.options.empty;
+    this.listeners.forEach(listener => listener());
+  };
+}
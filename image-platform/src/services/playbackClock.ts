@@ -0,0 +1,130 @@
+export interface PlaybackClockState {
+  isPlaying: boolean;
+  /** Playback rate multiplier, 1 is real time */
+  speed: number;
+  /** Playback time, in ms, that each image stays on screen */
+  interval: number;
+}
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+type Listener = () => void;
+
+/**
+ * Shared time base for carousel playback.
+ *
+ * The clock tracks a playback position in ms that advances with wall time
+ * while playing, scaled by the speed. Frames derive their image index from
+ * the current step (position / interval) instead of counting their own timer
+ * ticks, so any number of frames stay in lockstep and cannot drift apart.
+ * Frames subscribe to be told when the clock is paused, seeked or retimed.
+ */
+export class PlaybackClock {
+  private state: PlaybackClockState;
+  // Position at the last state change, and the wall time it was taken at
+  private anchorPosition = 0;
+  private anchorTime = Date.now();
+  private listeners = new Set<Listener>();
+
+  constructor({ interval, speed = 1, isPlaying = true }: Partial<PlaybackClockState> & { interval: number }) {
+    this.state = { interval, speed, isPlaying };
+  }
+
+  /**
+   * Registers a listener called on every state change
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Returns the current state. The object is replaced on every change,
+   * so it can be used as a `useSyncExternalStore` snapshot.
+   */
+  getSnapshot = () => this.state;
+
+  getPosition(): number {
+    if (!this.state.isPlaying) return this.anchorPosition;
+    return this.anchorPosition + (Date.now() - this.anchorTime) * this.state.speed;
+  }
+
+  /**
+   * Returns how many intervals have elapsed since playback started,
+   * including the fraction of the current one
+   */
+  getProgress(): number {
+    return this.getPosition() / this.state.interval;
+  }
+
+  /**
+   * Returns how many intervals have elapsed since playback started.
+   * Stepping back from the start gives negative steps, which frames wrap.
+   */
+  getStep(): number {
+    return Math.floor(this.getProgress());
+  }
+
+  /**
+   * Returns the wall time in ms until playback reaches the given progress,
+   * or null while paused
+   */
+  getTimeUntilProgress(progress: number): number | null {
+    if (!this.state.isPlaying) return null;
+    return Math.ceil((progress * this.state.interval - this.getPosition()) / this.state.speed);
+  }
+
+  play() {
+    if (this.state.isPlaying) return;
+    this.update({ isPlaying: true });
+  }
+
+  pause() {
+    if (!this.state.isPlaying) return;
+    this.update({ isPlaying: false });
+  }
+
+  toggle() {
+    this.update({ isPlaying: !this.state.isPlaying });
+  }
+
+  setSpeed(speed: number) {
+    if (speed <= 0 || speed === this.state.speed) return;
+    this.update({ speed });
+  }
+
+  /**
+   * Changes the interval while keeping the current step and the progress
+   * through it, so frames do not jump when the cycle speed changes
+   */
+  setInterval(interval: number) {
+    if (interval <= 0 || interval === this.state.interval) return;
+    const scaled = this.getPosition() * (interval / this.state.interval);
+    this.update({ interval }, scaled);
+  }
+
+  /**
+   * Moves by a number of steps, landing at the start of the target step
+   * so it gets a full interval on screen
+   */
+  step(count: number) {
+    this.seekToStep(this.getStep() + count);
+  }
+
+  /**
+   * Moves to the start of the given step
+   */
+  seekToStep(step: number) {
+    this.update({}, step * this.state.interval);
+  }
+
+  private update(changes: Partial<PlaybackClockState>, position = this.getPosition()) {
+    this.anchorPosition = position;
+    this.anchorTime = Date.now();
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
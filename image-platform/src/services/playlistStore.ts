@@ -0,0 +1,208 @@
+import { ImageMetadata } from './api';
+import { PersistedStore, createId } from './persistedStore';
+import { parseNamePattern } from '../utils/dwellRules';
+import { isRecord, parseJson } from '../utils/json';
+
+/**
+ * Rule adding new uploads to a playlist. Empty criteria match any image.
+ */
+export interface PlaylistRule {
+  /** Case-insensitive regular expression matched against the image name */
+  pattern: string;
+  /** Exact MIME type */
+  mimeType: string;
+}
+
+/**
+ * Named, ordered subset of the images
+ */
+export interface Playlist {
+  id: string;
+  name: string;
+  /** Images in playing order */
+  imageIds: string[];
+  /** Rule for uploads to add at the end, or null to add none */
+  autoInclude: PlaylistRule | null;
+}
+
+interface PlaylistStoreOptions {
+  /** localStorage key the playlists are persisted under */
+  storageKey: string;
+}
+
+const DEFAULT_STORAGE_KEY = 'image-platform:playlists';
+const EXPORT_VERSION = 1;
+const MAX_PLAYLISTS = 100;
+const MAX_NAME_LENGTH = 100;
+
+const validateRule = (value: unknown): PlaylistRule | null => {
+  if (!isRecord(value)) return null;
+  const pattern = typeof value.pattern === 'string' && parseNamePattern(value.pattern) ? value.pattern : '';
+  const mimeType = typeof value.mimeType === 'string' ? value.mimeType : '';
+  return pattern || mimeType ? { pattern, mimeType } : null;
+};
+
+/**
+ * Returns the valid playlists among untrusted ones, or null when the value
+ * is not a list of playlists at all. Duplicate images are dropped.
+ */
+const validatePlaylists = (value: unknown): Playlist[] | null => {
+  if (!Array.isArray(value)) return null;
+  return value.filter(isRecord).slice(0, MAX_PLAYLISTS).flatMap(playlist => {
+    if (typeof playlist.name !== 'string' || !Array.isArray(playlist.imageIds)) return [];
+    const imageIds = playlist.imageIds.filter((id): id is string => typeof id === 'string');
+    return [{
+      id: typeof playlist.id === 'string' && playlist.id ? playlist.id : createId(),
+      name: playlist.name.slice(0, MAX_NAME_LENGTH),
+      imageIds: [...new Set(imageIds)],
+      autoInclude: validateRule(playlist.autoInclude)
+    }];
+  });
+};
+
+/**
+ * Returns whether an image is matched by a playlist rule
+ */
+export const matchesPlaylistRule = (image: ImageMetadata, rule: PlaylistRule) => {
+  if (rule.mimeType && image.mimeType !== rule.mimeType) return false;
+  if (rule.pattern && !parseNamePattern(rule.pattern)?.test(image.name)) return false;
+  return true;
+};
+
+/**
+ * Returns the images of a playlist in its order, leaving out those that are
+ * not in the list, e.g. removed while this tab was not listening
+ */
+export const resolvePlaylist = (playlist: Playlist, images: ImageMetadata[]): ImageMetadata[] => {
+  const byId = new Map(images.map(image => [image.id, image]));
+  return playlist.imageIds.flatMap(id => byId.get(id) ?? []);
+};
+
+/**
+ * Client-side playlists, persisted in localStorage.
+ *
+ * Playlists hold image ids only, so they follow the image list: deleted
+ * images are dropped from every playlist and new uploads are added to the
+ * playlists whose rule they match. Changes made in other tabs are picked up
+ * through storage events.
+ */
+export class PlaylistStore extends PersistedStore<Playlist[]> {
+  constructor({ storageKey = DEFAULT_STORAGE_KEY }: Partial<PlaylistStoreOptions> = {}) {
+    super({ storageKey, empty: [], validate: validatePlaylists, description: 'playlists' });
+  }
+
+  getPlaylist(id: string): Playlist | undefined {
+    return this.getSnapshot().find(playlist => playlist.id === id);
+  }
+
+  /**
+   * Creates an empty playlist, or one holding the given images
+   */
+  create(name: string, imageIds: string[] = []): Playlist {
+    const playlist: Playlist = {
+      id: createId(),
+      name: name.slice(0, MAX_NAME_LENGTH),
+      imageIds: [...new Set(imageIds)],
+      autoInclude: null
+    };
+    this.save([...this.current, playlist]);
+    return playlist;
+  }
+
+  rename(id: string, name: string) {
+    this.update(id, () => ({ name: name.slice(0, MAX_NAME_LENGTH) }));
+  }
+
+  remove(id: string) {
+    this.save(this.current.filter(playlist => playlist.id !== id));
+  }
+
+  /**
+   * Adds images at the end of a playlist, skipping those already in it
+   */
+  addImages(id: string, imageIds: string[]) {
+    this.update(id, playlist => ({ imageIds: [...new Set([...playlist.imageIds, ...imageIds])] }));
+  }
+
+  removeImage(id: string, imageId: string) {
+    this.update(id, playlist => ({ imageIds: playlist.imageIds.filter(other => other !== imageId) }));
+  }
+
+  /**
+   * Moves an image of a playlist to another position, e.g. after dragging it
+   */
+  moveImage(id: string, from: number, to: number) {
+    this.update(id, playlist => {
+      const imageIds = [...playlist.imageIds];
+      if (from < 0 || from >= imageIds.length) return {};
+      const [moved] = imageIds.splice(from, 1);
+      imageIds.splice(Math.min(Math.max(to, 0), imageIds.length), 0, moved);
+      return { imageIds };
+    });
+  }
+
+  setAutoInclude(id: string, rule: PlaylistRule | null) {
+    this.update(id, () => ({ autoInclude: rule && validateRule(rule) }));
+  }
+
+  /**
+   * Removes a deleted image from every playlist holding it
+   */
+  dropImage(imageId: string) {
+    const playlists = this.current;
+    if (!playlists.some(playlist => playlist.imageIds.includes(imageId))) return;
+    this.save(playlists.map(playlist =>
+      playlist.imageIds.includes(imageId)
+        ? { ...playlist, imageIds: playlist.imageIds.filter(id => id !== imageId) }
+        : playlist
+    ));
+  }
+
+  /**
+   * Adds a new upload to every playlist whose rule it matches
+   */
+  includeUpload(image: ImageMetadata) {
+    const matches = (playlist: Playlist) =>
+      playlist.autoInclude !== null &&
+      !playlist.imageIds.includes(image.id) &&
+      matchesPlaylistRule(image, playlist.autoInclude);
+    const playlists = this.current;
+    if (!playlists.some(matches)) return;
+    this.save(playlists.map(playlist =>
+      matches(playlist) ? { ...playlist, imageIds: [...playlist.imageIds, image.id] } : playlist
+    ));
+  }
+
+  /**
+   * Returns every playlist as a JSON document, for `importJson`
+   */
+  exportJson() {
+    return JSON.stringify({ version: EXPORT_VERSION, playlists: this.getSnapshot() }, null, 2);
+  }
+
+  /**
+   * Adds the playlists of an exported document. They get new ids, so
+   * importing the same file twice gives two copies rather than overwriting.
+   * @returns The number of playlists imported
+   * @throws Error if the document is not a playlist export
+   */
+  importJson(json: string): number {
+    const parsed = parseJson(json);
+    const imported = isRecord(parsed) ? validatePlaylists(parsed.playlists) : null;
+    if (!imported) {
+      throw new Error('The file does not contain any playlists');
+    }
+    this.save([...this.current, ...imported.map(playlist => ({ ...playlist, id: createId() }))]);
+    return imported.length;
+  }
+
+  private update(id: string, changes: (playlist: Playlist) => Partial<Playlist>) {
+    const playlists = this.current;
+    const playlist = playlists.find(other => other.id === id);
+    if (!playlist) return;
+    this.save(playlists.map(other => (other === playlist ? { ...playlist, ...changes(playlist) } : other)));
+  }
+}
+
+/** The playlists shared by everything in this tab */
+export const playlistStore = new PlaylistStore();
@@ -0,0 +1,69 @@
+import { SchemaError } from './apiErrors';
+
+/**
+ * Checks an untrusted value and returns it as a `T`, converting it where
+ * the wire format differs (e.g. ISO strings to `Date`).
+ * Throws a SchemaError naming `path` when the value does not match.
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : `a ${typeof value}`;
+
+export const string: Schema<string> = (value, path) => {
+  if (typeof value !== 'string') {
+    throw new SchemaError(path, `should be a string, got ${describe(value)}`);
+  }
+  return value;
+};
+
+export const number: Schema<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SchemaError(path, `should be a number, got ${describe(value)}`);
+  }
+  return value;
+};
+
+/** An ISO 8601 date string, converted to a Date */
+export const isoDate: Schema<Date> = (value, path) => {
+  const date = new Date(string(value, path));
+  if (Number.isNaN(date.getTime())) {
+    throw new SchemaError(path, `should be an ISO date, got "${value}"`);
+  }
+  return date;
+};
+
+export const literal = <T extends string>(...values: T[]): Schema<T> => (value, path) => {
+  if (!values.includes(value as T)) {
+    throw new SchemaError(path, `should be one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+  }
+  return value as T;
+};
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : schema(value, path);
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => (value, path) => {
+  if (!Array.isArray(value)) {
+    throw new SchemaError(path, `should be an array, got ${describe(value)}`);
+  }
+  return value.map((entry, index) => item(entry, `${path}[${index}]`));
+};
+
+/**
+ * An object with the given fields. Fields not in the shape are dropped.
+ */
+export const object = <T>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SchemaError(path, `should be an object, got ${describe(value)}`);
+  }
+  const record = value as Record<string, unknown>;
+  const result = {} as T;
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const parsed = shape[key](record[key], `${path}.${key}`);
+    if (parsed !== undefined) {
+      result[key] = parsed;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,113 @@
+export interface ServiceWorkerState {
+  /** A new version has installed and is waiting for the page to switch over */
+  isUpdateAvailable: boolean;
+}
+
+type Listener = () => void;
+
+// Wall displays stay open for days, so look for new versions now and then
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Page side of the service worker (`service-worker/sw.js`): registers it,
+ * reports when a new version is waiting, and tells it which cached images
+ * to drop.
+ */
+export class ServiceWorkerClient {
+  private state: ServiceWorkerState = { isUpdateAvailable: false };
+  private listeners = new Set<Listener>();
+  private waiting: ServiceWorker | null = null;
+  private updateRequested = false;
+
+  static isSupported() {
+    return typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+  }
+
+  /**
+   * Registers a listener called whenever the state changes
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Returns the current state. The object is replaced on every change,
+   * so it can be used as a `useSyncExternalStore` snapshot.
+   */
+  getSnapshot = () => this.state;
+
+  /**
+   * Registers the service worker and starts watching for new versions
+   */
+  async register(scriptUrl = '/sw.js') {
+    if (!ServiceWorkerClient.isSupported()) return;
+    const { serviceWorker } = navigator;
+
+    const registration = await serviceWorker.register(scriptUrl);
+    // A version that installed while the page was closed
+    if (registration.waiting && serviceWorker.controller) {
+      this.setWaiting(registration.waiting);
+    }
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        // Without a controller this is the first install, not an update
+        if (installing.state === 'installed' && serviceWorker.controller) {
+          this.setWaiting(installing);
+        }
+      });
+    });
+
+    // Reload once the new version has taken over, but only when asked to
+    serviceWorker.addEventListener('controllerchange', () => {
+      if (!this.updateRequested) return;
+      this.updateRequested = false;
+      window.location.reload();
+    });
+
+    setInterval(() => {
+      registration.update().catch(err => console.log('Service worker update check failed:', err));
+    }, UPDATE_CHECK_INTERVAL);
+  }
+
+  /**
+   * Switches to the waiting version; the page reloads once it takes over
+   */
+  applyUpdate = () => {
+    if (!this.waiting) return;
+    this.updateRequested = true;
+    this.waiting.postMessage({ type: 'SKIP_WAITING' });
+  };
+
+  /**
+   * Drops a deleted image's cached contents
+   */
+  purgeImage(id: string) {
+    if (!ServiceWorkerClient.isSupported()) return;
+    navigator.serviceWorker.controller?.postMessage({ type: 'PURGE_IMAGE', id });
+  }
+
+  /**
+   * Returns an image's contents from the service worker's cache, without
+   * going to the network, or null if they are not cached
+   * @param url The URL the image was loaded from
+   */
+  async getCachedImage(url: string): Promise<Blob | null> {
+    if (typeof caches === 'undefined') return null;
+    const response = await caches.match(new URL(url, window.location.href).href, { cacheName: __IMAGE_CACHE__ });
+    return response ? response.blob() : null;
+  }
+
+  private setWaiting(worker: ServiceWorker) {
+    this.waiting = worker;
+    this.state = { isUpdateAvailable: true };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/** The client for this page's service worker */
+export const serviceWorkerClient = new ServiceWorkerClient();
@@ -0,0 +1,164 @@
+type ElectionMessage =
+  | { type: 'hello'; tabId: string }
+  | { type: 'heartbeat'; tabId: string }
+  | { type: 'resign'; tabId: string };
+
+interface TabLeaderOptions {
+  /** Called whenever this tab gains or loses leadership */
+  onChange: (isLeader: boolean) => void;
+  /** How often the leader announces itself, in ms */
+  heartbeatInterval?: number;
+  /** How long followers wait without a heartbeat before taking over, in ms */
+  leaderTimeout?: number;
+  /** How long a new tab listens for an existing leader before claiming, in ms */
+  discoveryTimeout?: number;
+}
+
+// Tab ids order by start time, so when two tabs both claim leadership the
+// older one wins and an established leader is not displaced by a newcomer
+const createTabId = () => `${Date.now().toString(36).padStart(10, '0')}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Elects one leader among the open tabs of this origin over a BroadcastChannel.
+ *
+ * The leader sends a heartbeat at a fixed interval. Followers take over when
+ * the leader resigns (on close or page hide) or its heartbeats stop. A page
+ * restored from the back/forward cache rejoins the election. If two
+ * tabs end up leading at once, the one with the higher id steps down on
+ * hearing the other. Without BroadcastChannel support the tab simply leads.
+ */
+export class TabLeaderElection {
+  readonly tabId = createTabId();
+  private channel: BroadcastChannel | null = null;
+  private isLeaderState = false;
+  private lastLeaderSeen = 0;
+  private discoveryTimer: ReturnType<typeof setTimeout> | null = null;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly heartbeatInterval: number;
+  private readonly leaderTimeout: number;
+  private readonly discoveryTimeout: number;
+
+  constructor(private readonly channelName: string, private readonly options: TabLeaderOptions) {
+    this.heartbeatInterval = options.heartbeatInterval ?? 1000;
+    this.leaderTimeout = options.leaderTimeout ?? 3000;
+    this.discoveryTimeout = options.discoveryTimeout ?? 250;
+  }
+
+  get isLeader() {
+    return this.isLeaderState;
+  }
+
+  start() {
+    if (this.channel || this.tickTimer) return;
+
+    if (typeof BroadcastChannel === 'undefined') {
+      this.setLeader(true);
+      return;
+    }
+
+    this.channel = new BroadcastChannel(this.channelName);
+    this.channel.onmessage = (event: MessageEvent<ElectionMessage>) => this.handleMessage(event.data);
+    window.addEventListener('pagehide', this.handlePageHide);
+
+    this.post({ type: 'hello', tabId: this.tabId });
+    this.discoveryTimer = setTimeout(() => {
+      this.discoveryTimer = null;
+      if (!this.hasLiveLeader()) {
+        this.claim();
+      }
+    }, this.discoveryTimeout);
+    this.tickTimer = setInterval(this.tick, this.heartbeatInterval);
+  }
+
+  /**
+   * Leaves the election, handing leadership straight to another tab
+   */
+  stop() {
+    window.removeEventListener('pageshow', this.handlePageShow);
+    if (this.discoveryTimer) {
+      clearTimeout(this.discoveryTimer);
+      this.discoveryTimer = null;
+    }
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    // Step down before resigning, so the successor's first heartbeat is not contested
+    const wasLeader = this.isLeaderState;
+    this.lastLeaderSeen = 0;
+    this.setLeader(false);
+    if (this.channel) {
+      if (wasLeader) {
+        this.post({ type: 'resign', tabId: this.tabId });
+      }
+      this.channel.close();
+      this.channel = null;
+      window.removeEventListener('pagehide', this.handlePageHide);
+    }
+  }
+
+  private handlePageHide = () => {
+    this.stop();
+    // The page may be kept in the back/forward cache and shown again
+    window.addEventListener('pageshow', this.handlePageShow);
+  };
+
+  private handlePageShow = (event: PageTransitionEvent) => {
+    if (!event.persisted) return;
+    window.removeEventListener('pageshow', this.handlePageShow);
+    this.start();
+  };
+
+  private tick = () => {
+    if (this.isLeaderState) {
+      this.post({ type: 'heartbeat', tabId: this.tabId });
+    } else if (!this.discoveryTimer && !this.hasLiveLeader()) {
+      this.claim();
+    }
+  };
+
+  private handleMessage(message: ElectionMessage) {
+    switch (message.type) {
+      case 'hello':
+        // Let the newcomer know there is already a leader
+        if (this.isLeaderState) {
+          this.post({ type: 'heartbeat', tabId: this.tabId });
+        }
+        break;
+      case 'heartbeat':
+        if (this.isLeaderState && message.tabId > this.tabId) {
+          // Our claim wins; the other tab steps down on our next heartbeat
+          this.post({ type: 'heartbeat', tabId: this.tabId });
+          return;
+        }
+        this.lastLeaderSeen = Date.now();
+        this.setLeader(false);
+        break;
+      case 'resign':
+        this.lastLeaderSeen = 0;
+        if (!this.isLeaderState) {
+          this.claim();
+        }
+        break;
+    }
+  }
+
+  private hasLiveLeader() {
+    return Date.now() - this.lastLeaderSeen < this.leaderTimeout;
+  }
+
+  private claim() {
+    this.setLeader(true);
+    this.post({ type: 'heartbeat', tabId: this.tabId });
+  }
+
+  private setLeader(isLeader: boolean) {
+    if (this.isLeaderState === isLeader) return;
+    this.isLeaderState = isLeader;
+    this.options.onChange(isLeader);
+  }
+
+  private post(message: ElectionMessage) {
+    this.channel?.postMessage(message);
+  }
+}
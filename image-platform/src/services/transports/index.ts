@@ -0,0 +1,39 @@
+import { ImageEventTransport, TransportName } from './types';
+import { SseTransport } from './sseTransport';
+import { WebSocketTransport } from './webSocketTransport';
+import { LongPollingTransport } from './longPollingTransport';
+
+export type { ImageEventTransport, TransportHandlers, TransportName } from './types';
+
+/**
+ * Transports used unless configured otherwise. image-service only serves the
+ * SSE stream; the WebSocket and long-polling transports need a backend with
+ * `/images/ws` and `/images/events` endpoints, so they are opt-in.
+ */
+export const DEFAULT_TRANSPORT_ORDER: TransportName[] = ['sse'];
+
+const TRANSPORTS = {
+  sse: SseTransport,
+  websocket: WebSocketTransport,
+  'long-polling': LongPollingTransport
+};
+
+/**
+ * Returns the transports from the preference order that this browser supports
+ */
+export const getSupportedTransports = (order: TransportName[]) =>
+  order.filter(name => TRANSPORTS[name]?.isSupported());
+
+export const createTransport = (name: TransportName): ImageEventTransport => new TRANSPORTS[name]();
+
+/**
+ * Parses a comma separated preference order, e.g. "websocket,sse",
+ * ignoring unknown names. Falls back to the default order when empty.
+ */
+export const parseTransportOrder = (value: string | undefined): TransportName[] => {
+  const names = (value ?? '')
+    .split(',')
+    .map(name => name.trim())
+    .filter((name): name is TransportName => name in TRANSPORTS);
+  return names.length > 0 ? names : DEFAULT_TRANSPORT_ORDER;
+};
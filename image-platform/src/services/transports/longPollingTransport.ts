@@ -0,0 +1,80 @@
+import { imageApi } from '../api';
+import { ImageEventTransport, TransportHandlers } from './types';
+
+// Least time from the start of one poll to the start of the next, in ms
+const MIN_POLL_INTERVAL = 1000;
+// Cap on the interval as it doubles with each poll that returns no events
+const MAX_POLL_INTERVAL = 30000;
+
+/**
+ * Resolves after the given time, or as soon as the signal aborts
+ */
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const done = () => {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  signal.addEventListener('abort', done);
+});
+
+/**
+ * Image events over HTTP long-polling, the last resort when neither SSE nor
+ * WebSockets get through. Each request is held open by the backend until
+ * events arrive or it times out empty. Polls start at least a second apart,
+ * and further apart after each one that returns nothing, so a backend that
+ * answers at once, or not at all, is not flooded with requests.
+ */
+export class LongPollingTransport implements ImageEventTransport {
+  readonly name = 'long-polling';
+  private controller: AbortController | null = null;
+
+  static isSupported() {
+    return typeof fetch !== 'undefined';
+  }
+
+  connect(handlers: TransportHandlers) {
+    const controller = new AbortController();
+    this.controller = controller;
+    this.poll(handlers, controller.signal);
+  }
+
+  close() {
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  private async poll(handlers: TransportHandlers, signal: AbortSignal) {
+    // Id of the last event this connection received, so the next request
+    // picks up after it. Not kept across connections.
+    let cursor: string | null = null;
+    let isOpen = false;
+    let emptyPolls = 0;
+
+    try {
+      while (!signal.aborted) {
+        const startedAt = Date.now();
+        const events = await imageApi.getEvents({ lastEventId: cursor, signal });
+        if (signal.aborted) return;
+
+        if (!isOpen) {
+          isOpen = true;
+          handlers.onOpen();
+        }
+        for (const { id, ...event } of events) {
+          cursor = id ?? cursor;
+          handlers.onEvent(event);
+        }
+
+        emptyPolls = events.length > 0 ? 0 : emptyPolls + 1;
+        const interval = Math.min(MAX_POLL_INTERVAL, MIN_POLL_INTERVAL * 2 ** emptyPolls);
+        await wait(interval - (Date.now() - startedAt), signal);
+      }
+    } catch (err) {
+      if (signal.aborted) return;
+      this.controller = null;
+      handlers.onError(err);
+    }
+  }
+}
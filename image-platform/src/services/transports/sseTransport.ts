@@ -0,0 +1,48 @@
+import { imageApi, imageEventSchema } from '../api';
+import { ImageEventTransport, TransportHandlers } from './types';
+
+/**
+ * Server-sent events over `EventSource`, the preferred transport
+ */
+export class SseTransport implements ImageEventTransport {
+  readonly name = 'sse';
+  private eventSource: EventSource | null = null;
+
+  static isSupported() {
+    return typeof EventSource !== 'undefined';
+  }
+
+  connect(handlers: TransportHandlers) {
+    const eventSource = new EventSource(imageApi.url('/images/stream'));
+    this.eventSource = eventSource;
+
+    eventSource.onopen = () => {
+      if (this.eventSource !== eventSource) return;
+      handlers.onOpen();
+    };
+
+    eventSource.onmessage = (event) => {
+      if (this.eventSource !== eventSource) return;
+      try {
+        handlers.onEvent(imageEventSchema(JSON.parse(event.data), 'message'));
+      } catch (e) {
+        console.error('Failed to parse SSE message:', e);
+      }
+    };
+
+    eventSource.onerror = (e) => {
+      if (this.eventSource !== eventSource) return;
+      // While CONNECTING the browser is retrying by itself; only a closed
+      // connection needs handling
+      if (eventSource.readyState === EventSource.CLOSED) {
+        this.close();
+        handlers.onError(e);
+      }
+    };
+  }
+
+  close() {
+    this.eventSource?.close();
+    this.eventSource = null;
+  }
+}
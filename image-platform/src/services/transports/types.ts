@@ -0,0 +1,26 @@
+import { ImageEvent } from '../api';
+
+export type TransportName = 'sse' | 'websocket' | 'long-polling';
+
+export interface TransportHandlers {
+  /** The connection is established and events will follow */
+  onOpen: () => void;
+  /** An event arrived */
+  onEvent: (event: ImageEvent) => void;
+  /** The connection failed or was lost. The transport has closed itself. */
+  onError: (error: unknown) => void;
+}
+
+/**
+ * A way of receiving image events from the backend.
+ * Each transport is single use: connect once, then close.
+ */
+export interface ImageEventTransport {
+  readonly name: TransportName;
+  /**
+   * Opens the connection. Events missed while disconnected are not replayed;
+   * the caller resyncs the image list instead.
+   */
+  connect(handlers: TransportHandlers): void;
+  close(): void;
+}
@@ -0,0 +1,49 @@
+import { imageApi, imageEventSchema } from '../api';
+import { ImageEventTransport, TransportHandlers } from './types';
+
+/**
+ * Image events over a WebSocket, for proxies that buffer or cut SSE responses
+ */
+export class WebSocketTransport implements ImageEventTransport {
+  readonly name = 'websocket';
+  private socket: WebSocket | null = null;
+
+  static isSupported() {
+    return typeof WebSocket !== 'undefined';
+  }
+
+  connect(handlers: TransportHandlers) {
+    // The API base URL may be relative, and is served over http(s)
+    const url = new URL(imageApi.url('/images/ws'), window.location.href);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    const socket = new WebSocket(url.toString());
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (this.socket !== socket) return;
+      handlers.onOpen();
+    };
+
+    socket.onmessage = (event) => {
+      if (this.socket !== socket) return;
+      try {
+        handlers.onEvent(imageEventSchema(JSON.parse(event.data), 'message'));
+      } catch (e) {
+        console.error('Failed to parse WebSocket message:', e);
+      }
+    };
+
+    // Errors are always followed by a close, so the close reports them
+    socket.onclose = (e) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      handlers.onError(e);
+    };
+  }
+
+  close() {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+}
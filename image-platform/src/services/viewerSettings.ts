@@ -0,0 +1,373 @@
+import { TransitionMode, TRANSITION_MODES, DEFAULT_TRANSITION_DURATION } from '../utils/transitions';
+import { CompareLayout, COMPARE_LAYOUTS, MIN_AMPLIFICATION, MAX_AMPLIFICATION } from '../utils/compareLayouts';
+import {
+  ImageFilter,
+  ImageSort,
+  SortField,
+  SortDirection,
+  EMPTY_FILTER,
+  DEFAULT_SORT
+} from '../utils/imageQuery';
+import { DwellRule, MIN_DWELL, parseNamePattern } from '../utils/dwellRules';
+import { DEFAULT_READY_TIMEOUT } from '../hooks/useImagePreloader';
+import { isRecord } from '../utils/json';
+
+export type ViewMode = 'single' | 'multi' | 'gallery' | 'compare';
+export type CycleSpeed = 'slow' | 'normal' | 'fast';
+
+export const VIEW_MODES: ViewMode[] = ['single', 'multi', 'gallery', 'compare'];
+export const CYCLE_SPEEDS: CycleSpeed[] = ['slow', 'normal', 'fast'];
+
+export const CYCLE_INTERVALS: Record<CycleSpeed, number> = {
+  slow: 5000,    // 5 seconds
+  normal: 3000,  // 3 seconds
+  fast: 1000     // 1 second
+};
+
+export const MIN_CYCLE_INTERVAL = 500;
+export const MAX_CYCLE_INTERVAL = 60000;
+
+export const TRANSITION_DURATIONS = [250, DEFAULT_TRANSITION_DURATION, 1000];
+
+export const READY_TIMEOUTS = [1000, DEFAULT_READY_TIMEOUT, 5000, 10000];
+
+export const MIN_FRAMES = 1;
+export const MAX_FRAMES = 10;
+
+const MAX_DWELL_RULES = 20;
+const MAX_DWELL = 10 * 60 * 1000;
+
+const SORT_FIELDS: SortField[] = ['uploadedAt', 'name', 'size', 'mimeType', 'capturedAt', 'device', 'exposureTime', 'iso'];
+const SORT_DIRECTIONS: SortDirection[] = ['asc', 'desc'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PLAYLIST_ID_PATTERN = /^[\w-]+$/;
+const IMAGE_ID_PATTERN = /^[\w.-]+$/;
+
+const STORAGE_KEY = 'image-platform:viewer-settings';
+
+/** The two images compare mode shows and how */
+export interface CompareSettings {
+  /** Ids of the compared images; empty, or gone from the stream, means the first two images */
+  firstId: string;
+  secondId: string;
+  layout: CompareLayout;
+  /** Factor the difference layout multiplies pixel differences by */
+  amplification: number;
+}
+
+/**
+ * Everything that decides what the viewer shows, kept across reloads and
+ * carried by shared links
+ */
+export interface ViewerSettings {
+  viewMode: ViewMode;
+  frameCount: number;
+  /** Time each image stays on screen unless a dwell rule says otherwise, in ms */
+  cycleInterval: number;
+  /** Rules giving matching images their own time on screen, first match wins */
+  dwellRules: DwellRule[];
+  transition: TransitionMode;
+  transitionDuration: number;
+  /** Longest time in ms a frame waits for its next image to load before showing it anyway */
+  readyTimeout: number;
+  /** Transitions of frames that do not use the shared one, by frame index */
+  frameTransitions: Record<number, TransitionMode>;
+  /** Playlists played by frames that do not play every image, by frame index */
+  framePlaylists: Record<number, string>;
+  filter: ImageFilter;
+  sort: ImageSort;
+  compare: CompareSettings;
+}
+
+export const DEFAULT_VIEWER_SETTINGS: ViewerSettings = {
+  viewMode: 'single',
+  frameCount: 4,
+  cycleInterval: CYCLE_INTERVALS.normal,
+  dwellRules: [],
+  transition: 'none',
+  transitionDuration: DEFAULT_TRANSITION_DURATION,
+  readyTimeout: DEFAULT_READY_TIMEOUT,
+  frameTransitions: {},
+  framePlaylists: {},
+  filter: EMPTY_FILTER,
+  sort: DEFAULT_SORT,
+  compare: { firstId: '', secondId: '', layout: 'side-by-side', amplification: 4 }
+};
+
+/**
+ * Settings as read from storage or a URL, before validation. Older
+ * versions stored a cycle speed preset instead of an interval.
+ */
+type RawSettings = { [K in keyof ViewerSettings]?: unknown } & { cycleSpeed?: unknown };
+
+const pickOption = <T>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+const clampInteger = (value: unknown, min: number, max: number, fallback: number) => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(number)));
+};
+
+const pickString = (value: unknown, fallback = '') => (typeof value === 'string' ? value : fallback);
+
+const pickDate = (value: unknown) => (typeof value === 'string' && DATE_PATTERN.test(value) ? value : '');
+
+const pickImageId = (value: unknown) => (typeof value === 'string' && IMAGE_ID_PATTERN.test(value) ? value : '');
+
+/**
+ * Returns the valid rules among untrusted ones
+ */
+const validateDwellRules = (value: unknown): DwellRule[] => {
+  if (!Array.isArray(value)) return [];
+  const rules: DwellRule[] = [];
+  for (const rule of value.filter(isRecord).slice(0, MAX_DWELL_RULES)) {
+    if (rule.type === 'name' && typeof rule.pattern === 'string' && rule.pattern && parseNamePattern(rule.pattern)) {
+      rules.push({ type: 'name', pattern: rule.pattern, dwell: clampInteger(rule.dwell, MIN_DWELL, MAX_DWELL, MIN_DWELL) });
+    } else if (rule.type === 'size') {
+      const min = clampInteger(rule.min, MIN_DWELL, MAX_DWELL, MIN_DWELL);
+      rules.push({
+        type: 'size',
+        msPerMegabyte: clampInteger(rule.msPerMegabyte, 0, MAX_DWELL, 0),
+        min,
+        max: clampInteger(rule.max, min, MAX_DWELL, MAX_DWELL)
+      });
+    }
+  }
+  return rules;
+};
+
+/**
+ * Returns valid settings from untrusted ones: unknown options fall back to
+ * the defaults and numbers are clamped into range, field by field
+ */
+export const validateSettings = (raw: RawSettings): ViewerSettings => {
+  const defaults = DEFAULT_VIEWER_SETTINGS;
+  const filter = isRecord(raw.filter) ? raw.filter : {};
+  const sort = isRecord(raw.sort) ? raw.sort : {};
+  const compare = isRecord(raw.compare) ? raw.compare : {};
+
+  const frameTransitions: Record<number, TransitionMode> = {};
+  if (isRecord(raw.frameTransitions)) {
+    for (const [key, mode] of Object.entries(raw.frameTransitions)) {
+      const index = Number(key);
+      if (Number.isInteger(index) && index >= 0 && index < MAX_FRAMES && TRANSITION_MODES.includes(mode as TransitionMode)) {
+        frameTransitions[index] = mode as TransitionMode;
+      }
+    }
+  }
+
+  const framePlaylists: Record<number, string> = {};
+  if (isRecord(raw.framePlaylists)) {
+    for (const [key, id] of Object.entries(raw.framePlaylists)) {
+      const index = Number(key);
+      if (Number.isInteger(index) && index >= 0 && index < MAX_FRAMES && typeof id === 'string' && PLAYLIST_ID_PATTERN.test(id)) {
+        framePlaylists[index] = id;
+      }
+    }
+  }
+
+  return {
+    viewMode: pickOption(raw.viewMode, VIEW_MODES, defaults.viewMode),
+    frameCount: clampInteger(raw.frameCount, MIN_FRAMES, MAX_FRAMES, defaults.frameCount),
+    cycleInterval: clampInteger(
+      raw.cycleInterval ?? CYCLE_INTERVALS[pickOption(raw.cycleSpeed, CYCLE_SPEEDS, 'normal')],
+      MIN_CYCLE_INTERVAL,
+      MAX_CYCLE_INTERVAL,
+      defaults.cycleInterval
+    ),
+    dwellRules: validateDwellRules(raw.dwellRules),
+    transition: pickOption(raw.transition, TRANSITION_MODES, defaults.transition),
+    transitionDuration: pickOption(Number(raw.transitionDuration), TRANSITION_DURATIONS, defaults.transitionDuration),
+    readyTimeout: pickOption(Number(raw.readyTimeout), READY_TIMEOUTS, defaults.readyTimeout),
+    frameTransitions,
+    framePlaylists,
+    filter: {
+      name: pickString(filter.name),
+      mimeType: pickString(filter.mimeType),
+      uploadedFrom: pickDate(filter.uploadedFrom),
+      uploadedTo: pickDate(filter.uploadedTo),
+      metadata: pickString(filter.metadata)
+    },
+    sort: {
+      field: pickOption(sort.field, SORT_FIELDS, defaults.sort.field),
+      direction: pickOption(sort.direction, SORT_DIRECTIONS, defaults.sort.direction)
+    },
+    compare: {
+      firstId: pickImageId(compare.firstId),
+      secondId: pickImageId(compare.secondId),
+      layout: pickOption(compare.layout, COMPARE_LAYOUTS, defaults.compare.layout),
+      amplification: clampInteger(compare.amplification, MIN_AMPLIFICATION, MAX_AMPLIFICATION, defaults.compare.amplification)
+    }
+  };
+};
+
+// Query parameter of each setting. Frames are numbered from 1 in links.
+const PARAMS = {
+  viewMode: 'view',
+  frameCount: 'frames',
+  // Preset name, as older links carry it instead of an interval
+  cycleSpeed: 'speed',
+  cycleInterval: 'interval',
+  dwellRules: 'dwell',
+  transition: 'transition',
+  transitionDuration: 'transitionMs',
+  readyTimeout: 'readyMs',
+  frameTransitions: 'frameTransitions',
+  framePlaylists: 'playlists',
+  name: 'name',
+  mimeType: 'type',
+  uploadedFrom: 'from',
+  uploadedTo: 'to',
+  metadata: 'meta',
+  sortField: 'sort',
+  sortDirection: 'order',
+  compareFirst: 'a',
+  compareSecond: 'b',
+  compareLayout: 'compare',
+  amplification: 'amplify'
+};
+
+/**
+ * Reads per-frame values written by `writeFrameValues`
+ */
+const readFrameValues = (value: string) =>
+  Object.fromEntries(value.split(',').map(entry => {
+    const [frame, frameValue] = entry.split(':');
+    return [Number(frame) - 1, frameValue];
+  }));
+
+/**
+ * Writes per-frame values as `<frame>:<value>` pairs, frames numbered from 1
+ */
+const writeFrameValues = (values: Record<number, string>) =>
+  Object.entries(values).map(([index, value]) => `${Number(index) + 1}:${value}`).join(',');
+
+/**
+ * Reads the settings present in a query string, leaving out absent ones
+ */
+const readParams = (search: string): RawSettings => {
+  const params = new URLSearchParams(search);
+  const get = (name: string) => params.get(name) ?? undefined;
+  const raw: RawSettings = {};
+
+  if (params.has(PARAMS.viewMode)) raw.viewMode = get(PARAMS.viewMode);
+  if (params.has(PARAMS.frameCount)) raw.frameCount = get(PARAMS.frameCount);
+  if (params.has(PARAMS.cycleSpeed)) raw.cycleSpeed = get(PARAMS.cycleSpeed);
+  if (params.has(PARAMS.cycleInterval)) raw.cycleInterval = get(PARAMS.cycleInterval);
+  if (params.has(PARAMS.dwellRules)) {
+    try {
+      raw.dwellRules = JSON.parse(get(PARAMS.dwellRules) ?? '');
+    } catch {
+      // A mangled link loses its rules but keeps the rest of its settings
+    }
+  }
+  if (params.has(PARAMS.transition)) raw.transition = get(PARAMS.transition);
+  if (params.has(PARAMS.transitionDuration)) raw.transitionDuration = get(PARAMS.transitionDuration);
+  if (params.has(PARAMS.readyTimeout)) raw.readyTimeout = get(PARAMS.readyTimeout);
+  if (params.has(PARAMS.frameTransitions)) {
+    // e.g. `2:slide,3:none`
+    raw.frameTransitions = readFrameValues(get(PARAMS.frameTransitions) ?? '');
+  }
+  if (params.has(PARAMS.framePlaylists)) {
+    raw.framePlaylists = readFrameValues(get(PARAMS.framePlaylists) ?? '');
+  }
+
+  const filter = {
+    name: get(PARAMS.name),
+    mimeType: get(PARAMS.mimeType),
+    uploadedFrom: get(PARAMS.uploadedFrom),
+    uploadedTo: get(PARAMS.uploadedTo),
+    metadata: get(PARAMS.metadata)
+  };
+  if (Object.values(filter).some(value => value !== undefined)) raw.filter = filter;
+  if (params.has(PARAMS.sortField) || params.has(PARAMS.sortDirection)) {
+    raw.sort = { field: get(PARAMS.sortField), direction: get(PARAMS.sortDirection) };
+  }
+  const compare = {
+    firstId: get(PARAMS.compareFirst),
+    secondId: get(PARAMS.compareSecond),
+    layout: get(PARAMS.compareLayout),
+    amplification: get(PARAMS.amplification)
+  };
+  if (Object.values(compare).some(value => value !== undefined)) raw.compare = compare;
+  return raw;
+};
+
+/**
+ * Writes the settings into a query string, leaving any other parameters
+ * alone. Settings at their default are left out to keep links short.
+ */
+export const writeParams = (settings: ViewerSettings, search: string) => {
+  const params = new URLSearchParams(search);
+  const defaults = DEFAULT_VIEWER_SETTINGS;
+  const set = (name: string, value: string, defaultValue: string) => {
+    if (value === defaultValue) {
+      params.delete(name);
+    } else {
+      params.set(name, value);
+    }
+  };
+
+  set(PARAMS.viewMode, settings.viewMode, defaults.viewMode);
+  set(PARAMS.frameCount, String(settings.frameCount), String(defaults.frameCount));
+  params.delete(PARAMS.cycleSpeed);
+  set(PARAMS.cycleInterval, String(settings.cycleInterval), String(defaults.cycleInterval));
+  set(PARAMS.dwellRules, settings.dwellRules.length > 0 ? JSON.stringify(settings.dwellRules) : '', '');
+  set(PARAMS.transition, settings.transition, defaults.transition);
+  set(PARAMS.transitionDuration, String(settings.transitionDuration), String(defaults.transitionDuration));
+  set(PARAMS.readyTimeout, String(settings.readyTimeout), String(defaults.readyTimeout));
+  set(PARAMS.frameTransitions, writeFrameValues(settings.frameTransitions), '');
+  set(PARAMS.framePlaylists, writeFrameValues(settings.framePlaylists), '');
+  set(PARAMS.name, settings.filter.name, '');
+  set(PARAMS.mimeType, settings.filter.mimeType, '');
+  set(PARAMS.uploadedFrom, settings.filter.uploadedFrom, '');
+  set(PARAMS.uploadedTo, settings.filter.uploadedTo, '');
+  set(PARAMS.metadata, settings.filter.metadata, '');
+  set(PARAMS.sortField, settings.sort.field, defaults.sort.field);
+  set(PARAMS.sortDirection, settings.sort.direction, defaults.sort.direction);
+  set(PARAMS.compareFirst, settings.compare.firstId, '');
+  set(PARAMS.compareSecond, settings.compare.secondId, '');
+  set(PARAMS.compareLayout, settings.compare.layout, defaults.compare.layout);
+  set(PARAMS.amplification, String(settings.compare.amplification), String(defaults.compare.amplification));
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+const readStorage = (): RawSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return isRecord(stored) ? stored : {};
+  } catch {
+    // Unavailable storage or a corrupt entry: start from the defaults
+    return {};
+  }
+};
+
+/**
+ * Returns the settings to start with: those in the URL when it has any,
+ * so a shared link shows exactly its layout, otherwise those saved last time
+ */
+export const loadViewerSettings = (): ViewerSettings => {
+  const fromUrl = readParams(window.location.search);
+  return validateSettings(Object.keys(fromUrl).length > 0 ? fromUrl : readStorage());
+};
+
+/**
+ * Saves the settings for the next visit and mirrors them into the URL,
+ * so the address bar always holds a link to the current layout
+ */
+export const saveViewerSettings = (settings: ViewerSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.log('Could not save viewer settings:', err);
+  }
+  const search = writeParams(settings, window.location.search);
+  if (search !== window.location.search) {
+    const url = new URL(window.location.href);
+    url.search = search;
+    window.history.replaceState(window.history.state, '', url);
+  }
+};
@@ -0,0 +1,313 @@
+import { isRecord } from './json';
+
+/**
+ * Kind of region an annotation marks:
+ * - `rectangle`, `ellipse`: an area, given by its bounding box
+ * - `point`: a single feature
+ * - `freehand`: an area outlined by hand, closed from its last point to its first
+ */
+export type AnnotationTool = 'rectangle' | 'ellipse' | 'point' | 'freehand';
+
+export const ANNOTATION_TOOLS: AnnotationTool[] = ['rectangle', 'ellipse', 'point', 'freehand'];
+
+export const ANNOTATION_TOOL_LABELS: Record<AnnotationTool, string> = {
+  rectangle: 'Rectangle',
+  ellipse: 'Ellipse',
+  point: 'Point',
+  freehand: 'Freehand'
+};
+
+/** Position in image pixels, from the top left corner of the image */
+export type ImagePoint = [x: number, y: number];
+
+/**
+ * Region of an image, in the pixel coordinates of the image itself so it
+ * stays on its feature however the image is zoomed or resized
+ */
+export type AnnotationShape =
+  | { type: 'rectangle' | 'ellipse'; x: number; y: number; width: number; height: number }
+  | { type: 'point'; x: number; y: number }
+  | { type: 'freehand'; points: ImagePoint[] };
+
+export type LabelledShape = AnnotationShape & { label: string };
+
+export type Annotation = LabelledShape & { id: string };
+
+/** Annotations of one image, with the pixel size of the image they were drawn on */
+export interface ImageAnnotations {
+  width: number;
+  height: number;
+  annotations: Annotation[];
+}
+
+export const MAX_LABEL_LENGTH = 100;
+export const MAX_FREEHAND_POINTS = 2000;
+
+// Points of the polygon an ellipse becomes in COCO segmentations
+const ELLIPSE_POLYGON_POINTS = 32;
+
+/** Dataset in the COCO object detection format, as read by most labelling tools */
+export interface CocoDataset {
+  info: { description: string; date_created: string };
+  images: { id: number; file_name: string; width: number; height: number }[];
+  categories: { id: number; name: string; supercategory: string }[];
+  annotations: {
+    id: number;
+    image_id: number;
+    category_id: number;
+    /** `[x, y, width, height]` */
+    bbox: number[];
+    area: number;
+    iscrowd: 0;
+    /** Outlines as flat `[x1, y1, x2, y2, …]` polygons; empty for points */
+    segmentation: number[][];
+    /** Points only: `[x, y, visibility]` */
+    keypoints?: number[];
+    num_keypoints?: number;
+    /** Shape as drawn, which COCO alone cannot tell apart from a polygon */
+    attributes: { shape: AnnotationTool };
+  }[];
+}
+
+/** Annotations of one image of a COCO dataset, by its file name */
+export interface CocoImageAnnotations {
+  fileName: string;
+  width: number;
+  height: number;
+  annotations: LabelledShape[];
+}
+
+const isCoordinate = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isExtent = (value: unknown): value is number => isCoordinate(value) && value >= 0;
+
+const isTool = (value: unknown): value is AnnotationTool => ANNOTATION_TOOLS.includes(value as AnnotationTool);
+
+/**
+ * Returns an untrusted value as a shape, or null if it is not a valid one
+ */
+export const validateShape = (value: unknown): AnnotationShape | null => {
+  if (!isRecord(value)) return null;
+  const { type, x, y, width, height, points } = value;
+  if (type === 'rectangle' || type === 'ellipse') {
+    return isCoordinate(x) && isCoordinate(y) && isExtent(width) && isExtent(height)
+      ? { type, x, y, width, height }
+      : null;
+  }
+  if (type === 'point') {
+    return isCoordinate(x) && isCoordinate(y) ? { type, x, y } : null;
+  }
+  if (type === 'freehand' && Array.isArray(points)) {
+    const valid = points.filter((point): point is ImagePoint =>
+      Array.isArray(point) && point.length === 2 && isCoordinate(point[0]) && isCoordinate(point[1]));
+    return valid.length >= 2 ? { type, points: valid.slice(0, MAX_FREEHAND_POINTS) } : null;
+  }
+  return null;
+};
+
+/**
+ * Returns an untrusted value as a labelled shape, or null if it is not one.
+ * A missing label becomes the name of the shape.
+ */
+export const validateLabelledShape = (value: unknown): LabelledShape | null => {
+  const shape = validateShape(value);
+  if (!shape || !isRecord(value)) return null;
+  const label = typeof value.label === 'string' && value.label.trim()
+    ? value.label.trim().slice(0, MAX_LABEL_LENGTH)
+    : ANNOTATION_TOOL_LABELS[shape.type];
+  return { ...shape, label };
+};
+
+/**
+ * Returns the box enclosing a shape, in image pixels
+ */
+export const getShapeBounds = (shape: AnnotationShape) => {
+  switch (shape.type) {
+    case 'rectangle':
+    case 'ellipse':
+      return { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
+    case 'point':
+      return { x: shape.x, y: shape.y, width: 0, height: 0 };
+    case 'freehand': {
+      const xs = shape.points.map(([x]) => x);
+      const ys = shape.points.map(([, y]) => y);
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+      return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+    }
+  }
+};
+
+/**
+ * Returns the outline of a shape as points, or none for a point
+ */
+export const getShapeOutline = (shape: AnnotationShape): ImagePoint[] => {
+  switch (shape.type) {
+    case 'rectangle': {
+      const { x, y, width, height } = shape;
+      return [[x, y], [x + width, y], [x + width, y + height], [x, y + height]];
+    }
+    case 'ellipse': {
+      const rx = shape.width / 2;
+      const ry = shape.height / 2;
+      return Array.from({ length: ELLIPSE_POLYGON_POINTS }, (_, i) => {
+        const angle = (2 * Math.PI * i) / ELLIPSE_POLYGON_POINTS;
+        return [shape.x + rx + rx * Math.cos(angle), shape.y + ry + ry * Math.sin(angle)];
+      });
+    }
+    case 'point':
+      return [];
+    case 'freehand':
+      return shape.points;
+  }
+};
+
+/**
+ * Returns the area of a shape in square image pixels
+ */
+export const getShapeArea = (shape: AnnotationShape) => {
+  switch (shape.type) {
+    case 'rectangle':
+      return shape.width * shape.height;
+    case 'ellipse':
+      return (Math.PI * shape.width * shape.height) / 4;
+    case 'point':
+      return 0;
+    case 'freehand': {
+      // Shoelace formula over the closed outline
+      const { points } = shape;
+      const twiceArea = points.reduce((sum, [x, y], i) => {
+        const [nextX, nextY] = points[(i + 1) % points.length];
+        return sum + x * nextY - nextX * y;
+      }, 0);
+      return Math.abs(twiceArea) / 2;
+    }
+  }
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Returns a shape drawn on an image of one pixel size moved onto the same
+ * image at another, e.g. annotations imported for a differently sized copy
+ */
+export const scaleShape = <T extends AnnotationShape>(shape: T, scaleX: number, scaleY: number): T => {
+  switch (shape.type) {
+    case 'rectangle':
+    case 'ellipse':
+      return {
+        ...shape,
+        x: round(shape.x * scaleX),
+        y: round(shape.y * scaleY),
+        width: round(shape.width * scaleX),
+        height: round(shape.height * scaleY)
+      };
+    case 'point':
+      return { ...shape, x: round(shape.x * scaleX), y: round(shape.y * scaleY) };
+    case 'freehand':
+      return { ...shape, points: shape.points.map(([x, y]) => [round(x * scaleX), round(y * scaleY)]) };
+  }
+};
+
+/**
+ * Converts annotated images to a COCO dataset. Labels become categories,
+ * and images are listed under their names.
+ */
+export const toCocoDataset = (
+  entries: { fileName: string; annotations: ImageAnnotations }[],
+  createdAt = new Date()
+): CocoDataset => {
+  const categoryIds = new Map<string, number>();
+  const dataset: CocoDataset = {
+    info: { description: 'Image Platform annotations', date_created: createdAt.toISOString() },
+    images: [],
+    categories: [],
+    annotations: []
+  };
+
+  entries.forEach(({ fileName, annotations: { width, height, annotations } }, index) => {
+    const imageId = index + 1;
+    dataset.images.push({ id: imageId, file_name: fileName, width, height });
+    for (const annotation of annotations) {
+      let categoryId = categoryIds.get(annotation.label);
+      if (categoryId === undefined) {
+        categoryId = categoryIds.size + 1;
+        categoryIds.set(annotation.label, categoryId);
+        dataset.categories.push({ id: categoryId, name: annotation.label, supercategory: '' });
+      }
+      const bounds = getShapeBounds(annotation);
+      const outline = getShapeOutline(annotation).flat().map(round);
+      dataset.annotations.push({
+        id: dataset.annotations.length + 1,
+        image_id: imageId,
+        category_id: categoryId,
+        bbox: [bounds.x, bounds.y, bounds.width, bounds.height].map(round),
+        area: round(getShapeArea(annotation)),
+        iscrowd: 0,
+        segmentation: outline.length > 0 ? [outline] : [],
+        ...(annotation.type === 'point' && { keypoints: [round(annotation.x), round(annotation.y), 2], num_keypoints: 1 }),
+        attributes: { shape: annotation.type }
+      });
+    }
+  });
+  return dataset;
+};
+
+/**
+ * Returns the shape of a COCO annotation: the one recorded in its attributes
+ * when exported from here, otherwise a point for a keypoint, a freehand
+ * outline for a polygon, or a rectangle for a bare bounding box
+ */
+const readCocoShape = (annotation: Record<string, unknown>): AnnotationShape | null => {
+  const recorded = isRecord(annotation.attributes) && isTool(annotation.attributes.shape)
+    ? annotation.attributes.shape
+    : null;
+  const bbox = Array.isArray(annotation.bbox) && annotation.bbox.length === 4 ? annotation.bbox : null;
+  const [x, y, width, height] = bbox ?? [];
+  const keypoints = Array.isArray(annotation.keypoints) ? annotation.keypoints : [];
+  const polygon = Array.isArray(annotation.segmentation) && Array.isArray(annotation.segmentation[0])
+    ? (annotation.segmentation[0] as unknown[])
+    : [];
+
+  if (recorded === 'point' || (!recorded && keypoints.length >= 2)) {
+    return keypoints.length >= 2
+      ? validateShape({ type: 'point', x: keypoints[0], y: keypoints[1] })
+      : validateShape({ type: 'point', x, y });
+  }
+  if (recorded === 'freehand' || (!recorded && polygon.length >= 6)) {
+    const points: unknown[] = [];
+    for (let i = 0; i + 1 < polygon.length; i += 2) points.push([polygon[i], polygon[i + 1]]);
+    return validateShape({ type: 'freehand', points });
+  }
+  return validateShape({ type: recorded ?? 'rectangle', x, y, width, height });
+};
+
+/**
+ * Reads the annotations of every image of a COCO dataset
+ * @throws Error if the value is not a COCO dataset
+ */
+export const fromCocoDataset = (value: unknown): CocoImageAnnotations[] => {
+  if (!isRecord(value) || !Array.isArray(value.images) || !Array.isArray(value.annotations)) {
+    throw new Error('The file is not a COCO dataset');
+  }
+  const categories = new Map<unknown, string>();
+  if (Array.isArray(value.categories)) {
+    for (const category of value.categories.filter(isRecord)) {
+      if (typeof category.name === 'string') categories.set(category.id, category.name);
+    }
+  }
+
+  const byImageId = new Map<unknown, CocoImageAnnotations>();
+  for (const image of value.images.filter(isRecord)) {
+    if (typeof image.file_name !== 'string' || !isExtent(image.width) || !isExtent(image.height)) continue;
+    byImageId.set(image.id, { fileName: image.file_name, width: image.width, height: image.height, annotations: [] });
+  }
+  for (const annotation of value.annotations.filter(isRecord)) {
+    const image = byImageId.get(annotation.image_id);
+    const shape = image && readCocoShape(annotation);
+    if (!image || !shape) continue;
+    const labelled = validateLabelledShape({ ...shape, label: categories.get(annotation.category_id) });
+    if (labelled) image.annotations.push(labelled);
+  }
+  return [...byImageId.values()];
+};
@@ -0,0 +1,21 @@
+/**
+ * How the two images are compared:
+ * - `side-by-side`: next to each other, zoomed and panned together
+ * - `swipe`: overlaid, the second revealed right of a draggable divider
+ * - `onion`: overlaid, the second faded in over the first
+ * - `difference`: the per-pixel difference, amplified
+ */
+export type CompareLayout = 'side-by-side' | 'swipe' | 'onion' | 'difference';
+
+export const COMPARE_LAYOUTS: CompareLayout[] = ['side-by-side', 'swipe', 'onion', 'difference'];
+
+export const COMPARE_LAYOUT_LABELS: Record<CompareLayout, string> = {
+  'side-by-side': 'Side by Side',
+  swipe: 'Swipe',
+  onion: 'Onion Skin',
+  difference: 'Difference'
+};
+
+/** Bounds of the factor the `difference` layout multiplies differences by */
+export const MIN_AMPLIFICATION = 1;
+export const MAX_AMPLIFICATION = 64;
@@ -0,0 +1,23 @@
+import { ImageMetadata, imageApi } from '../services/api';
+
+/**
+ * Saves a blob to disk under the given file name via a temporary link
+ */
+export const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Fetches an image file and saves it under its display name
+ * @throws ApiError if the image cannot be fetched
+ */
+export const downloadImage = async (image: ImageMetadata) => {
+  saveBlob(await imageApi.getImageBlob(image.id), image.name);
+};
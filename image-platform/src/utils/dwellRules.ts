@@ -0,0 +1,55 @@
+import { ImageMetadata } from '../services/api';
+
+/**
+ * Rule deciding how long matching images stay on screen:
+ * - `name`: images whose name matches a case-insensitive regular expression
+ *   stay for a fixed time
+ * - `size`: every image stays for a time proportional to its file size,
+ *   kept between a minimum and a maximum
+ */
+export type DwellRule =
+  | { type: 'name'; pattern: string; dwell: number }
+  | { type: 'size'; msPerMegabyte: number; min: number; max: number };
+
+/** Shortest time any image stays on screen, in ms */
+export const MIN_DWELL = 250;
+
+const BYTES_PER_MEGABYTE = 1024 * 1024;
+
+/**
+ * Returns the regular expression of a name pattern, or null when it is
+ * not a valid one
+ */
+export const parseNamePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Returns how long an image stays on screen, in ms: the dwell of the first
+ * rule that applies to it, or the default dwell when none does
+ */
+export const getDwellTime = (image: ImageMetadata, rules: DwellRule[], defaultDwell: number): number => {
+  for (const rule of rules) {
+    if (rule.type === 'name') {
+      if (parseNamePattern(rule.pattern)?.test(image.name)) {
+        return Math.max(MIN_DWELL, rule.dwell);
+      }
+    } else {
+      const dwell = (image.size / BYTES_PER_MEGABYTE) * rule.msPerMegabyte;
+      return Math.max(MIN_DWELL, rule.min, Math.min(rule.max, dwell));
+    }
+  }
+  return defaultDwell;
+};
+
+/**
+ * Describes a rule for display, e.g. `Names matching "scan" — 10s`
+ */
+export const describeDwellRule = (rule: DwellRule) =>
+  rule.type === 'name'
+    ? `Names matching "${rule.pattern}" — ${rule.dwell / 1000}s`
+    : `${rule.msPerMegabyte / 1000}s per MB, ${rule.min / 1000}s to ${rule.max / 1000}s`;
@@ -0,0 +1,291 @@
+/**
+ * Acquisition details embedded in an image file by the camera or instrument
+ * that made it. Fields the file does not carry are null.
+ */
+export interface EmbeddedMetadata {
+  /** When the image was captured, as recorded by the device's clock */
+  capturedAt: Date | null;
+  /** Make and model of the device */
+  device: string | null;
+  /** Exposure time in seconds */
+  exposureTime: number | null;
+  fNumber: number | null;
+  iso: number | null;
+  /** Focal length in mm */
+  focalLength: number | null;
+  /** Every other field found, by name, e.g. `Software` or a PNG text keyword */
+  tags: Record<string, string>;
+}
+
+/** MIME types whose embedded metadata can be read */
+export const EMBEDDED_METADATA_TYPES = ['image/jpeg', 'image/png'];
+
+// Names of the EXIF tags kept, by tag number
+const EXIF_TAG_NAMES: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+  0x829a: 'ExposureTime',
+  0x829d: 'FNumber',
+  0x8827: 'ISOSpeedRatings',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'DateTimeDigitized',
+  0x9201: 'ShutterSpeedValue',
+  0x9202: 'ApertureValue',
+  0x9204: 'ExposureBiasValue',
+  0x9209: 'Flash',
+  0x920a: 'FocalLength',
+  0x9286: 'UserComment',
+  0xa002: 'PixelXDimension',
+  0xa003: 'PixelYDimension',
+  0xa431: 'BodySerialNumber',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel'
+};
+
+// Pointers to the sub-IFDs read besides the first one
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+// Byte size of each TIFF field type, by type number
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// Longest value kept, so a stray binary blob cannot flood the detail view
+const MAX_VALUE_LENGTH = 2000;
+// Most tags kept from one file
+const MAX_TAGS = 200;
+
+type TagValue = string | number | number[];
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+const trimValue = (value: string) => value.replace(/\0+$/, '').trim().slice(0, MAX_VALUE_LENGTH);
+
+/**
+ * Reads the tags of a TIFF structure, as found in a JPEG's APP1 segment or a
+ * PNG's eXIf chunk, into `tags`. Malformed entries are skipped.
+ */
+const readTiffTags = (bytes: Uint8Array, tags: Map<string, TagValue>) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 8) return;
+  const littleEndian = view.getUint16(0) === 0x4949;
+  if (!littleEndian && view.getUint16(0) !== 0x4d4d) return;
+  if (view.getUint16(2, littleEndian) !== 42) return;
+
+  const readValue = (type: number, count: number, offset: number): TagValue | null => {
+    switch (type) {
+      case 2:
+        return trimValue(latin1.decode(bytes.subarray(offset, offset + count)));
+      case 7: {
+        const raw = bytes.subarray(offset, offset + count);
+        // UserComment starts with an 8 byte character code
+        const text = count > 8 && /^(ASCII|UNICODE|\0{8})/.test(latin1.decode(raw.subarray(0, 8)))
+          ? utf8.decode(raw.subarray(8))
+          : latin1.decode(raw);
+        // Binary data is not worth showing
+        return /[\x01-\x08\x0e-\x1f]/.test(text) ? null : trimValue(text);
+      }
+      default: {
+        const values: number[] = [];
+        const size = TIFF_TYPE_SIZES[type];
+        for (let i = 0; i < Math.min(count, 16); i++) {
+          const at = offset + i * size;
+          switch (type) {
+            case 1: values.push(view.getUint8(at)); break;
+            case 3: values.push(view.getUint16(at, littleEndian)); break;
+            case 4: values.push(view.getUint32(at, littleEndian)); break;
+            case 9: values.push(view.getInt32(at, littleEndian)); break;
+            case 5:
+            case 10: {
+              const read = type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view);
+              const denominator = read(at + 4, littleEndian);
+              values.push(denominator === 0 ? 0 : read(at, littleEndian) / denominator);
+              break;
+            }
+            default: return null;
+          }
+        }
+        return values.length === 1 ? values[0] : values;
+      }
+    }
+  };
+
+  const visited = new Set<number>();
+  const readIfd = (offset: number) => {
+    if (visited.has(offset) || offset + 2 > bytes.length) return;
+    visited.add(offset);
+    const entryCount = view.getUint16(offset, littleEndian);
+
+    for (let i = 0; i < entryCount; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > bytes.length) return;
+      const tag = view.getUint16(entry, littleEndian);
+      const type = view.getUint16(entry + 2, littleEndian);
+      const count = view.getUint32(entry + 4, littleEndian);
+      const size = (TIFF_TYPE_SIZES[type] ?? 0) * count;
+      if (size === 0) continue;
+      const valueOffset = size <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+      if (valueOffset + size > bytes.length) continue;
+
+      if (tag === EXIF_IFD_POINTER || tag === GPS_IFD_POINTER) {
+        // GPS tags are left out: positions are not shown anywhere
+        if (tag === EXIF_IFD_POINTER) readIfd(view.getUint32(valueOffset, littleEndian));
+        continue;
+      }
+      const name = EXIF_TAG_NAMES[tag] ?? (type === 2 ? `Tag 0x${tag.toString(16).padStart(4, '0')}` : null);
+      const value = name && tags.size < MAX_TAGS ? readValue(type, count, valueOffset) : null;
+      if (name && value !== null && value !== '') {
+        tags.set(name, value);
+      }
+    }
+  };
+
+  readIfd(view.getUint32(4, littleEndian));
+};
+
+/**
+ * Reads the EXIF tags of a JPEG file, from its first APP1 segment holding them
+ */
+const readJpegTags = (bytes: Uint8Array, tags: Map<string, TagValue>) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan or end of image: no more metadata segments
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xe1 && latin1.decode(bytes.subarray(offset + 4, offset + 10)) === 'Exif\0\0') {
+      return readTiffTags(bytes.subarray(offset + 10, offset + 2 + length), tags);
+    }
+    offset += 2 + length;
+  }
+};
+
+/**
+ * Reads the text chunks of a PNG file, and its EXIF tags if it has an eXIf
+ * chunk. Compressed text is skipped.
+ */
+const readPngTags = (bytes: Uint8Array, tags: Map<string, TagValue>) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + length));
+    if (type === 'IEND') break;
+
+    if (type === 'tEXt') {
+      const separator = data.indexOf(0);
+      if (separator > 0) {
+        tags.set(latin1.decode(data.subarray(0, separator)), trimValue(latin1.decode(data.subarray(separator + 1))));
+      }
+    } else if (type === 'iTXt') {
+      // keyword \0 compressed method language \0 translated keyword \0 text
+      const keywordEnd = data.indexOf(0);
+      const languageEnd = data.indexOf(0, keywordEnd + 3);
+      const translatedEnd = data.indexOf(0, languageEnd + 1);
+      if (keywordEnd > 0 && data[keywordEnd + 1] === 0 && languageEnd > 0 && translatedEnd > 0) {
+        tags.set(latin1.decode(data.subarray(0, keywordEnd)), trimValue(utf8.decode(data.subarray(translatedEnd + 1))));
+      }
+    } else if (type === 'eXIf') {
+      readTiffTags(data, tags);
+    }
+    if (tags.size >= MAX_TAGS) break;
+    offset += 12 + length;
+  }
+};
+
+/**
+ * Parses an EXIF date, `YYYY:MM:DD HH:MM:SS` in the device's local time,
+ * or any date `Date` understands, as PNG creation times are free-form
+ */
+const parseDate = (value: TagValue | undefined): Date | null => {
+  if (typeof value !== 'string') return null;
+  const exif = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value);
+  const date = exif
+    ? new Date(+exif[1], +exif[2] - 1, +exif[3], +exif[4], +exif[5], +exif[6])
+    : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const toNumber = (value: TagValue | undefined) => {
+  const number = Array.isArray(value) ? value[0] : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Reads the embedded metadata of a JPEG or PNG file. Files of other types,
+ * or without any metadata, give null fields and no tags; corrupt metadata
+ * gives whatever could be read before the damage.
+ */
+export const parseEmbeddedMetadata = (buffer: ArrayBuffer): EmbeddedMetadata => {
+  const bytes = new Uint8Array(buffer);
+  const tags = new Map<string, TagValue>();
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      readJpegTags(bytes, tags);
+    } else if (latin1.decode(bytes.subarray(0, 8)) === '\x89PNG\r\n\x1a\n') {
+      readPngTags(bytes, tags);
+    }
+  } catch (err) {
+    // Reads past the end of a truncated file; keep what was read
+    console.log('Could not read all embedded metadata:', err);
+  }
+
+  const take = (name: string) => {
+    const value = tags.get(name);
+    tags.delete(name);
+    return value;
+  };
+  const make = take('Make');
+  const model = take('Model');
+  const device = [make, model]
+    .filter((part): part is string => typeof part === 'string' && part !== '')
+    // Models often repeat the make, e.g. `Canon` and `Canon EOS R5`
+    .filter((part, index, parts) => index > 0 || !parts[1]?.startsWith(part))
+    .join(' ');
+  const original = take('DateTimeOriginal');
+  const modified = take('DateTime');
+
+  return {
+    capturedAt: parseDate(original) ?? parseDate(take('Creation Time')) ?? parseDate(modified),
+    device: device || null,
+    exposureTime: toNumber(take('ExposureTime')),
+    fNumber: toNumber(take('FNumber')),
+    iso: toNumber(take('ISOSpeedRatings')),
+    focalLength: toNumber(take('FocalLength')),
+    tags: Object.fromEntries(
+      [...tags].map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : String(value)])
+    )
+  };
+};
+
+/**
+ * Formats an exposure time for display, e.g. `1/250 s` or `2 s`
+ */
+export const formatExposureTime = (seconds: number) =>
+  seconds > 0 && seconds < 1 ? `1/${Math.round(1 / seconds)} s` : `${seconds} s`;
+
+/**
+ * Returns every field as display text, by label, leaving out missing ones
+ */
+export const describeEmbeddedMetadata = (metadata: EmbeddedMetadata): [string, string][] => {
+  const fields: [string, string | null][] = [
+    ['Captured', metadata.capturedAt?.toLocaleString() ?? null],
+    ['Device', metadata.device],
+    ['Exposure', metadata.exposureTime !== null ? formatExposureTime(metadata.exposureTime) : null],
+    ['Aperture', metadata.fNumber !== null ? `f/${metadata.fNumber}` : null],
+    ['ISO', metadata.iso !== null ? String(metadata.iso) : null],
+    ['Focal length', metadata.focalLength !== null ? `${metadata.focalLength} mm` : null]
+  ];
+  return [
+    ...fields.filter((field): field is [string, string] => field[1] !== null),
+    ...Object.entries(metadata.tags)
+  ];
+};
@@ -0,0 +1,181 @@
+/**
+ * Colormap applied to an image's luminance, or `none` to keep its colours:
+ * - `grayscale`: luminance alone
+ * - `viridis`, `magma`: perceptually uniform, readable in grayscale print
+ * - `jet`: rainbow, for telling close values apart at a glance
+ */
+export type Colormap = 'none' | 'grayscale' | 'viridis' | 'magma' | 'jet';
+
+export const COLORMAPS: Colormap[] = ['none', 'grayscale', 'viridis', 'magma', 'jet'];
+
+export const COLORMAP_LABELS: Record<Colormap, string> = {
+  none: 'Original colours',
+  grayscale: 'Grayscale',
+  viridis: 'Viridis',
+  magma: 'Magma',
+  jet: 'Jet'
+};
+
+/** Input values mapped to black and white, from 0 to 255, and the midtone gamma */
+export interface Levels {
+  black: number;
+  white: number;
+  /** Above 1 brightens midtones, below 1 darkens them */
+  gamma: number;
+}
+
+export interface ImageAdjustments extends Levels {
+  /** Stretches every image's own levels instead of using `black` and `white` */
+  autoStretch: boolean;
+  colormap: Colormap;
+}
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  black: 0,
+  white: 255,
+  gamma: 1,
+  autoStretch: false,
+  colormap: 'none'
+};
+
+export const MIN_GAMMA = 0.1;
+export const MAX_GAMMA = 5;
+
+/** Pixel counts by value, from 0 to 255, of each channel and of luminance */
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luminance: Uint32Array;
+}
+
+// Share of the darkest and brightest pixels an auto-stretch clips
+const STRETCH_CLIP = 0.005;
+
+// Colormaps as evenly spaced stops, sampled from matplotlib's
+const COLORMAP_STOPS: Record<'viridis' | 'magma', [number, number, number][]> = {
+  viridis: [
+    [68, 1, 84], [72, 40, 120], [62, 73, 137], [49, 104, 142], [38, 130, 142],
+    [31, 158, 137], [53, 183, 121], [110, 206, 88], [253, 231, 37]
+  ],
+  magma: [
+    [0, 0, 4], [28, 16, 68], [79, 18, 123], [129, 37, 129], [181, 54, 122],
+    [229, 80, 100], [251, 135, 97], [254, 194, 135], [252, 253, 191]
+  ]
+};
+
+/**
+ * Returns the Rec. 709 luminance of a colour, from 0 to 255
+ */
+const getLuminance = (red: number, green: number, blue: number) =>
+  Math.round(0.2126 * red + 0.7152 * green + 0.0722 * blue);
+
+/**
+ * Counts the pixels of RGBA data by value. Alpha is ignored.
+ */
+export const computeHistogram = (data: Uint8ClampedArray): Histogram => {
+  const histogram = {
+    red: new Uint32Array(256),
+    green: new Uint32Array(256),
+    blue: new Uint32Array(256),
+    luminance: new Uint32Array(256)
+  };
+  for (let i = 0; i < data.length; i += 4) {
+    histogram.red[data[i]]++;
+    histogram.green[data[i + 1]]++;
+    histogram.blue[data[i + 2]]++;
+    histogram.luminance[getLuminance(data[i], data[i + 1], data[i + 2])]++;
+  }
+  return histogram;
+};
+
+/**
+ * Returns the black and white levels spreading an image's luminance over the
+ * whole range, ignoring a sliver of outliers at either end
+ */
+export const getStretchLevels = (histogram: Histogram): Pick<Levels, 'black' | 'white'> => {
+  const counts = histogram.luminance;
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return { black: 0, white: 255 };
+
+  const clip = total * STRETCH_CLIP;
+  let black = 0;
+  let darker = counts[0];
+  while (darker <= clip && black < 255) darker += counts[++black];
+  let white = 255;
+  let brighter = counts[255];
+  while (brighter <= clip && white > 0) brighter += counts[--white];
+  // A flat image has nothing to stretch
+  return white > black ? { black, white } : { black: 0, white: 255 };
+};
+
+/**
+ * Returns the levels an image is shown with: its stretched ones when
+ * auto-stretching, otherwise the chosen ones
+ */
+export const getEffectiveLevels = (adjustments: ImageAdjustments, histogram: Histogram | null): Levels =>
+  adjustments.autoStretch && histogram
+    ? { ...getStretchLevels(histogram), gamma: adjustments.gamma }
+    : { black: adjustments.black, white: adjustments.white, gamma: adjustments.gamma };
+
+/**
+ * Returns the output value of every input value, from 0 to 255, under levels
+ */
+export const buildLevelsTable = ({ black, white, gamma }: Levels) => {
+  const table = new Uint8ClampedArray(256);
+  const range = Math.max(1, white - black);
+  for (let value = 0; value < 256; value++) {
+    const normalized = Math.min(1, Math.max(0, (value - black) / range));
+    table[value] = Math.round(255 * normalized ** (1 / gamma));
+  }
+  return table;
+};
+
+/**
+ * Returns the RGB colour of every value, from 0 to 255, as consecutive triples
+ */
+export const buildColormapTable = (colormap: Exclude<Colormap, 'none'>) => {
+  const table = new Uint8ClampedArray(256 * 3);
+  for (let value = 0; value < 256; value++) {
+    const t = value / 255;
+    let rgb: number[];
+    if (colormap === 'grayscale') {
+      rgb = [value, value, value];
+    } else if (colormap === 'jet') {
+      rgb = [3, 2, 1].map(centre => 255 * Math.min(1, Math.max(0, 1.5 - Math.abs(4 * t - centre))));
+    } else {
+      const stops = COLORMAP_STOPS[colormap];
+      const position = t * (stops.length - 1);
+      const index = Math.min(stops.length - 2, Math.floor(position));
+      const fraction = position - index;
+      rgb = stops[index].map((channel, i) => channel + (stops[index + 1][i] - channel) * fraction);
+    }
+    table.set(rgb.map(Math.round), value * 3);
+  }
+  return table;
+};
+
+/**
+ * Returns RGBA data with levels applied to each channel, or, with a
+ * colormap, to the luminance that is then coloured by the colormap
+ */
+export const applyAdjustments = (data: Uint8ClampedArray, levels: Levels, colormap: Colormap) => {
+  const output = new Uint8ClampedArray(data.length);
+  const levelsTable = buildLevelsTable(levels);
+  const colormapTable = colormap === 'none' ? null : buildColormapTable(colormap);
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (colormapTable) {
+      const index = levelsTable[getLuminance(data[i], data[i + 1], data[i + 2])] * 3;
+      output[i] = colormapTable[index];
+      output[i + 1] = colormapTable[index + 1];
+      output[i + 2] = colormapTable[index + 2];
+    } else {
+      output[i] = levelsTable[data[i]];
+      output[i + 1] = levelsTable[data[i + 1]];
+      output[i + 2] = levelsTable[data[i + 2]];
+    }
+    output[i + 3] = data[i + 3];
+  }
+  return output;
+};
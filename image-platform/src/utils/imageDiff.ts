@@ -0,0 +1,78 @@
+import { ImageEvent, ImageMetadata } from '../services/api';
+
+export interface ImageListDiff {
+  added: ImageMetadata[];
+  removed: ImageMetadata[];
+  /** Images present in both lists whose metadata changed */
+  updated: ImageMetadata[];
+  /** Whether images present in both lists appear in a different order */
+  reordered: boolean;
+}
+
+const isSameMetadata = (a: ImageMetadata, b: ImageMetadata) =>
+  a.id === b.id &&
+  a.name === b.name &&
+  a.size === b.size &&
+  a.mimeType === b.mimeType &&
+  a.uploadedAt.getTime() === b.uploadedAt.getTime();
+
+/**
+ * Compares the list the client holds with a freshly fetched one
+ */
+export const diffImageLists = (current: ImageMetadata[], next: ImageMetadata[]): ImageListDiff => {
+  const currentById = new Map(current.map(image => [image.id, image]));
+  const nextIds = new Set(next.map(image => image.id));
+
+  const added = next.filter(image => !currentById.has(image.id));
+  const removed = current.filter(image => !nextIds.has(image.id));
+  const updated = next.filter(image => {
+    const existing = currentById.get(image.id);
+    return existing !== undefined && !isSameMetadata(existing, image);
+  });
+
+  const keptCurrentOrder = current.filter(image => nextIds.has(image.id)).map(image => image.id);
+  const keptNextOrder = next.filter(image => currentById.has(image.id)).map(image => image.id);
+  const reordered = keptCurrentOrder.some((id, index) => id !== keptNextOrder[index]);
+
+  return { added, removed, updated, reordered };
+};
+
+export const isEmptyDiff = (diff: ImageListDiff) =>
+  diff.added.length === 0 && diff.removed.length === 0 && diff.updated.length === 0 && !diff.reordered;
+
+/**
+ * Turns a diff into the stream events that would have produced it,
+ * for when changes are found by polling rather than by the stream
+ */
+export const toImageEvents = (diff: ImageListDiff): ImageEvent[] => [
+  ...diff.removed.map(image => ({ type: 'DELETE' as const, image_id: image.id, image_name: image.name })),
+  ...diff.added.map(image => ({ type: 'UPLOAD' as const, image_id: image.id, image_name: image.name }))
+];
+
+/**
+ * Merges a freshly fetched list into the current one.
+ *
+ * The fetched list decides membership and order, but unchanged images keep
+ * their existing objects, and the current array itself is returned when
+ * nothing changed, so React skips re-rendering anything that did not change.
+ *
+ * @param current The list the client holds
+ * @param next The list fetched from the server
+ * @param excludedIds Images to leave out, e.g. ones with a delete in flight
+ */
+export const mergeImageLists = (
+  current: ImageMetadata[],
+  next: ImageMetadata[],
+  excludedIds: ReadonlySet<string> = new Set()
+): ImageMetadata[] => {
+  const currentById = new Map(current.map(image => [image.id, image]));
+  const merged = next
+    .filter(image => !excludedIds.has(image.id))
+    .map(image => {
+      const existing = currentById.get(image.id);
+      return existing && isSameMetadata(existing, image) ? existing : image;
+    });
+
+  const unchanged = merged.length === current.length && merged.every((image, index) => image === current[index]);
+  return unchanged ? current : merged;
+};
@@ -0,0 +1,85 @@
+import { imageApi } from '../services/api';
+
+/**
+ * Loads an image into an element whose pixels can be read. The contents are
+ * fetched rather than loaded by URL, as canvases drawing an image from
+ * another origin, e.g. a separately hosted API, cannot be read back.
+ */
+export const loadImageElement = async (id: string): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(await imageApi.getImageBlob(id));
+  try {
+    return await new Promise((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('The image could not be decoded'));
+      image.src = url;
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Returns the RGBA pixels of an image drawn at the given size, or null where
+ * canvases are unavailable
+ */
+export const readImagePixels = (image: CanvasImageSource, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(image, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height).data;
+};
+
+/** RGBA pixels of an image, row by row */
+export interface ImagePixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Fetches and decodes an image and returns its pixels at its natural size
+ * @throws Error where canvases are unavailable, as well as any fetch error
+ */
+export const loadImagePixels = async (id: string): Promise<ImagePixels> => {
+  const image = await loadImageElement(id);
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const data = readImagePixels(image, width, height);
+  if (!data) throw new Error('This browser cannot read image pixels');
+  return { width, height, data };
+};
+
+export interface PixelDifference {
+  /** RGBA pixels, each channel the amplified absolute difference, fully opaque */
+  data: Uint8ClampedArray;
+  /** Pixels differing in any channel, before amplification */
+  changedPixels: number;
+}
+
+/**
+ * Computes the per-pixel difference of two equally sized RGBA images,
+ * multiplied by `amplification` so faint changes become visible. Alpha is
+ * ignored.
+ */
+export const diffPixels = (a: Uint8ClampedArray, b: Uint8ClampedArray, amplification: number): PixelDifference => {
+  if (a.length !== b.length) {
+    throw new Error('Images of different sizes cannot be compared pixel by pixel');
+  }
+  const data = new Uint8ClampedArray(a.length);
+  let changedPixels = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    const red = Math.abs(a[i] - b[i]);
+    const green = Math.abs(a[i + 1] - b[i + 1]);
+    const blue = Math.abs(a[i + 2] - b[i + 2]);
+    if (red || green || blue) changedPixels++;
+    // Clamped to 255 by the array
+    data[i] = red * amplification;
+    data[i + 1] = green * amplification;
+    data[i + 2] = blue * amplification;
+    data[i + 3] = 255;
+  }
+  return { data, changedPixels };
+};
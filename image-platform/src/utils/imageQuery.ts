@@ -0,0 +1,154 @@
+import { ImageMetadata } from '../services/api';
+import { EmbeddedMetadata, describeEmbeddedMetadata } from './embeddedMetadata';
+
+export type SortField = 'name' | 'size' | 'uploadedAt' | 'mimeType' | 'capturedAt' | 'device' | 'exposureTime' | 'iso';
+export type SortDirection = 'asc' | 'desc';
+
+export interface ImageSort {
+  field: SortField;
+  direction: SortDirection;
+}
+
+export interface ImageFilter {
+  /** Case-insensitive substring matched against the image name */
+  name: string;
+  /** Exact MIME type, or empty for any type */
+  mimeType: string;
+  /** Inclusive lower bound of the upload date as `YYYY-MM-DD`, or empty */
+  uploadedFrom: string;
+  /** Inclusive upper bound of the upload date as `YYYY-MM-DD`, or empty */
+  uploadedTo: string;
+  /** Case-insensitive substring matched against the embedded metadata, labels included */
+  metadata: string;
+}
+
+/** Embedded metadata of images by id, null for images without any */
+export type EmbeddedMetadataLookup = ReadonlyMap<string, EmbeddedMetadata | null>;
+
+/** Sort fields read from embedded metadata rather than `ImageMetadata` */
+export const EMBEDDED_SORT_FIELDS: SortField[] = ['capturedAt', 'device', 'exposureTime', 'iso'];
+
+const NO_EMBEDDED_METADATA: EmbeddedMetadataLookup = new Map();
+
+export const EMPTY_FILTER: ImageFilter = {
+  name: '',
+  mimeType: '',
+  uploadedFrom: '',
+  uploadedTo: '',
+  metadata: ''
+};
+
+export const DEFAULT_SORT: ImageSort = {
+  field: 'uploadedAt',
+  direction: 'desc'
+};
+
+/**
+ * Converts a `YYYY-MM-DD` date input value to a local timestamp,
+ * at the start of the day or at its last millisecond
+ */
+const parseDateBound = (value: string, endOfDay: boolean): number | null => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime()
+    : new Date(year, month - 1, day).getTime();
+};
+
+/**
+ * Returns whether embedded metadata has a field whose label or value
+ * contains the query, which is lower case
+ */
+const matchesEmbeddedMetadata = (metadata: EmbeddedMetadata | null | undefined, query: string) =>
+  !!metadata && describeEmbeddedMetadata(metadata)
+    .some(([label, value]) => `${label} ${value}`.toLowerCase().includes(query));
+
+/**
+ * Returns the images matching every non-empty criterion of the filter.
+ * Images whose embedded metadata has not been read yet do not match a
+ * metadata query.
+ */
+export const filterImages = (
+  images: ImageMetadata[],
+  filter: ImageFilter,
+  embedded: EmbeddedMetadataLookup = NO_EMBEDDED_METADATA
+): ImageMetadata[] => {
+  const nameQuery = filter.name.trim().toLowerCase();
+  const metadataQuery = filter.metadata.trim().toLowerCase();
+  const from = parseDateBound(filter.uploadedFrom, false);
+  const to = parseDateBound(filter.uploadedTo, true);
+
+  return images.filter(image => {
+    if (nameQuery && !image.name.toLowerCase().includes(nameQuery)) return false;
+    if (filter.mimeType && image.mimeType !== filter.mimeType) return false;
+    if (from !== null || to !== null) {
+      const uploadedAt = image.uploadedAt.getTime();
+      if (from !== null && uploadedAt < from) return false;
+      if (to !== null && uploadedAt > to) return false;
+    }
+    if (metadataQuery && !matchesEmbeddedMetadata(embedded.get(image.id), metadataQuery)) return false;
+    return true;
+  });
+};
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const compareBy = (field: SortField) => (a: ImageMetadata, b: ImageMetadata): number => {
+  switch (field) {
+    case 'size':
+      return a.size - b.size;
+    case 'uploadedAt':
+      return a.uploadedAt.getTime() - b.uploadedAt.getTime();
+    case 'name':
+    case 'mimeType':
+      return compareText(a[field], b[field]);
+    default:
+      return 0;
+  }
+};
+
+/** Returns an embedded field of an image, or null when it is missing or not read yet */
+const getEmbeddedValue = (metadata: EmbeddedMetadata | null | undefined, field: SortField): string | number | null => {
+  if (!metadata) return null;
+  switch (field) {
+    case 'capturedAt': return metadata.capturedAt?.getTime() ?? null;
+    case 'device': return metadata.device;
+    case 'exposureTime': return metadata.exposureTime;
+    case 'iso': return metadata.iso;
+    default: return null;
+  }
+};
+
+/**
+ * Returns a sorted copy of the images. Ties keep their backend order.
+ * When sorting by an embedded field, images without it come last in
+ * either direction.
+ */
+export const sortImages = (
+  images: ImageMetadata[],
+  sort: ImageSort,
+  embedded: EmbeddedMetadataLookup = NO_EMBEDDED_METADATA
+): ImageMetadata[] => {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  if (!EMBEDDED_SORT_FIELDS.includes(sort.field)) {
+    const compare = compareBy(sort.field);
+    return [...images].sort((a, b) => sign * compare(a, b));
+  }
+
+  const values = new Map(images.map(image => [image.id, getEmbeddedValue(embedded.get(image.id), sort.field)]));
+  return [...images].sort((a, b) => {
+    const valueA = values.get(a.id) ?? null;
+    const valueB = values.get(b.id) ?? null;
+    if (valueA === null || valueB === null) return (valueA === null ? 1 : 0) - (valueB === null ? 1 : 0);
+    return sign * (typeof valueA === 'string' || typeof valueB === 'string'
+      ? compareText(String(valueA), String(valueB))
+      : valueA - valueB);
+  });
+};
+
+/**
+ * Lists the distinct MIME types present in the images, alphabetically
+ */
+export const getMimeTypes = (images: ImageMetadata[]): string[] =>
+  Array.from(new Set(images.map(image => image.mimeType))).sort();
@@ -0,0 +1,18 @@
+/**
+ * Returns whether an untrusted value, e.g. parsed JSON, is a plain object
+ * whose fields can be validated one by one
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses an import file's text
+ * @throws Error if it is not JSON
+ */
+export const parseJson = (json: string): unknown => {
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+};
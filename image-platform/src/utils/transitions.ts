@@ -0,0 +1,20 @@
+/**
+ * How the carousel changes from one image to the next:
+ * - `none`: at once
+ * - `crossfade`: the next image fades in over the previous one
+ * - `slide`: the next image pushes the previous one out
+ * - `kenburns`: crossfade, with each image slowly panned and zoomed
+ */
+export type TransitionMode = 'none' | 'crossfade' | 'slide' | 'kenburns';
+
+export const TRANSITION_MODES: TransitionMode[] = ['none', 'crossfade', 'slide', 'kenburns'];
+
+export const TRANSITION_LABELS: Record<TransitionMode, string> = {
+  none: 'None',
+  crossfade: 'Crossfade',
+  slide: 'Slide',
+  kenburns: 'Ken Burns'
+};
+
+/** Length of the change from one image to the next, in ms */
+export const DEFAULT_TRANSITION_DURATION = 500;
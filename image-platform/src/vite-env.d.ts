@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the image service API, defaults to "/api" */
+  readonly VITE_API_BASE_URL?: string;
+  /** Comma separated stream transport preference, e.g. "sse,websocket,long-polling"; defaults to "sse" */
+  readonly VITE_STREAM_TRANSPORTS?: string;
+}
+
+/** Name of the cache `sw.js` keeps image contents in, defined by `vite.config.ts` */
+declare const __IMAGE_CACHE__: string;
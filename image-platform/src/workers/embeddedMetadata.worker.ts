@@ -0,0 +1,22 @@
+import { EmbeddedMetadata, parseEmbeddedMetadata } from '../utils/embeddedMetadata';
+
+/** File to parse, with an id echoed back so responses can be matched up */
+export interface ParseRequest {
+  requestId: number;
+  buffer: ArrayBuffer;
+}
+
+export interface ParseResponse {
+  requestId: number;
+  metadata: EmbeddedMetadata;
+}
+
+/**
+ * Parses embedded metadata off the main thread, so reading large files
+ * does not stall cycling
+ */
+self.onmessage = (e: MessageEvent<ParseRequest>) => {
+  const { requestId, buffer } = e.data;
+  const response: ParseResponse = { requestId, metadata: parseEmbeddedMetadata(buffer) };
+  self.postMessage(response);
+};
@@ -1,16 +1,64 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+
+// Name of the cache `sw.js` keeps image contents in, which the page reads too
+const IMAGE_CACHE = 'image-contents'
+
+/**
+ * Emits `sw.js` from `service-worker/sw.js`, filling in the list of files
+ * to precache and a version derived from them, so every build with changed
+ * output installs as a new service worker. The image cache name is given to
+ * the page as `__IMAGE_CACHE__`, in development too.
+ */
+const serviceWorker = (apiBase: string): Plugin => {
+  let publicDir = ''
+  return {
+    name: 'image-platform-service-worker',
+    // After the HTML plugin, so index.html is part of the bundle
+    enforce: 'post',
+    config() {
+      return { define: { __IMAGE_CACHE__: JSON.stringify(IMAGE_CACHE) } }
+    },
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    generateBundle(_options, bundle) {
+      const publicFiles = publicDir ? readdirSync(publicDir) : []
+      const urls = [
+        '/',
+        ...Object.keys(bundle).filter(fileName => !fileName.endsWith('.map')),
+        ...publicFiles
+      ].map(fileName => (fileName.startsWith('/') ? fileName : `/${fileName}`))
+      const precacheUrls = Array.from(new Set(urls)).sort()
+      const version = createHash('sha256').update(precacheUrls.join('\n')).digest('hex').slice(0, 12)
+
+      const source = readFileSync(fileURLToPath(new URL('./service-worker/sw.js', import.meta.url)), 'utf-8')
+        .replace('__BUILD_VERSION__', JSON.stringify(version))
+        .replace('__PRECACHE_URLS__', JSON.stringify(precacheUrls))
+        .replace('__API_BASE__', JSON.stringify(apiBase))
+        .replace('__IMAGE_CACHE__', JSON.stringify(IMAGE_CACHE))
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  server: {
-    proxy: {
-      '/api': {
-        target: 'http://localhost:8080',
-        changeOrigin: true,
-        secure: false,
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd())
+  return {
+    plugins: [react(), serviceWorker(env.VITE_API_BASE_URL || '/api')],
+    server: {
+      proxy: {
+        '/api': {
+          target: 'http://localhost:8080',
+          changeOrigin: true,
+          secure: false,
+          ws: true,
+        },
       },
     },
-  },
+  }
 })